@@ -27,8 +27,8 @@ function App() {
 
   return (
     <SettingsProvider>
-      <AIProvider>
-        <AudioProvider>
+      <AudioProvider>
+        <AIProvider>
           <CameraProvider>
             <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
               {/* Navigation */}
@@ -117,8 +117,8 @@ function App() {
               </div>
             </div>
           </CameraProvider>
-        </AudioProvider>
-      </AIProvider>
+        </AIProvider>
+      </AudioProvider>
     </SettingsProvider>
   );
 }
@@ -0,0 +1,131 @@
+// Animations the user imported themselves, kept in IndexedDB as the original file so they can be
+// retargeted onto whichever model is loaded
+import * as THREE from 'three';
+import { v4 as uuidv4 } from 'uuid';
+import { VRM } from '@pixiv/three-vrm';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { BVHLoader } from 'three/examples/jsm/loaders/BVHLoader.js';
+import { IndexedDBStore } from '../utils/indexedDBStore';
+import { retargetMixamoClip, retargetBVHClip } from './mixamoRetarget';
+import { parseVRMAnimation, setClipLoop } from './vrmAnimation';
+
+export type AnimationFormat = 'fbx' | 'vrma' | 'bvh';
+
+// Emotion clips play for their emotion, dances while music plays, idles when nothing else is going on
+export type AnimationCategory = 'emotion' | 'dance' | 'idle';
+
+export const animationCategories: AnimationCategory[] = ['emotion', 'dance', 'idle'];
+
+export const animationFileExtensions = ['.fbx', '.vrma', '.bvh'];
+
+export interface StoredAnimation {
+  id: string;
+  name: string;
+  format: AnimationFormat;
+  category: AnimationCategory;
+  // Which emotion an emotion clip stands for
+  emotion?: string;
+  loop: boolean;
+  data: ArrayBuffer;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function animationFormatOf(fileName: string): AnimationFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'fbx' || extension === 'vrma' || extension === 'bvh' ? extension : null;
+}
+
+export class AnimationLibrary {
+  private store = new IndexedDBStore<StoredAnimation>('virtualWifeAnimations', 'animations');
+  private animations: StoredAnimation[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.getAll()
+        .then(animations => { this.animations = animations; })
+        .catch(error => console.error('Error loading animation library:', error));
+    }
+    return this.loaded;
+  }
+
+  all(): StoredAnimation[] {
+    return [...this.animations].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Store a file, guessing its category from the file name: "Silly Dancing.fbx" is a dance,
+  // "happy_jump.vrma" an emotion clip for happy, anything else an idle
+  async import(file: File, emotions: string[] = []): Promise<StoredAnimation> {
+    await this.load();
+    const format = animationFormatOf(file.name);
+    if (!format) throw new Error(`${file.name} is not an FBX, VRMA or BVH file`);
+
+    const baseName = file.name.replace(/\.[^.]+$/, '').trim() || 'Animation';
+    const lowerName = baseName.toLowerCase();
+    const emotion = emotions.find(candidate => lowerName.includes(candidate));
+    const category: AnimationCategory = /danc/.test(lowerName) ? 'dance' : emotion ? 'emotion' : 'idle';
+
+    const now = new Date().toISOString();
+    const animation: StoredAnimation = {
+      id: uuidv4(),
+      name: this.uniqueName(baseName),
+      format,
+      category,
+      emotion: category === 'emotion' ? emotion : undefined,
+      loop: true,
+      data: await file.arrayBuffer(),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.animations.push(animation);
+    await this.store.put(animation);
+    return animation;
+  }
+
+  async update(id: string, updates: Partial<Pick<StoredAnimation, 'name' | 'category' | 'emotion' | 'loop'>>): Promise<StoredAnimation | null> {
+    await this.load();
+    const index = this.animations.findIndex(animation => animation.id === id);
+    if (index < 0) return null;
+
+    const name = updates.name?.trim();
+    const animation = {
+      ...this.animations[index],
+      ...updates,
+      name: name ? this.uniqueName(name, id) : this.animations[index].name,
+      updatedAt: new Date().toISOString()
+    };
+    this.animations[index] = animation;
+    await this.store.put(animation);
+    return animation;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    this.animations = this.animations.filter(animation => animation.id !== id);
+    await this.store.delete(id);
+  }
+
+  // Clips are looked up by name, so two imports of "Wave.fbx" become "Wave" and "Wave 2"
+  private uniqueName(name: string, exceptId?: string): string {
+    const taken = new Set(this.animations.filter(animation => animation.id !== exceptId).map(animation => animation.name));
+    let candidate = name;
+    for (let i = 2; taken.has(candidate); i++) candidate = `${name} ${i}`;
+    return candidate;
+  }
+}
+
+// Turn a stored file into a clip for this model, honouring the user's loop setting.
+// Returns null when none of its bones map onto the model.
+export async function parseStoredAnimation(animation: StoredAnimation, vrm: VRM): Promise<THREE.AnimationClip | null> {
+  let clip: THREE.AnimationClip | null;
+  if (animation.format === 'vrma') {
+    clip = await parseVRMAnimation(animation.data, vrm, animation.name);
+  } else if (animation.format === 'bvh') {
+    clip = retargetBVHClip(new BVHLoader().parse(new TextDecoder().decode(animation.data)), vrm, animation.name);
+  } else {
+    clip = retargetMixamoClip(new FBXLoader().parse(animation.data, ''), vrm, animation.name);
+  }
+  if (clip) setClipLoop(clip, animation.loop);
+  return clip;
+}
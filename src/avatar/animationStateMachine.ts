@@ -0,0 +1,212 @@
+// Body animation state machine. Every source of animation (idle, emotions, speech, gestures, music,
+// the manual picker) files a request for its state; the highest-priority state with a loaded clip
+// plays, and transitions between states crossfade for a duration that depends on the pair.
+import * as THREE from 'three';
+
+export type AnimationStateName = 'idle' | 'talking' | 'emotion' | 'gesture' | 'dance' | 'manual';
+
+// Lowest to highest priority
+export const animationStates: AnimationStateName[] = ['idle', 'talking', 'emotion', 'gesture', 'dance', 'manual'];
+
+export interface AnimationRequestOptions {
+  timeScale?: number;
+  // With several clips, move on to the next one after this many seconds
+  rotateEvery?: number;
+}
+
+export interface AnimationSnapshot {
+  state: AnimationStateName | null;
+  clip: string | null;
+  oneShot: boolean;
+  // States with a pending request, highest priority first
+  requested: AnimationStateName[];
+}
+
+interface StateRequest {
+  clips: string[];
+  options: AnimationRequestOptions;
+  index: number;
+  elapsed: number;
+}
+
+interface ActiveAnimation {
+  state: AnimationStateName;
+  name: string;
+  clip: THREE.AnimationClip;
+  action: THREE.AnimationAction;
+  oneShot: boolean;
+}
+
+const DEFAULT_CROSSFADE = 0.5;
+
+// Seconds to blend from one state into another; missing pairs use the default
+const CROSSFADES: { [from in AnimationStateName]?: { [to in AnimationStateName]?: number } } = {
+  idle: { talking: 0.6, emotion: 0.4, gesture: 0.3, dance: 1 },
+  talking: { idle: 0.8, emotion: 0.4, gesture: 0.3, dance: 1 },
+  emotion: { idle: 0.8, talking: 0.6, gesture: 0.3, dance: 1 },
+  // Coming back from a gesture is slower so she settles rather than snaps into place
+  gesture: { idle: 0.7, talking: 0.6, emotion: 0.6, dance: 1 },
+  dance: { dance: 1, idle: 1, talking: 1, emotion: 1, gesture: 0.6 },
+  manual: { idle: 0.6, talking: 0.6, emotion: 0.6, dance: 1 }
+};
+
+export function crossfadeDuration(from: AnimationStateName | null, to: AnimationStateName): number {
+  if (!from) return 0;
+  if (to === 'manual') return 0.3;
+  return CROSSFADES[from]?.[to] ?? DEFAULT_CROSSFADE;
+}
+
+export class AnimationStateMachine {
+  private mixer: THREE.AnimationMixer | null = null;
+  private clips: { [name: string]: THREE.AnimationClip } = {};
+  private requests: { [state in AnimationStateName]?: StateRequest } = {};
+  private active: ActiveAnimation | null = null;
+  private listeners = new Set<(snapshot: AnimationSnapshot) => void>();
+  private isOneShotClip: (name: string, clip: THREE.AnimationClip) => boolean;
+
+  // Gestures always play once; other states play clips once only when this says so
+  constructor(isOneShotClip: (name: string, clip: THREE.AnimationClip) => boolean = () => false) {
+    this.isOneShotClip = isOneShotClip;
+  }
+
+  private onFinished = (event: { action: THREE.AnimationAction }) => {
+    const active = this.active;
+    if (!active || event.action !== active.action || !active.oneShot) return;
+
+    // A finished one-shot hands back to whatever it interrupted. Manual picks hold their last
+    // frame instead, so the chosen pose stays on screen.
+    if (active.state === 'manual') return;
+    if (this.requests[active.state]?.clips.includes(active.name)) {
+      delete this.requests[active.state];
+    }
+    this.resolve();
+  };
+
+  // Point the machine at a model's mixer and clips; called again whenever clips finish loading
+  attach(mixer: THREE.AnimationMixer | null, clips: { [name: string]: THREE.AnimationClip }): void {
+    if (mixer !== this.mixer) {
+      this.mixer?.removeEventListener('finished', this.onFinished as any);
+      mixer?.addEventListener('finished', this.onFinished as any);
+      this.mixer = mixer;
+      this.active = null;
+    }
+    this.clips = clips;
+    this.resolve();
+  }
+
+  // Ask for a state to play one of its clips, or pass null to withdraw the request. Repeating an
+  // identical request is a no-op, so callers can re-send on every render.
+  request(state: AnimationStateName, clips: string | string[] | null, options: AnimationRequestOptions = {}): void {
+    const list = clips === null ? [] : Array.isArray(clips) ? clips : [clips];
+    const existing = this.requests[state];
+
+    if (list.length === 0) {
+      if (!existing) return;
+      delete this.requests[state];
+    } else if (existing && existing.clips.join('\n') === list.join('\n')) {
+      if (existing.options.timeScale === options.timeScale && existing.options.rotateEvery === options.rotateEvery) return;
+      existing.options = options;
+    } else {
+      this.requests[state] = { clips: list, options, index: 0, elapsed: 0 };
+    }
+    this.resolve();
+  }
+
+  // Re-request a one-shot state even if the same clip was asked for last time
+  replay(state: AnimationStateName, clip: string): void {
+    delete this.requests[state];
+    this.request(state, clip);
+  }
+
+  // Call once per frame after the mixer update; moves multi-clip states on to their next clip
+  update(delta: number): void {
+    const active = this.active;
+    if (!active) return;
+    const request = this.requests[active.state];
+    if (!request?.options.rotateEvery || request.clips.length < 2) return;
+
+    request.elapsed += delta;
+    if (request.elapsed >= request.options.rotateEvery) {
+      request.elapsed = 0;
+      request.index = (request.index + 1) % request.clips.length;
+      this.resolve();
+    }
+  }
+
+  get state(): AnimationStateName | null {
+    return this.active?.state || null;
+  }
+
+  get currentAction(): THREE.AnimationAction | null {
+    return this.active?.action || null;
+  }
+
+  get snapshot(): AnimationSnapshot {
+    return {
+      state: this.active?.state || null,
+      clip: this.active?.name || null,
+      oneShot: !!this.active?.oneShot,
+      requested: [...animationStates].reverse().filter(state => this.requests[state])
+    };
+  }
+
+  subscribe(listener: (snapshot: AnimationSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Play the highest-priority request whose clip is loaded
+  private resolve(): void {
+    const next = this.pickRequest();
+    const active = this.active;
+
+    if (!next || !this.mixer) {
+      this.notify();
+      return;
+    }
+
+    const { state, name, clip, request } = next;
+    const oneShot = state === 'gesture' || this.isOneShotClip(name, clip);
+    if (active && active.clip === clip && active.oneShot === oneShot && active.action.isRunning()) {
+      // Same clip under a different state (say, talking while the emotion clip plays): no restart
+      active.state = state;
+      active.name = name;
+      active.action.timeScale = request.options.timeScale ?? 1;
+      this.notify();
+      return;
+    }
+
+    const fade = crossfadeDuration(active?.state || null, state);
+    const action = this.mixer.clipAction(clip);
+    action.reset();
+    action.setLoop(oneShot ? THREE.LoopOnce : THREE.LoopRepeat, oneShot ? 1 : Infinity);
+    action.clampWhenFinished = oneShot;
+    action.timeScale = request.options.timeScale ?? 1;
+    action.setEffectiveWeight(1);
+    if (fade > 0) action.fadeIn(fade);
+    action.play();
+    if (active && active.action !== action) active.action.fadeOut(fade);
+
+    this.active = { state, name, clip, action, oneShot };
+    this.notify();
+  }
+
+  private pickRequest(): { state: AnimationStateName; name: string; clip: THREE.AnimationClip; request: StateRequest } | null {
+    for (let i = animationStates.length - 1; i >= 0; i--) {
+      const state = animationStates[i];
+      const request = this.requests[state];
+      if (!request) continue;
+      // Clips that never loaded are skipped; a state with none of its clips lets the one below play
+      const rotated = [...request.clips.slice(request.index), ...request.clips.slice(0, request.index)];
+      const name = rotated.find(candidate => this.clips[candidate]);
+      if (name) return { state, name, clip: this.clips[name], request };
+    }
+    return null;
+  }
+
+  private notify(): void {
+    const snapshot = this.snapshot;
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
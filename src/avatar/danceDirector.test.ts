@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DanceDirector } from './danceDirector';
+import { AnimationStateMachine } from './animationStateMachine';
+import { BeatInfo, BeatTracker } from '../utils/beatTracking';
+
+function setup() {
+  const request = vi.fn();
+  let listener: (info: BeatInfo) => void = () => {};
+  const tracker = {
+    info: null,
+    subscribe: (callback: (info: BeatInfo) => void) => {
+      listener = callback;
+      return () => {};
+    }
+  } as unknown as BeatTracker;
+
+  const director = new DanceDirector({ request } as unknown as AnimationStateMachine);
+  director.setClips([{ name: 'hipHop', bpm: 100 }, { name: 'salsa', bpm: 100 }]);
+  director.start(tracker);
+
+  const beat = (count: number) => listener({ bpm: 100, confidence: 1, phase: 0, beat: count, energy: 0.3 });
+  const lastClip = () => request.mock.calls[request.mock.calls.length - 1][1];
+  return { beat, lastClip };
+}
+
+describe('DanceDirector', () => {
+  it('keeps a clip for a phrase and moves on at the next one', () => {
+    const { beat, lastClip } = setup();
+    beat(1);
+    const first = lastClip();
+    beat(31);
+    expect(lastClip()).toBe(first);
+    beat(32);
+    expect(lastClip()).not.toBe(first);
+  });
+
+  it('moves on when the beat clock skips over a phrase boundary', () => {
+    const { beat, lastClip } = setup();
+    beat(30);
+    const first = lastClip();
+    beat(34);
+    expect(lastClip()).not.toBe(first);
+  });
+});
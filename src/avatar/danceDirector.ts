@@ -0,0 +1,104 @@
+// Chooses and times dances to the music: clips are sped up or slowed to the track's tempo,
+// changed on phrase boundaries, and picked to match how energetic the track is.
+import { AnimationStateMachine } from './animationStateMachine';
+import { BeatTracker, BeatInfo } from '../utils/beatTracking';
+
+export interface DanceClip {
+  name: string;
+  // Tempo the clip was animated to
+  bpm: number;
+  // Undefined suits any track
+  energetic?: boolean;
+}
+
+// Eight bars of four beats
+const PHRASE_BEATS = 32;
+const ENERGETIC_THRESHOLD = 0.5;
+// The clip speed can't stray further than this from its own tempo before it looks wrong
+const MIN_TIME_SCALE = 0.6;
+const MAX_TIME_SCALE = 1.6;
+// Until the beat is clear, or when the music has none, dances rotate on a timer as before
+const UNSYNCED_OPTIONS = { timeScale: 1.2, rotateEvery: 15 };
+
+// Clip speed that matches the track, allowing the clip to dance at half or double time
+export function tempoTimeScale(trackBpm: number, clipBpm: number): number {
+  const candidates = [0.5, 1, 2].map(multiple => trackBpm * multiple / clipBpm);
+  const closest = candidates.reduce((best, scale) => (Math.abs(Math.log(scale)) < Math.abs(Math.log(best)) ? scale : best));
+  // Rounded so small tempo wobbles don't keep changing the request
+  return Math.round(Math.max(MIN_TIME_SCALE, Math.min(MAX_TIME_SCALE, closest)) * 50) / 50;
+}
+
+export class DanceDirector {
+  private machine: AnimationStateMachine;
+  private clips: DanceClip[] = [];
+  private tracker: BeatTracker | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private current: string | null = null;
+  // Phrase the current clip was chosen in; the tracker can skip beats, and with them a phrase boundary
+  private phrase = -1;
+  private active = false;
+
+  constructor(machine: AnimationStateMachine) {
+    this.machine = machine;
+  }
+
+  setClips(clips: DanceClip[]): void {
+    this.clips = clips;
+    if (this.current && !clips.some(clip => clip.name === this.current)) this.current = null;
+    this.apply(this.tracker?.info || null);
+  }
+
+  // Start dancing, in time with the tracker when it hears a beat
+  start(tracker: BeatTracker | null): void {
+    this.stop();
+    this.active = true;
+    this.tracker = tracker;
+    this.phrase = tracker?.info ? Math.floor(tracker.info.beat / PHRASE_BEATS) : -1;
+    this.unsubscribe = tracker?.subscribe(info => this.onBeat(info)) || null;
+    this.apply(tracker?.info || null);
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.tracker = null;
+    this.current = null;
+    if (this.active) this.machine.request('dance', null);
+    this.active = false;
+  }
+
+  private onBeat(info: BeatInfo): void {
+    const phrase = Math.floor(info.beat / PHRASE_BEATS);
+    if (phrase !== this.phrase) {
+      this.phrase = phrase;
+      this.current = this.pick(info.energy);
+    }
+    this.apply(info);
+  }
+
+  private apply(info: BeatInfo | null): void {
+    if (!this.active) return;
+    if (!info) {
+      this.machine.request('dance', this.clips.length ? this.clips.map(clip => clip.name) : null, UNSYNCED_OPTIONS);
+      return;
+    }
+
+    if (!this.current) this.current = this.pick(info.energy);
+    const clip = this.clips.find(candidate => candidate.name === this.current);
+    if (!clip) {
+      this.machine.request('dance', null);
+      return;
+    }
+    this.machine.request('dance', clip.name, { timeScale: tempoTimeScale(info.bpm, clip.bpm) });
+  }
+
+  // The next clip that suits the track's energy, moving on from the current one
+  private pick(energy: number): string | null {
+    const energetic = energy >= ENERGETIC_THRESHOLD;
+    const suited = this.clips.filter(clip => clip.energetic === undefined || clip.energetic === energetic);
+    const pool = suited.length ? suited : this.clips;
+    if (pool.length === 0) return null;
+    const index = pool.findIndex(clip => clip.name === this.current);
+    return pool[(index + 1) % pool.length].name;
+  }
+}
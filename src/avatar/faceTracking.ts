@@ -0,0 +1,170 @@
+// Finds the user's face in the webcam so the avatar can look at them.
+// Uses the browser's FaceDetector where available and a skin-tone centroid everywhere else.
+
+// Face centre in the viewer's screen space: x -1 (left) to 1 (right), y -1 (bottom) to 1 (top)
+export interface FacePosition {
+  x: number;
+  y: number;
+}
+
+// Shape Detection API, only shipped by some Chromium builds so it isn't in the DOM typings
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorLike {
+  detect(image: CanvasImageSource): Promise<DetectedFace[]>;
+}
+
+const DETECT_INTERVAL = 125;
+const FACE_TIMEOUT = 1500;
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 48;
+// Ignore a handful of stray skin-coloured pixels; a face at arm's length fills far more than this
+const MIN_SKIN_FRACTION = 0.015;
+
+// Classic YCbCr skin range, which holds up reasonably across skin tones and lighting
+function isSkin(r: number, g: number, b: number): boolean {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+export class FaceTracker {
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private detector: FaceDetectorLike | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private detecting = false;
+  private current: FacePosition | null = null;
+  private lastSeenAt = 0;
+  private starting: Promise<void> | null = null;
+  // Bumped by stop() so a permission prompt answered afterwards doesn't start a stale stream
+  private generation = 0;
+
+  constructor() {
+    const FaceDetector = (window as any).FaceDetector;
+    if (FaceDetector) {
+      try {
+        this.detector = new FaceDetector({ fastMode: true, maxDetectedFaces: 1 });
+      } catch (error) {
+        console.warn('FaceDetector unavailable, using skin tone tracking:', error);
+      }
+    }
+  }
+
+  // Latest face position, or null when nobody has been seen for a moment
+  get position(): FacePosition | null {
+    if (!this.current || performance.now() - this.lastSeenAt > FACE_TIMEOUT) return null;
+    return this.current;
+  }
+
+  get isRunning(): boolean {
+    return this.stream !== null;
+  }
+
+  // Opens its own small stream: the camera tab's feed is unmounted while the avatar is on screen
+  start(): Promise<void> {
+    if (this.stream) return Promise.resolve();
+    if (!this.starting) {
+      const generation = this.generation;
+      this.starting = navigator.mediaDevices.getUserMedia({
+        video: { width: 320, height: 240, facingMode: 'user' },
+        audio: false
+      })
+        .then(stream => {
+          if (generation !== this.generation) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+          }
+          this.stream = stream;
+          this.video = document.createElement('video');
+          this.video.muted = true;
+          this.video.playsInline = true;
+          this.video.srcObject = stream;
+          this.canvas = document.createElement('canvas');
+          this.canvas.width = SAMPLE_WIDTH;
+          this.canvas.height = SAMPLE_HEIGHT;
+          this.timer = setInterval(() => this.detect(), DETECT_INTERVAL);
+          return this.video.play();
+        })
+        .catch(error => console.error('Error starting face tracking:', error))
+        .finally(() => {
+          if (generation === this.generation) this.starting = null;
+        });
+    }
+    return this.starting;
+  }
+
+  stop(): void {
+    this.generation++;
+    this.starting = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    if (this.video) this.video.srcObject = null;
+    this.video = null;
+    this.current = null;
+  }
+
+  private async detect(): Promise<void> {
+    const video = this.video;
+    if (!video || this.detecting || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+    this.detecting = true;
+    try {
+      const found = this.detector ? await this.detectWithApi(video) : this.detectSkin(video);
+      if (found) {
+        this.current = found;
+        this.lastSeenAt = performance.now();
+      }
+    } catch (error) {
+      // Some builds expose FaceDetector but fail at runtime; fall back for good
+      console.warn('Face detection failed, using skin tone tracking:', error);
+      this.detector = null;
+    } finally {
+      this.detecting = false;
+    }
+  }
+
+  private async detectWithApi(video: HTMLVideoElement): Promise<FacePosition | null> {
+    const faces = await this.detector!.detect(video);
+    if (faces.length === 0) return null;
+    const box = faces[0].boundingBox;
+    return this.toScreen((box.x + box.width / 2) / video.videoWidth, (box.y + box.height / 2) / video.videoHeight);
+  }
+
+  private detectSkin(video: HTMLVideoElement): FacePosition | null {
+    const context = this.canvas?.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const { data } = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+    let count = 0;
+    let sumX = 0;
+    let sumY = 0;
+    for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+      for (let x = 0; x < SAMPLE_WIDTH; x++) {
+        const i = (y * SAMPLE_WIDTH + x) * 4;
+        if (!isSkin(data[i], data[i + 1], data[i + 2])) continue;
+        // Rows nearer the top count more, so necks and hands pull the centre less than the face
+        const weight = 1.5 - y / SAMPLE_HEIGHT;
+        count += weight;
+        sumX += x * weight;
+        sumY += y * weight;
+      }
+    }
+
+    if (count < SAMPLE_WIDTH * SAMPLE_HEIGHT * MIN_SKIN_FRACTION) return null;
+    return this.toScreen(sumX / count / SAMPLE_WIDTH, sumY / count / SAMPLE_HEIGHT);
+  }
+
+  // The camera sees the user mirrored: their left is the right of the frame
+  private toScreen(u: number, v: number): FacePosition {
+    return { x: Math.max(-1, Math.min(1, 1 - u * 2)), y: Math.max(-1, Math.min(1, 1 - v * 2)) };
+  }
+}
@@ -0,0 +1,82 @@
+// Emotion layer for the VRM face. Blends the emotion presets towards the current reply's mood,
+// holds it for a while and then relaxes back to neutral. Mouth visemes are left to lip sync.
+
+export type ExpressionPreset = 'happy' | 'angry' | 'sad' | 'relaxed' | 'surprised';
+
+export const expressionPresets: ExpressionPreset[] = ['happy', 'angry', 'sad', 'relaxed', 'surprised'];
+
+export type ExpressionWeights = { [preset in ExpressionPreset]: number };
+
+const neutral = (): ExpressionWeights => ({ happy: 0, angry: 0, sad: 0, relaxed: 0, surprised: 0 });
+
+// Face for each reply emotion at full intensity
+const EMOTION_FACES: { [emotion: string]: Partial<ExpressionWeights> } = {
+  happy: { happy: 0.8 },
+  laughing: { happy: 1 },
+  sad: { sad: 0.9 },
+  angry: { angry: 0.85 },
+  greeting: { happy: 0.5, surprised: 0.25 },
+  kiss: { relaxed: 0.6, happy: 0.35 },
+  praying: { relaxed: 0.8 },
+  dancing: { happy: 0.7 }
+};
+
+export interface FacialExpressionOptions {
+  // Seconds to reach about two thirds of a new expression
+  blendTime: number;
+  // Seconds an expression is held before it starts to fade
+  holdTime: number;
+  // Seconds for a held expression to fade to about a third
+  decayTime: number;
+}
+
+const defaultOptions: FacialExpressionOptions = {
+  blendTime: 0.25,
+  holdTime: 4,
+  decayTime: 3
+};
+
+export class FacialExpressions {
+  private options: FacialExpressionOptions;
+  private target: ExpressionWeights = neutral();
+  private weights: ExpressionWeights = neutral();
+  private heldFor = 0;
+
+  constructor(options: Partial<FacialExpressionOptions> = {}) {
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  // Intensity 0-1 scales the face; even a faint emotion shows a little
+  setEmotion(emotion: string, intensity: number = 0.5): void {
+    const face = EMOTION_FACES[emotion];
+    // Going back to neutral lets the current face fade out instead of switching abruptly
+    if (!face) {
+      this.heldFor = Math.max(this.heldFor, this.options.holdTime);
+      return;
+    }
+
+    const strength = 0.4 + 0.6 * Math.min(1, Math.max(0, intensity));
+    this.target = neutral();
+    (Object.keys(face) as ExpressionPreset[]).forEach(preset => {
+      this.target[preset] = face[preset]! * strength;
+    });
+    this.heldFor = 0;
+  }
+
+  update(delta: number): ExpressionWeights {
+    this.heldFor += delta;
+    const { blendTime, holdTime, decayTime } = this.options;
+
+    // Exponential fade of the target once the hold time is over
+    if (this.heldFor > holdTime) {
+      const fade = Math.exp(-delta / decayTime);
+      expressionPresets.forEach(preset => { this.target[preset] *= fade; });
+    }
+
+    const blend = 1 - Math.exp(-delta / blendTime);
+    expressionPresets.forEach(preset => {
+      this.weights[preset] += (this.target[preset] - this.weights[preset]) * blend;
+    });
+    return this.weights;
+  }
+}
@@ -0,0 +1,129 @@
+// Additive idle layer: blinking, breathing, weight shifts and small eye saccades.
+// Works on the normalized humanoid rig, so VRM 0.x and 1.0 models behave the same.
+import * as THREE from 'three';
+import { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+
+interface LayeredBone {
+  node: THREE.Object3D;
+  restQuaternion: THREE.Quaternion;
+  restPosition: THREE.Vector3;
+}
+
+const LAYERED_BONES: VRMHumanBoneName[] = ['hips', 'spine', 'chest', 'upperChest', 'neck'];
+
+const BREATH_PERIOD = 4.2;
+const BLINK_DURATION = 0.16;
+
+const randomBetween = (min: number, max: number) => min + Math.random() * (max - min);
+
+export class IdleMotion {
+  private vrm: VRM;
+  private bones: { [name: string]: LayeredBone } = {};
+  private elapsed = 0;
+  private phases = [Math.random() * 10, Math.random() * 10, Math.random() * 10];
+  private nextBlinkAt = randomBetween(1, 4);
+  private blinkStartedAt = -1;
+  private pendingDoubleBlink = false;
+  private nextSaccadeAt = 0;
+  private gaze = { yaw: 0, pitch: 0 };
+  private gazeTarget = { yaw: 0, pitch: 0 };
+  private offset = new THREE.Quaternion();
+  private euler = new THREE.Euler();
+
+  constructor(vrm: VRM) {
+    this.vrm = vrm;
+    LAYERED_BONES.forEach(name => {
+      const node = vrm.humanoid?.getNormalizedBoneNode(name);
+      if (node) {
+        this.bones[name] = { node, restQuaternion: node.quaternion.clone(), restPosition: node.position.clone() };
+      }
+    });
+  }
+
+  // Small eye offset in degrees, for a look-at layer to add on top of its own aim
+  get saccade(): { yaw: number; pitch: number } {
+    return this.gaze;
+  }
+
+  // Put the layered bones back to their base pose before the mixer runs, so offsets never pile up
+  // on bones that no clip animates
+  reset(): void {
+    Object.values(this.bones).forEach(({ node, restQuaternion, restPosition }) => {
+      node.quaternion.copy(restQuaternion);
+      node.position.copy(restPosition);
+    });
+  }
+
+  // Call after the mixer has posed the body and before vrm.update
+  update(delta: number): void {
+    this.elapsed += delta;
+    const t = this.elapsed;
+
+    // Breathing: the chest rises and tilts back slightly on each inhale
+    const breath = Math.sin((t / BREATH_PERIOD) * Math.PI * 2);
+    this.rotate('upperChest', -breath * 0.012, 0, 0);
+    this.rotate('chest', -breath * 0.015, 0, 0);
+    this.rotate('spine', -breath * 0.006, 0, 0);
+
+    // Weight shift: two slow, unrelated sines so the sway never visibly repeats
+    const [a, b, c] = this.phases;
+    const shift = Math.sin(t * 0.37 + a) * 0.6 + Math.sin(t * 0.13 + b) * 0.4;
+    this.rotate('hips', 0, 0, shift * 0.02);
+    this.rotate('spine', 0, 0, -shift * 0.015);
+    this.rotate('neck', Math.sin(t * 0.23 + c) * 0.015, Math.sin(t * 0.17 + a) * 0.03, 0);
+    const hips = this.bones.hips;
+    if (hips) hips.node.position.x += shift * 0.008;
+
+    this.updateBlink(t);
+    this.updateSaccades(t, delta);
+  }
+
+  private rotate(name: string, x: number, y: number, z: number): void {
+    const bone = this.bones[name];
+    if (!bone) return;
+    this.offset.setFromEuler(this.euler.set(x, y, z));
+    bone.node.quaternion.multiply(this.offset);
+  }
+
+  private updateBlink(t: number): void {
+    const expressions = this.vrm.expressionManager;
+    if (!expressions) return;
+
+    if (this.blinkStartedAt < 0 && t >= this.nextBlinkAt) {
+      this.blinkStartedAt = t;
+    }
+
+    let weight = 0;
+    if (this.blinkStartedAt >= 0) {
+      const progress = (t - this.blinkStartedAt) / BLINK_DURATION;
+      if (progress >= 1) {
+        this.blinkStartedAt = -1;
+        // Now and then a quick second blink, otherwise wait a natural 2-6 seconds
+        this.pendingDoubleBlink = !this.pendingDoubleBlink && Math.random() < 0.2;
+        this.nextBlinkAt = t + (this.pendingDoubleBlink ? 0.12 : randomBetween(2, 6));
+      } else {
+        weight = Math.sin(progress * Math.PI);
+      }
+    }
+    expressions.setValue('blink', weight);
+  }
+
+  private updateSaccades(t: number, delta: number): void {
+    if (t >= this.nextSaccadeAt) {
+      this.gazeTarget = { yaw: randomBetween(-6, 6), pitch: randomBetween(-3, 3) };
+      this.nextSaccadeAt = t + randomBetween(0.4, 2.5);
+    }
+
+    // Saccades are fast jumps, not smooth pursuit
+    const jump = Math.min(1, delta * 30);
+    this.gaze.yaw += (this.gazeTarget.yaw - this.gaze.yaw) * jump;
+    this.gaze.pitch += (this.gazeTarget.pitch - this.gaze.pitch) * jump;
+
+    // Leave the eyes alone while something else is aiming them at a target
+    const lookAt = this.vrm.lookAt;
+    if (lookAt && !lookAt.target) {
+      lookAt.yaw = this.gaze.yaw;
+      lookAt.pitch = this.gaze.pitch;
+    }
+  }
+}
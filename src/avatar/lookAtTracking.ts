@@ -0,0 +1,140 @@
+// Look-at layer: turns the eyes, head and neck towards a point in front of the screen.
+// Targets are given in screen space, so the pointer and the webcam face position are handled alike.
+import * as THREE from 'three';
+import { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+
+export interface LookAtOptions {
+  // Largest turn in degrees, shared between neck, head and eyes
+  maxYaw: number;
+  maxPitch: number;
+  // 0 snaps straight to the target, 1 follows it lazily
+  smoothing: number;
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+interface TurningBone {
+  node: THREE.Object3D;
+  restQuaternion: THREE.Quaternion;
+  share: number;
+}
+
+const DEFAULT_OPTIONS: LookAtOptions = { maxYaw: 35, maxPitch: 20, smoothing: 0.5 };
+
+// How much of the turn each bone takes; the eyes make up the rest
+const BONE_SHARES: { name: VRMHumanBoneName; share: number }[] = [
+  { name: 'neck', share: 0.25 },
+  { name: 'head', share: 0.35 }
+];
+
+const clamp = (value: number, limit: number) => Math.max(-limit, Math.min(limit, value));
+
+export class LookAtTracker {
+  private vrm: VRM;
+  private options: LookAtOptions;
+  private bones: TurningBone[] = [];
+  private target: ScreenPoint | null = null;
+  private yaw = 0;
+  private pitch = 0;
+  private worldTarget = new THREE.Vector3();
+  private headPosition = new THREE.Vector3();
+  private right = new THREE.Vector3();
+  private up = new THREE.Vector3();
+  private bodyQuaternion = new THREE.Quaternion();
+  private faceFrontQuaternion = new THREE.Quaternion();
+  private faceFrontInverse = new THREE.Quaternion();
+  private offset = new THREE.Quaternion();
+  private euler = new THREE.Euler(0, 0, 0, 'YXZ');
+
+  constructor(vrm: VRM, options: Partial<LookAtOptions> = {}) {
+    this.vrm = vrm;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    BONE_SHARES.forEach(({ name, share }) => {
+      const node = vrm.humanoid?.getNormalizedBoneNode(name);
+      if (node) this.bones.push({ node, restQuaternion: node.quaternion.clone(), share });
+    });
+  }
+
+  setOptions(options: Partial<LookAtOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Where to look, -1 to 1 on each axis of the viewer's screen; null looks straight ahead
+  setTarget(point: ScreenPoint | null): void {
+    this.target = point;
+  }
+
+  // Same contract as the idle layer: restore the base pose before the mixer runs
+  reset(): void {
+    this.bones.forEach(({ node, restQuaternion }) => node.quaternion.copy(restQuaternion));
+  }
+
+  // Call after the mixer and idle layer, before vrm.update. Saccades ride on top of the eye aim.
+  update(delta: number, camera: THREE.Camera, saccade: { yaw: number; pitch: number } = { yaw: 0, pitch: 0 }): void {
+    const [targetYaw, targetPitch] = this.target ? this.aimAt(this.target, camera) : [0, 0];
+
+    // Frame-rate independent easing; more smoothing means a slower, heavier follow
+    const rate = THREE.MathUtils.lerp(14, 2, this.options.smoothing);
+    const ease = 1 - Math.exp(-delta * rate);
+    this.yaw += (clamp(targetYaw, this.options.maxYaw) - this.yaw) * ease;
+    this.pitch += (clamp(targetPitch, this.options.maxPitch) - this.pitch) * ease;
+
+    // Turn the bones in the face's own frame so VRM 0.x models, which face -Z, turn the right way
+    const lookAt = this.vrm.lookAt;
+    if (lookAt) lookAt.getFaceFrontQuaternion(this.faceFrontQuaternion);
+    else this.faceFrontQuaternion.identity();
+    this.faceFrontInverse.copy(this.faceFrontQuaternion).invert();
+
+    let eyeShare = 1;
+    this.bones.forEach(({ node, share }) => {
+      eyeShare -= share;
+      this.euler.set(THREE.MathUtils.DEG2RAD * this.pitch * share, THREE.MathUtils.DEG2RAD * this.yaw * share, 0);
+      this.offset.setFromEuler(this.euler)
+        .premultiply(this.faceFrontQuaternion)
+        .multiply(this.faceFrontInverse);
+      node.quaternion.multiply(this.offset);
+    });
+
+    if (lookAt) {
+      lookAt.yaw = this.yaw * eyeShare + saccade.yaw;
+      lookAt.pitch = this.pitch * eyeShare + saccade.pitch;
+    }
+  }
+
+  // Yaw and pitch in degrees, relative to the upper body, that would face the target
+  private aimAt(point: ScreenPoint, camera: THREE.Camera): [number, number] {
+    const head = this.vrm.humanoid?.getNormalizedBoneNode('head');
+    if (!head) return [0, 0];
+    head.getWorldPosition(this.headPosition);
+
+    // The viewer sits at the camera; spread the target over the view plane at her distance so the
+    // edge of the screen reads as the edge of her field of view
+    const distance = camera.position.distanceTo(this.headPosition);
+    let halfHeight = distance;
+    let halfWidth = distance;
+    if (camera instanceof THREE.PerspectiveCamera) {
+      halfHeight = Math.tan(THREE.MathUtils.DEG2RAD * camera.fov / 2) * distance;
+      halfWidth = halfHeight * camera.aspect;
+    }
+    camera.matrixWorld.extractBasis(this.right, this.up, this.worldTarget);
+    this.worldTarget.copy(camera.position)
+      .addScaledVector(this.right, point.x * halfWidth)
+      .addScaledVector(this.up, point.y * halfHeight);
+
+    // Measure against the chest rather than the head, which this layer is itself turning
+    const body = this.bones[0]?.node.parent || head.parent;
+    if (body) body.getWorldQuaternion(this.bodyQuaternion);
+    else this.bodyQuaternion.identity();
+    const direction = this.worldTarget.sub(this.headPosition).applyQuaternion(this.bodyQuaternion.invert());
+
+    const front = this.vrm.lookAt?.faceFront || new THREE.Vector3(0, 0, 1);
+    const azimuth = (v: THREE.Vector3) => Math.atan2(v.x, v.z);
+    const altitude = (v: THREE.Vector3) => Math.atan2(v.y, Math.sqrt(v.x * v.x + v.z * v.z));
+    const yaw = Math.atan2(Math.sin(azimuth(direction) - azimuth(front)), Math.cos(azimuth(direction) - azimuth(front)));
+    const pitch = altitude(front) - altitude(direction);
+    return [THREE.MathUtils.RAD2DEG * yaw, THREE.MathUtils.RAD2DEG * pitch];
+  }
+}
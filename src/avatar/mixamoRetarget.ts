@@ -0,0 +1,180 @@
+// Retargets Mixamo FBX and BVH animations onto a VRM's normalized humanoid rig.
+// Their tracks target their own bone names and rest pose, so each rotation is moved into the
+// normalized rig's identity rest pose and the hips travel is rescaled to the model's height.
+import * as THREE from 'three';
+import { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+
+export const mixamoVRMRigMap: { [mixamoBone: string]: VRMHumanBoneName } = {
+  mixamorigHips: 'hips',
+  mixamorigSpine: 'spine',
+  mixamorigSpine1: 'chest',
+  mixamorigSpine2: 'upperChest',
+  mixamorigNeck: 'neck',
+  mixamorigHead: 'head',
+  mixamorigLeftShoulder: 'leftShoulder',
+  mixamorigLeftArm: 'leftUpperArm',
+  mixamorigLeftForeArm: 'leftLowerArm',
+  mixamorigLeftHand: 'leftHand',
+  mixamorigLeftHandThumb1: 'leftThumbMetacarpal',
+  mixamorigLeftHandThumb2: 'leftThumbProximal',
+  mixamorigLeftHandThumb3: 'leftThumbDistal',
+  mixamorigLeftHandIndex1: 'leftIndexProximal',
+  mixamorigLeftHandIndex2: 'leftIndexIntermediate',
+  mixamorigLeftHandIndex3: 'leftIndexDistal',
+  mixamorigLeftHandMiddle1: 'leftMiddleProximal',
+  mixamorigLeftHandMiddle2: 'leftMiddleIntermediate',
+  mixamorigLeftHandMiddle3: 'leftMiddleDistal',
+  mixamorigLeftHandRing1: 'leftRingProximal',
+  mixamorigLeftHandRing2: 'leftRingIntermediate',
+  mixamorigLeftHandRing3: 'leftRingDistal',
+  mixamorigLeftHandPinky1: 'leftLittleProximal',
+  mixamorigLeftHandPinky2: 'leftLittleIntermediate',
+  mixamorigLeftHandPinky3: 'leftLittleDistal',
+  mixamorigRightShoulder: 'rightShoulder',
+  mixamorigRightArm: 'rightUpperArm',
+  mixamorigRightForeArm: 'rightLowerArm',
+  mixamorigRightHand: 'rightHand',
+  mixamorigRightHandThumb1: 'rightThumbMetacarpal',
+  mixamorigRightHandThumb2: 'rightThumbProximal',
+  mixamorigRightHandThumb3: 'rightThumbDistal',
+  mixamorigRightHandIndex1: 'rightIndexProximal',
+  mixamorigRightHandIndex2: 'rightIndexIntermediate',
+  mixamorigRightHandIndex3: 'rightIndexDistal',
+  mixamorigRightHandMiddle1: 'rightMiddleProximal',
+  mixamorigRightHandMiddle2: 'rightMiddleIntermediate',
+  mixamorigRightHandMiddle3: 'rightMiddleDistal',
+  mixamorigRightHandRing1: 'rightRingProximal',
+  mixamorigRightHandRing2: 'rightRingIntermediate',
+  mixamorigRightHandRing3: 'rightRingDistal',
+  mixamorigRightHandPinky1: 'rightLittleProximal',
+  mixamorigRightHandPinky2: 'rightLittleIntermediate',
+  mixamorigRightHandPinky3: 'rightLittleDistal',
+  mixamorigLeftUpLeg: 'leftUpperLeg',
+  mixamorigLeftLeg: 'leftLowerLeg',
+  mixamorigLeftFoot: 'leftFoot',
+  mixamorigLeftToeBase: 'leftToes',
+  mixamorigRightUpLeg: 'rightUpperLeg',
+  mixamorigRightLeg: 'rightLowerLeg',
+  mixamorigRightFoot: 'rightFoot',
+  mixamorigRightToeBase: 'rightToes'
+};
+
+// Joint names used by common BVH exporters that Mixamo names don't cover
+const bvhJointAliases: { [joint: string]: VRMHumanBoneName } = {
+  Chest: 'chest',
+  Chest2: 'upperChest',
+  UpperChest: 'upperChest',
+  LeftCollar: 'leftShoulder',
+  RightCollar: 'rightShoulder',
+  LeftUpArm: 'leftUpperArm',
+  RightUpArm: 'rightUpperArm',
+  LeftLowArm: 'leftLowerArm',
+  RightLowArm: 'rightLowerArm',
+  LeftHip: 'leftUpperLeg',
+  RightHip: 'rightUpperLeg',
+  LeftKnee: 'leftLowerLeg',
+  RightKnee: 'rightLowerLeg',
+  LeftAnkle: 'leftFoot',
+  RightAnkle: 'rightFoot'
+};
+
+// Some exports prefix bones with the rig's namespace ("mixamorig:Hips", "mixamorig1:Hips")
+function mixamoBoneFor(nodeName: string): VRMHumanBoneName | undefined {
+  return mixamoVRMRigMap[nodeName.replace(/^mixamorig\d*:?/, 'mixamorig')];
+}
+
+// BVH files from Mixamo drop the prefix, CMU-style files add a few names of their own, and some
+// tools already use the VRM humanoid names
+function bvhBoneFor(jointName: string): VRMHumanBoneName | undefined {
+  const bare = jointName.replace(/^.*:/, '');
+  const humanoidName = Object.values(mixamoVRMRigMap).find(bone => bone.toLowerCase() === bare.toLowerCase());
+  return mixamoBoneFor(jointName) || mixamoVRMRigMap[`mixamorig${bare}`] || bvhJointAliases[bare] || humanoidName;
+}
+
+// Moves each rotation key out of the source rig's rest pose into the normalized rig's identity
+// rest pose, and rescales the hips travel to the model's height.
+// Returns null when none of the source bones map onto the model.
+function retargetClip(
+  root: THREE.Object3D,
+  source: THREE.AnimationClip,
+  boneFor: (nodeName: string) => VRMHumanBoneName | undefined,
+  vrm: VRM,
+  name: string
+): THREE.AnimationClip | null {
+  if (!vrm.humanoid) return null;
+
+  const nodes: { [bone: string]: THREE.Object3D } = {};
+  root.traverse(node => {
+    const bone = boneFor(node.name);
+    if (bone && !nodes[bone]) nodes[bone] = node;
+  });
+
+  // Mixamo hips rest at the character's standing height; BVH roots usually rest at zero, so
+  // their first frame stands in for it
+  const vector = new THREE.Vector3();
+  const motionHips = nodes.hips;
+  const hipsTrack = source.tracks.find(track => boneFor(track.name.slice(0, track.name.lastIndexOf('.'))) === 'hips'
+    && track.name.endsWith('.position'));
+  const motionHipsHeight = motionHips && Math.abs(motionHips.position.y) > 1e-3 ? motionHips.position.y : hipsTrack?.values[1] || 0;
+  const vrmHips = vrm.humanoid.getNormalizedBoneNode('hips');
+  // Measured in the model's own space, so the model's placement and scale in the scene don't matter
+  const vrmHipsHeight = vrmHips ? Math.abs(vrm.scene.worldToLocal(vrmHips.getWorldPosition(vector)).y) : 0;
+  const hipsScale = motionHipsHeight ? vrmHipsHeight / motionHipsHeight : 0;
+
+  // VRM 0.x rigs face -Z while Mixamo and BVH face +Z, so X and Z flip
+  const isVRM0 = vrm.meta?.metaVersion === '0';
+  const restRotationInverse = new THREE.Quaternion();
+  const parentRestWorldRotation = new THREE.Quaternion();
+  const rotation = new THREE.Quaternion();
+  const tracks: THREE.KeyframeTrack[] = [];
+
+  source.tracks.forEach(track => {
+    const separator = track.name.lastIndexOf('.');
+    const property = track.name.slice(separator + 1);
+    const boneName = boneFor(track.name.slice(0, separator));
+    const vrmNode = boneName ? vrm.humanoid!.getNormalizedBoneNode(boneName) : null;
+    const sourceNode = boneName ? nodes[boneName] : undefined;
+    if (!vrmNode || !sourceNode) return;
+
+    if (track instanceof THREE.QuaternionKeyframeTrack) {
+      // Express each key relative to the source rest pose in world space, which is the identity
+      // rest pose the normalized rig expects
+      sourceNode.getWorldQuaternion(restRotationInverse).invert();
+      if (sourceNode.parent) sourceNode.parent.getWorldQuaternion(parentRestWorldRotation);
+      else parentRestWorldRotation.identity();
+
+      const values = new Float32Array(track.values.length);
+      for (let i = 0; i < track.values.length; i += 4) {
+        rotation.fromArray(track.values, i).premultiply(parentRestWorldRotation).multiply(restRotationInverse);
+        rotation.toArray(values, i);
+        if (isVRM0) {
+          values[i] = -values[i];
+          values[i + 2] = -values[i + 2];
+        }
+      }
+      tracks.push(new THREE.QuaternionKeyframeTrack(`${vrmNode.name}.${property}`, Array.from(track.times), Array.from(values)));
+    } else if (track instanceof THREE.VectorKeyframeTrack && property === 'position' && boneName === 'hips' && hipsScale) {
+      const values = Array.from(track.values, (value, i) => (isVRM0 && i % 3 !== 1 ? -value : value) * hipsScale);
+      tracks.push(new THREE.VectorKeyframeTrack(`${vrmNode.name}.${property}`, Array.from(track.times), values));
+    }
+  });
+
+  if (tracks.length === 0) return null;
+  return new THREE.AnimationClip(name, source.duration, tracks);
+}
+
+// Builds a clip that drives the VRM's normalized bones from a loaded Mixamo FBX.
+// Returns null when the file has no animation or none of its bones map onto the model.
+export function retargetMixamoClip(asset: THREE.Object3D & { animations: THREE.AnimationClip[] }, vrm: VRM, name?: string): THREE.AnimationClip | null {
+  const source = THREE.AnimationClip.findByName(asset.animations, 'mixamo.com') || asset.animations[0];
+  if (!source) return null;
+  return retargetClip(asset, source, mixamoBoneFor, vrm, name || source.name);
+}
+
+// Same for a parsed BVH motion capture file, whose skeleton rests in a T-pose
+export function retargetBVHClip(bvh: { skeleton: THREE.Skeleton; clip: THREE.AnimationClip }, vrm: VRM, name: string): THREE.AnimationClip | null {
+  const root = bvh.skeleton.bones[0];
+  if (!root) return null;
+  root.updateMatrixWorld(true);
+  return retargetClip(root, bvh.clip, bvhBoneFor, vrm, name);
+}
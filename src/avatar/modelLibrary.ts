@@ -0,0 +1,199 @@
+// VRM models the user uploaded, kept in IndexedDB with the meta and thumbnail read from the file
+// so the picker can show them without loading every model
+import { v4 as uuidv4 } from 'uuid';
+import { VRMMeta } from '@pixiv/three-vrm';
+import { IndexedDBStore } from '../utils/indexedDBStore';
+
+// The model shipped in public/, used until the user picks another
+export const BUNDLED_MODEL_ID = 'bundled';
+export const BUNDLED_MODEL_URL = '/wife.vrm';
+
+// Where the model stands and how the camera frames it; in meters, before scaling
+export interface ModelFraming {
+  scale: number;
+  // Vertical offset of the model's feet from the scene origin
+  groundOffset: number;
+  cameraHeight: number;
+  cameraDistance: number;
+  // Height the camera orbits around
+  targetHeight: number;
+}
+
+export const defaultModelFraming: ModelFraming = {
+  scale: 1,
+  groundOffset: -1,
+  cameraHeight: 1.5,
+  cameraDistance: 4,
+  targetHeight: 0
+};
+
+// VRM 0.x and 1.0 describe licensing differently; this is the common, readable subset
+export interface ModelMeta {
+  specVersion: '0' | '1';
+  title: string;
+  author: string;
+  version?: string;
+  license: string;
+  licenseUrl?: string;
+  allowedUsers: string;
+  commercialUse: string;
+  violentUsage: boolean;
+  sexualUsage: boolean;
+  allowRedistribution?: boolean;
+}
+
+export interface StoredModel {
+  id: string;
+  name: string;
+  data: ArrayBuffer;
+  meta: ModelMeta;
+  // Data URL of the thumbnail embedded in the file, if any
+  thumbnail?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const VRM0_ALLOWED_USERS: { [value: string]: string } = {
+  OnlyAuthor: 'Only the author',
+  ExplicitlyLicensedPerson: 'Explicitly licensed people',
+  Everyone: 'Everyone'
+};
+
+const VRM1_ALLOWED_USERS: { [value: string]: string } = {
+  onlyAuthor: 'Only the author',
+  onlySeparatelyLicensedPerson: 'Separately licensed people',
+  everyone: 'Everyone'
+};
+
+const VRM1_COMMERCIAL_USAGE: { [value: string]: string } = {
+  personalNonProfit: 'Personal, non-profit only',
+  personalProfit: 'Personal, including profit',
+  corporation: 'Allowed, including corporations'
+};
+
+export function describeVRMMeta(meta: VRMMeta): ModelMeta {
+  if (meta.metaVersion === '0') {
+    return {
+      specVersion: '0',
+      title: meta.title || 'Untitled',
+      author: meta.author || 'Unknown',
+      version: meta.version,
+      license: meta.licenseName?.replace(/_/g, '-') || 'Unspecified',
+      licenseUrl: meta.otherLicenseUrl,
+      allowedUsers: VRM0_ALLOWED_USERS[meta.allowedUserName || 'OnlyAuthor'],
+      commercialUse: meta.commercialUssageName === 'Allow' ? 'Allowed' : 'Not allowed',
+      violentUsage: meta.violentUssageName === 'Allow',
+      sexualUsage: meta.sexualUssageName === 'Allow'
+    };
+  }
+
+  // VRM 1.0 leaves license names to the license URL
+  return {
+    specVersion: '1',
+    title: meta.name || 'Untitled',
+    author: meta.authors?.join(', ') || 'Unknown',
+    version: meta.version,
+    license: meta.licenseUrl?.includes('vrm.dev/licenses/1.0') ? 'VRM Public License 1.0' : meta.licenseUrl || 'Unspecified',
+    licenseUrl: meta.licenseUrl,
+    allowedUsers: VRM1_ALLOWED_USERS[meta.avatarPermission || 'onlyAuthor'],
+    commercialUse: VRM1_COMMERCIAL_USAGE[meta.commercialUsage || 'personalNonProfit'],
+    violentUsage: !!meta.allowExcessivelyViolentUsage,
+    sexualUsage: !!meta.allowExcessivelySexualUsage,
+    allowRedistribution: !!meta.allowRedistribution
+  };
+}
+
+function readAsDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Reads the meta and thumbnail straight from the GLB's JSON and binary chunks, which is much
+// cheaper than building the whole model just to list it
+export async function readVRMFile(data: ArrayBuffer): Promise<{ meta: ModelMeta; thumbnail?: string }> {
+  const view = new DataView(data);
+  if (data.byteLength < 20 || view.getUint32(0, true) !== 0x46546c67) {
+    throw new Error('Not a binary glTF (.vrm) file');
+  }
+
+  let json: any = null;
+  let binary: Uint8Array | null = null;
+  for (let offset = 12; offset + 8 <= data.byteLength;) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    if (type === 0x4e4f534a) json = JSON.parse(new TextDecoder().decode(new Uint8Array(data, offset + 8, length)));
+    else if (type === 0x004e4942) binary = new Uint8Array(data, offset + 8, length);
+    offset += 8 + length;
+  }
+
+  const vrm1 = json?.extensions?.VRMC_vrm?.meta;
+  const vrm0 = json?.extensions?.VRM?.meta;
+  if (!vrm1 && !vrm0) throw new Error('The file has no VRM data');
+
+  const meta = describeVRMMeta(vrm1 ? { ...vrm1, metaVersion: '1', thumbnailImage: undefined } : { ...vrm0, metaVersion: '0', texture: undefined });
+
+  // VRM 1.0 points at an image, VRM 0.x at a texture that points at one
+  const imageIndex: number | undefined = vrm1 ? vrm1.thumbnailImage : json.textures?.[vrm0.texture]?.source;
+  const image = imageIndex !== undefined ? json.images?.[imageIndex] : undefined;
+  const bufferView = image?.bufferView !== undefined ? json.bufferViews?.[image.bufferView] : undefined;
+  if (!binary || !bufferView) return { meta };
+
+  const bytes = binary.slice(bufferView.byteOffset || 0, (bufferView.byteOffset || 0) + bufferView.byteLength);
+  const thumbnail = await readAsDataURL(new Blob([bytes], { type: image.mimeType || 'image/png' }));
+  return { meta, thumbnail };
+}
+
+export class ModelLibrary {
+  private store = new IndexedDBStore<StoredModel>('virtualWifeModels', 'models');
+  private models: StoredModel[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.getAll()
+        .then(models => { this.models = models; })
+        .catch(error => console.error('Error loading model library:', error));
+    }
+    return this.loaded;
+  }
+
+  all(): StoredModel[] {
+    return [...this.models].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  get(id: string): StoredModel | undefined {
+    return this.models.find(model => model.id === id);
+  }
+
+  // Rejects files that aren't VRM before anything is stored
+  async import(file: File): Promise<StoredModel> {
+    await this.load();
+    const data = await file.arrayBuffer();
+    const { meta, thumbnail } = await readVRMFile(data);
+
+    const now = new Date().toISOString();
+    const model: StoredModel = {
+      id: uuidv4(),
+      name: meta.title !== 'Untitled' ? meta.title : file.name.replace(/\.vrm$/i, ''),
+      data,
+      meta,
+      thumbnail,
+      createdAt: now,
+      updatedAt: now
+    };
+    // Saved first, so a failed write (say the storage quota) doesn't list a model that is gone after a reload
+    await this.store.put(model);
+    this.models.push(model);
+    return model;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    this.models = this.models.filter(model => model.id !== id);
+    await this.store.delete(id);
+  }
+}
@@ -0,0 +1,94 @@
+// VRM Animation (.vrma) clips, the VRM ecosystem's own format. They already target the humanoid,
+// so unlike Mixamo FBX they need no retargeting, and they can also carry expression and gaze tracks.
+import * as THREE from 'three';
+import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { VRM } from '@pixiv/three-vrm';
+import { VRMAnimation, VRMAnimationLoaderPlugin, VRMLookAtQuaternionProxy, createVRMAnimationClip } from '@pixiv/three-vrm-animation';
+
+// What a clip animates beyond the skeleton, plus how it wants to be played
+export interface ClipChannels {
+  // Undefined leaves the choice to the player
+  loop?: boolean;
+  expressions: string[];
+  lookAt: boolean;
+}
+
+// Values the procedural layers must hand back to the clip at the end of a frame
+export interface ClipChannelValues {
+  expressions: { [name: string]: number };
+  lookAt: { yaw: number; pitch: number } | null;
+}
+
+const LOOK_AT_PROXY_NAME = 'VRMLookAtQuaternionProxy';
+
+// AnimationClip has no userData in this version of three, so channels are kept alongside
+const clipChannels = new WeakMap<THREE.AnimationClip, ClipChannels>();
+
+export function getClipChannels(clip: THREE.AnimationClip): ClipChannels | undefined {
+  return clipChannels.get(clip);
+}
+
+// Force a clip to loop or play once, whatever format it came from
+export function setClipLoop(clip: THREE.AnimationClip, loop: boolean): void {
+  clipChannels.set(clip, { expressions: [], lookAt: false, ...clipChannels.get(clip), loop });
+}
+
+// Gaze tracks animate this proxy, which forwards its rotation to vrm.lookAt
+function ensureLookAtProxy(vrm: VRM): void {
+  if (!vrm.lookAt || vrm.scene.getObjectByName(LOOK_AT_PROXY_NAME)) return;
+  const proxy = new VRMLookAtQuaternionProxy(vrm.lookAt);
+  proxy.name = LOOK_AT_PROXY_NAME;
+  vrm.scene.add(proxy);
+}
+
+function createLoader(): GLTFLoader {
+  const loader = new GLTFLoader();
+  loader.register(parser => new VRMAnimationLoaderPlugin(parser));
+  return loader;
+}
+
+function clipFromGLTF(gltf: GLTF, vrm: VRM, name: string): THREE.AnimationClip {
+  const vrmAnimation: VRMAnimation | undefined = gltf.userData.vrmAnimations?.[0];
+  if (!vrmAnimation) throw new Error(`${name} has no VRM animation`);
+
+  ensureLookAtProxy(vrm);
+  const clip = createVRMAnimationClip(vrmAnimation, vrm);
+  clip.name = name;
+
+  // VRMA has no loop flag of its own; authoring tools put one in the glTF animation's extras
+  const extras = gltf.parser.json.animations?.[0]?.extras;
+  clipChannels.set(clip, {
+    loop: typeof extras?.loop === 'boolean' ? extras.loop : undefined,
+    expressions: [...vrmAnimation.expressionTracks.preset.keys(), ...vrmAnimation.expressionTracks.custom.keys()]
+      .filter(expression => vrm.expressionManager?.getExpression(expression)),
+    lookAt: !!vrmAnimation.lookAtTrack && !!vrm.lookAt
+  });
+  return clip;
+}
+
+export async function loadVRMAnimation(url: string, vrm: VRM, name: string): Promise<THREE.AnimationClip> {
+  return clipFromGLTF(await createLoader().loadAsync(url), vrm, name);
+}
+
+// For files the user imported, already read into memory
+export async function parseVRMAnimation(data: ArrayBuffer, vrm: VRM, name: string): Promise<THREE.AnimationClip> {
+  return clipFromGLTF(await createLoader().parseAsync(data, ''), vrm, name);
+}
+
+// Read what the clip set this frame, before blinking, emotions and lip sync write over it
+export function captureClipChannels(vrm: VRM, channels: ClipChannels): ClipChannelValues {
+  const expressions: { [name: string]: number } = {};
+  channels.expressions.forEach(expression => {
+    expressions[expression] = vrm.expressionManager?.getValue(expression) ?? 0;
+  });
+  const lookAt = channels.lookAt && vrm.lookAt ? { yaw: vrm.lookAt.yaw, pitch: vrm.lookAt.pitch } : null;
+  return { expressions, lookAt };
+}
+
+export function restoreClipChannels(vrm: VRM, values: ClipChannelValues): void {
+  Object.entries(values.expressions).forEach(([expression, weight]) => vrm.expressionManager?.setValue(expression, weight));
+  if (values.lookAt && vrm.lookAt) {
+    vrm.lookAt.yaw = values.lookAt.yaw;
+    vrm.lookAt.pitch = values.lookAt.pitch;
+  }
+}
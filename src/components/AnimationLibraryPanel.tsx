@@ -0,0 +1,153 @@
+import { useRef, useState } from 'react';
+import { Upload, Play, Pencil, Trash2, Check, X } from 'lucide-react';
+import { StoredAnimation, AnimationCategory, animationCategories, animationFileExtensions } from '../avatar/animationLibrary';
+
+interface AnimationLibraryPanelProps {
+  animations: StoredAnimation[];
+  // Emotions an emotion clip can be tagged with
+  emotions: string[];
+  playingClip: string | null;
+  error: string;
+  onImport: (files: File[]) => void;
+  onPreview: (name: string) => void;
+  onUpdate: (id: string, updates: Partial<Pick<StoredAnimation, 'name' | 'category' | 'emotion' | 'loop'>>) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+export default function AnimationLibraryPanel({
+  animations, emotions, playingClip, error, onImport, onPreview, onUpdate, onRemove, onClose
+}: AnimationLibraryPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState('');
+  const [editingName, setEditingName] = useState('');
+
+  const handleSaveName = () => {
+    if (editingName.trim()) onUpdate(editingId, { name: editingName });
+    setEditingId('');
+  };
+
+  const handleCategoryChange = (animation: StoredAnimation, category: AnimationCategory) => {
+    onUpdate(animation.id, {
+      category,
+      emotion: category === 'emotion' ? animation.emotion || emotions[0] : undefined
+    });
+  };
+
+  return (
+    <div className="bg-black/90 backdrop-blur-md rounded-lg border border-white/20 w-96 max-h-96 overflow-y-auto p-3 text-white text-xs space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-sm">Animation Library</h4>
+        <button onClick={onClose} className="text-white/50 hover:text-white">
+          <X size={14} />
+        </button>
+      </div>
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full flex items-center justify-center space-x-2 border border-dashed border-white/30 hover:border-purple-400 rounded-lg py-3 text-white/70 hover:text-white transition-colors"
+      >
+        <Upload size={14} />
+        <span>Import FBX, VRMA or BVH (or drop files on her)</span>
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={animationFileExtensions.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files) onImport(Array.from(e.target.files));
+          e.target.value = '';
+        }}
+      />
+      {error && <p className="text-red-400">{error}</p>}
+
+      {animations.length === 0 ? (
+        <p className="text-white/50">No imported animations yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {animations.map((animation) => (
+            <div key={animation.id} className="bg-white/5 p-2 rounded-lg space-y-2">
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => onPreview(animation.name)}
+                  className={playingClip === animation.name ? 'text-purple-400' : 'text-white/50 hover:text-white'}
+                  title="Preview"
+                >
+                  <Play size={14} />
+                </button>
+                {editingId === animation.id ? (
+                  <>
+                    <input
+                      type="text"
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSaveName()}
+                      className="flex-1 bg-white/10 text-white rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      autoFocus
+                    />
+                    <button onClick={handleSaveName} className="text-green-400 hover:text-green-300">
+                      <Check size={14} />
+                    </button>
+                    <button onClick={() => setEditingId('')} className="text-white/50 hover:text-white">
+                      <X size={14} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <p className="flex-1 truncate">{animation.name}</p>
+                    <span className="text-white/40 uppercase">{animation.format}</span>
+                    <button
+                      onClick={() => {
+                        setEditingId(animation.id);
+                        setEditingName(animation.name);
+                      }}
+                      className="text-white/50 hover:text-white"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => onRemove(animation.id)} className="text-white/50 hover:text-red-400">
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={animation.category}
+                  onChange={(e) => handleCategoryChange(animation, e.target.value as AnimationCategory)}
+                  className="bg-white/10 text-white/80 rounded px-1 py-1 focus:outline-none"
+                >
+                  {animationCategories.map((category) => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+                {animation.category === 'emotion' && (
+                  <select
+                    value={animation.emotion || emotions[0]}
+                    onChange={(e) => onUpdate(animation.id, { emotion: e.target.value })}
+                    className="bg-white/10 text-white/80 rounded px-1 py-1 focus:outline-none"
+                  >
+                    {emotions.map((emotion) => (
+                      <option key={emotion} value={emotion}>{emotion}</option>
+                    ))}
+                  </select>
+                )}
+                <label className="flex items-center space-x-1 text-white/70">
+                  <input
+                    type="checkbox"
+                    checked={animation.loop}
+                    onChange={(e) => onUpdate(animation.id, { loop: e.target.checked })}
+                    className="w-3 h-3 text-purple-600 bg-white/10 border-white/30 rounded focus:ring-purple-500"
+                  />
+                  <span>Loop</span>
+                </label>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
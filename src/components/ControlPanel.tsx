@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Mic, MicOff, Volume2, VolumeX, Loader, Zap, Send, MessageCircle } from 'lucide-react';
+import { Mic, MicOff, Volume2, VolumeX, Loader, Zap, Send, MessageCircle, Trash2, Square, Globe, Pin, PinOff } from 'lucide-react';
 import { useAI } from '../contexts/AIContext';
 import { useSettings } from '../contexts/SettingsContext';
 import { useAudio } from '../contexts/AudioContext';
+import { getLanguageName, supportedLanguages } from '../utils/languageDetection';
 
 export default function ControlPanel() {
   const { 
@@ -12,19 +13,27 @@ export default function ControlPanel() {
     stopListening, 
     isProcessing,
     sendMessage,
-    currentResponse
+    cancelResponse,
+    currentResponse,
+    conversationHistory,
+    clearConversation,
+    activeProvider,
+    activeLanguage
   } = useAI();
   
-  const { settings } = useSettings();
+  const { settings, updateSettings } = useSettings();
   const { isMuted, toggleMute } = useAudio();
   const [textInput, setTextInput] = useState('');
   const [showChat, setShowChat] = useState(false);
+  const answeringProvider = activeProvider || settings.aiProvider;
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (textInput.trim()) {
-      await sendMessage(textInput);
+      // Clear right away so a follow-up can interrupt the streaming reply
+      const message = textInput;
       setTextInput('');
+      await sendMessage(message);
     }
   };
 
@@ -38,7 +47,14 @@ export default function ControlPanel() {
             {isProcessing && (
               <div className="flex items-center justify-center space-x-2 text-purple-300">
                 <Loader className="animate-spin" size={16} />
-                <span className="text-sm">Thinking...</span>
+                <span className="text-sm">{currentResponse ? 'Speaking...' : 'Thinking...'}</span>
+                <button
+                  onClick={cancelResponse}
+                  className="flex items-center space-x-1 bg-white/10 hover:bg-white/20 px-2 py-0.5 rounded text-xs transition-colors"
+                >
+                  <Square size={10} />
+                  <span>Stop</span>
+                </button>
               </div>
             )}
             
@@ -97,6 +113,31 @@ export default function ControlPanel() {
           exit={{ opacity: 0, height: 0 }}
           className="space-y-2"
         >
+          {conversationHistory.length > 0 && (
+            <div className="bg-white/5 rounded-lg p-2 max-h-40 overflow-y-auto space-y-1">
+              {conversationHistory.slice(-10).map((msg) => (
+                <p
+                  key={msg.timestamp + msg.role}
+                  className={`text-xs ${msg.role === 'user' ? 'text-blue-300 text-right' : 'text-white/80'}`}
+                >
+                  {msg.content}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between items-center text-xs text-white/50">
+            <span>{conversationHistory.length} messages remembered</span>
+            <button
+              onClick={clearConversation}
+              disabled={conversationHistory.length === 0}
+              className="flex items-center space-x-1 hover:text-red-300 disabled:opacity-50 transition-colors"
+            >
+              <Trash2 size={12} />
+              <span>Clear history</span>
+            </button>
+          </div>
+
           <form onSubmit={handleSendMessage} className="flex space-x-2">
             <input
               type="text"
@@ -107,7 +148,7 @@ export default function ControlPanel() {
             />
             <button
               type="submit"
-              disabled={!textInput.trim() || isProcessing}
+              disabled={!textInput.trim()}
               className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white p-2 rounded-lg transition-colors"
             >
               <Send size={16} />
@@ -116,6 +157,32 @@ export default function ControlPanel() {
         </motion.div>
       )}
 
+      {/* Conversation Language */}
+      <div className="flex items-center space-x-2">
+        <Globe size={16} className="text-white/60" />
+        <select
+          value={settings.languageOverride}
+          onChange={(e) => updateSettings({ languageOverride: e.target.value })}
+          className="flex-1 bg-white/10 text-white text-xs rounded-lg px-2 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          <option value="">
+            {settings.autoDetectLanguage ? 'Auto-detect' : 'Primary'} ({getLanguageName(settings.languageOverride ? settings.language : activeLanguage)})
+          </option>
+          {Object.entries(supportedLanguages).map(([code, name]) => (
+            <option key={code} value={code}>{name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => updateSettings({ languageOverride: settings.languageOverride ? '' : activeLanguage })}
+          title={settings.languageOverride ? 'Unpin language' : 'Pin current language'}
+          className={`p-2 rounded-lg transition-colors ${
+            settings.languageOverride ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-white/10 hover:bg-white/20 text-white/70'
+          }`}
+        >
+          {settings.languageOverride ? <PinOff size={14} /> : <Pin size={14} />}
+        </button>
+      </div>
+
       {/* Voice Controls */}
       <div className="flex space-x-2">
         <button
@@ -157,7 +224,9 @@ export default function ControlPanel() {
       {/* AI Provider Status */}
       <div className="text-center">
         <span className="text-white/40 text-xs">
-          AI: {settings.aiProvider.toUpperCase()} | Lang: {settings.language.toUpperCase()}
+          AI: {answeringProvider.toUpperCase()}
+          {answeringProvider !== settings.aiProvider && ' (fallback)'} | Lang: {activeLanguage.toUpperCase()}
+          {settings.languageOverride && ' (pinned)'}
         </span>
       </div>
     </div>
@@ -0,0 +1,174 @@
+import { useRef } from 'react';
+import { Upload, Trash2, X, User, RotateCcw } from 'lucide-react';
+import { StoredModel, ModelMeta, ModelFraming, BUNDLED_MODEL_ID } from '../avatar/modelLibrary';
+
+interface ModelLibraryPanelProps {
+  models: StoredModel[];
+  selectedId: string;
+  // Meta of the model on screen, read once it has loaded
+  selectedMeta: ModelMeta | null;
+  framing: ModelFraming;
+  error: string;
+  onUpload: (files: File[]) => void;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onFramingChange: (updates: Partial<ModelFraming>) => void;
+  onResetFraming: () => void;
+  onClose: () => void;
+}
+
+const framingSliders: { key: keyof ModelFraming; label: string; min: number; max: number; step: number }[] = [
+  { key: 'scale', label: 'Scale', min: 0.25, max: 3, step: 0.05 },
+  { key: 'groundOffset', label: 'Ground Offset', min: -3, max: 1, step: 0.05 },
+  { key: 'cameraHeight', label: 'Camera Height', min: -1, max: 4, step: 0.05 },
+  { key: 'cameraDistance', label: 'Camera Distance', min: 1, max: 10, step: 0.1 },
+  { key: 'targetHeight', label: 'Look-at Height', min: -2, max: 3, step: 0.05 }
+];
+
+function ModelCard({ name, detail, thumbnail, selected, onSelect, onRemove }: {
+  name: string;
+  detail: string;
+  thumbnail?: string;
+  selected: boolean;
+  onSelect: () => void;
+  onRemove?: () => void;
+}) {
+  return (
+    <div
+      onClick={onSelect}
+      className={`relative cursor-pointer rounded-lg p-2 transition-colors ${
+        selected ? 'bg-purple-600/40 ring-2 ring-purple-400' : 'bg-white/5 hover:bg-white/10'
+      }`}
+    >
+      {thumbnail ? (
+        <img src={thumbnail} alt={name} className="w-full aspect-square object-cover rounded" />
+      ) : (
+        <div className="w-full aspect-square rounded bg-white/10 flex items-center justify-center text-white/40">
+          <User size={32} />
+        </div>
+      )}
+      <p className="mt-1 truncate font-medium">{name}</p>
+      <p className="truncate text-white/50">{detail}</p>
+      {onRemove && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="absolute top-3 right-3 bg-black/60 rounded p-1 text-white/70 hover:text-red-400"
+        >
+          <Trash2 size={12} />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function ModelLibraryPanel({
+  models, selectedId, selectedMeta, framing, error, onUpload, onSelect, onRemove, onFramingChange, onResetFraming, onClose
+}: ModelLibraryPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="bg-black/90 backdrop-blur-md rounded-lg border border-white/20 w-96 max-h-[32rem] overflow-y-auto p-3 text-white text-xs space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-sm">Models</h4>
+        <button onClick={onClose} className="text-white/50 hover:text-white">
+          <X size={14} />
+        </button>
+      </div>
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full flex items-center justify-center space-x-2 border border-dashed border-white/30 hover:border-purple-400 rounded-lg py-3 text-white/70 hover:text-white transition-colors"
+      >
+        <Upload size={14} />
+        <span>Upload a VRM 0.x or 1.0 model</span>
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".vrm"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files) onUpload(Array.from(e.target.files));
+          e.target.value = '';
+        }}
+      />
+      {error && <p className="text-red-400">{error}</p>}
+
+      <div className="grid grid-cols-3 gap-2">
+        <ModelCard
+          name="Default"
+          detail="Bundled model"
+          selected={selectedId === BUNDLED_MODEL_ID}
+          onSelect={() => onSelect(BUNDLED_MODEL_ID)}
+        />
+        {models.map((model) => (
+          <ModelCard
+            key={model.id}
+            name={model.name}
+            detail={model.meta.author}
+            thumbnail={model.thumbnail}
+            selected={selectedId === model.id}
+            onSelect={() => onSelect(model.id)}
+            onRemove={() => onRemove(model.id)}
+          />
+        ))}
+      </div>
+
+      {selectedMeta && (
+        <div className="bg-white/5 p-2 rounded-lg space-y-1">
+          <p className="font-medium text-sm">
+            {selectedMeta.title}
+            {selectedMeta.version && <span className="text-white/50 font-normal"> v{selectedMeta.version}</span>}
+          </p>
+          <p className="text-white/70">By {selectedMeta.author} · VRM {selectedMeta.specVersion === '0' ? '0.x' : '1.0'}</p>
+          <p className="text-white/70">
+            License:{' '}
+            {selectedMeta.licenseUrl ? (
+              <a href={selectedMeta.licenseUrl} target="_blank" rel="noopener noreferrer" className="text-purple-300 underline">
+                {selectedMeta.license}
+              </a>
+            ) : selectedMeta.license}
+          </p>
+          <p className="text-white/70">Avatar use: {selectedMeta.allowedUsers}</p>
+          <p className="text-white/70">Commercial use: {selectedMeta.commercialUse}</p>
+          <p className="text-white/70">
+            Violent content: {selectedMeta.violentUsage ? 'allowed' : 'not allowed'} · Sexual content: {selectedMeta.sexualUsage ? 'allowed' : 'not allowed'}
+          </p>
+          {selectedMeta.allowRedistribution !== undefined && (
+            <p className="text-white/70">Redistribution: {selectedMeta.allowRedistribution ? 'allowed' : 'not allowed'}</p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="font-medium">Framing</p>
+          <button onClick={onResetFraming} className="flex items-center space-x-1 text-white/50 hover:text-white">
+            <RotateCcw size={12} />
+            <span>Reset</span>
+          </button>
+        </div>
+        {framingSliders.map(({ key, label, min, max, step }) => (
+          <div key={key}>
+            <label className="block text-white/70 mb-1">
+              {label}: {framing[key].toFixed(2)}
+            </label>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={framing[key]}
+              onChange={(e) => onFramingChange({ [key]: parseFloat(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,68 +1,52 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Play, Pause, SkipForward, SkipBack, Volume2, Search, Music, Video, Speaker } from 'lucide-react';
+import { Play, Pause, SkipForward, SkipBack, Volume2, Search, Music, Video, Speaker, Loader2, AlertCircle,
+  Shuffle, Repeat, Repeat1, ListPlus, ListMusic, Heart, X, Upload, FolderOpen, Trash2 } from 'lucide-react';
 import { useAudio } from '../contexts/AudioContext';
 import { useSettings } from '../contexts/SettingsContext';
+import { YouTubeVideo, searchYouTube as fetchYouTubeResults, toTrack } from '../utils/youtubeSearch';
+import { youtubeVideoId } from '../music/engines/youtube';
+import { repeatModes } from '../music/queue';
+import { FAVORITES_PLAYLIST } from '../music/playlists';
+import { StoredSong, musicFileExtensions, isMusicFile, songToTrack } from '../music/localLibrary';
+import PlaylistPanel from './PlaylistPanel';
 
-interface YouTubeVideo {
-  id: string;
-  title: string;
-  thumbnail: string;
-  duration: string;
-}
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
 
 export default function MusicPlayer() {
-  const { isPlaying, currentTrack, playTrack, pauseTrack, setVolume, volume } = useAudio();
+  const {
+    isPlaying, isBuffering, currentTrack, position, duration, playerError,
+    playTrack, pauseTrack, resumeTrack, seek, setVolume, volume, setVideoHost,
+    queue, queueIndex, shuffle, repeat, addToQueue, removeFromQueue, clearQueue, playQueueIndex,
+    nextTrack, previousTrack, setShuffle, setRepeat, playlists, findPlaylist, createPlaylist, addToPlaylist,
+    localSongs, importMusic, removeSong, searchLocalMusic
+  } = useAudio();
   const { settings, updateSettings } = useSettings();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<YouTubeVideo[]>([]);
   const [isSearching, setIsSearching] = useState(false);
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const [audioMode, setAudioMode] = useState<'audio' | 'video'>('audio');
+  const [audioMode, setAudioMode] = useState<'audio' | 'video'>(settings.musicMode);
+  const hasVideo = !!currentTrack && !!youtubeVideoId(currentTrack.url);
+  const [view, setView] = useState<'results' | 'queue' | 'playlists'>('results');
+  const favorites = findPlaylist(FAVORITES_PLAYLIST);
+  const isFavorite = !!currentTrack && !!favorites?.tracks.some(track => track.id === currentTrack.id);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importStatus, setImportStatus] = useState('');
+  // Both the local library and YouTube are searched when the search is submitted
+  const [localQuery, setLocalQuery] = useState('');
+  const localResults = localSongs.length ? searchLocalMusic(localQuery) : [];
+  // Sample results are only filler for an empty library
+  const youtubeResults = settings.youtubeApiKey || localResults.length === 0 ? searchResults : [];
 
   const searchYouTube = async (query: string) => {
-    if (!settings.youtubeApiKey || !query.trim()) {
-      // Provide sample results if no API key
-      const sampleResults: YouTubeVideo[] = [
-        {
-          id: 'sample1',
-          title: `${query} - Sample Song 1`,
-          thumbnail: 'https://images.pexels.com/photos/1763075/pexels-photo-1763075.jpeg?auto=compress&cs=tinysrgb&w=300',
-          duration: '3:45'
-        },
-        {
-          id: 'sample2',
-          title: `${query} - Sample Song 2`,
-          thumbnail: 'https://images.pexels.com/photos/1190298/pexels-photo-1190298.jpeg?auto=compress&cs=tinysrgb&w=300',
-          duration: '4:12'
-        },
-        {
-          id: 'sample3',
-          title: `${query} - Sample Song 3`,
-          thumbnail: 'https://images.pexels.com/photos/1105666/pexels-photo-1105666.jpeg?auto=compress&cs=tinysrgb&w=300',
-          duration: '3:28'
-        }
-      ];
-      setSearchResults(sampleResults);
-      return;
-    }
-
     setIsSearching(true);
     try {
-      const response = await fetch(
-        `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=10&q=${encodeURIComponent(query)}&type=video&key=${settings.youtubeApiKey}`
-      );
-      
-      if (response.ok) {
-        const data = await response.json();
-        const videos: YouTubeVideo[] = data.items.map((item: any) => ({
-          id: item.id.videoId,
-          title: item.snippet.title,
-          thumbnail: item.snippet.thumbnails.medium.url,
-          duration: 'Unknown'
-        }));
-        setSearchResults(videos);
-      }
+      setSearchResults(await fetchYouTubeResults(query, settings.youtubeApiKey));
     } catch (error) {
       console.error('Error searching YouTube:', error);
     } finally {
@@ -72,16 +56,55 @@ export default function MusicPlayer() {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    setLocalQuery(searchQuery);
     searchYouTube(searchQuery);
   };
 
+  // Folders bring along cover images and playlist files, which are skipped
+  const handleImport = async (files: File[]) => {
+    const music = files.filter(isMusicFile);
+    if (music.length === 0) {
+      setImportStatus('No MP3, OGG, FLAC or M4A files found');
+      return;
+    }
+    setIsImporting(true);
+    setImportStatus(`Importing ${music.length} ${music.length === 1 ? 'song' : 'songs'}...`);
+    const errors = await importMusic(music);
+    setIsImporting(false);
+    const imported = music.length - errors.length;
+    setImportStatus(`Imported ${imported} ${imported === 1 ? 'song' : 'songs'}${errors.length ? `; ${errors.join('; ')}` : ''}`);
+    setView('results');
+  };
+
+  const handleQueueSong = (e: React.MouseEvent, song: StoredSong) => {
+    e.stopPropagation();
+    addToQueue(songToTrack(song));
+  };
+
+  const handleRemoveSong = (e: React.MouseEvent, song: StoredSong) => {
+    e.stopPropagation();
+    removeSong(song.id);
+  };
+
   const handlePlayVideo = (video: YouTubeVideo) => {
-    playTrack({
-      id: video.id,
-      title: video.title,
-      url: `https://www.youtube.com/watch?v=${video.id}`,
-      thumbnail: video.thumbnail
-    });
+    playTrack(toTrack(video));
+  };
+
+  const handleQueueVideo = (e: React.MouseEvent, video: YouTubeVideo) => {
+    e.stopPropagation();
+    addToQueue(toTrack(video));
+  };
+
+  const handleAddToPlaylist = async (playlistId: string) => {
+    if (!currentTrack || !playlistId) return;
+    const playlist = playlistId === FAVORITES_PLAYLIST
+      ? favorites || await createPlaylist(FAVORITES_PLAYLIST)
+      : playlists.find(candidate => candidate.id === playlistId);
+    if (playlist) addToPlaylist(playlist.id, currentTrack);
+  };
+
+  const cycleRepeat = () => {
+    setRepeat(repeatModes[(repeatModes.indexOf(repeat) + 1) % repeatModes.length]);
   };
 
   // Auto-search for popular music on component mount
@@ -131,7 +154,7 @@ export default function MusicPlayer() {
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search for songs, artists, or genres..."
+            placeholder="Search your music and YouTube for songs, artists, or genres..."
             className="flex-1 bg-white/10 text-white placeholder-white/50 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
           />
           <button
@@ -143,9 +166,51 @@ export default function MusicPlayer() {
           </button>
         </form>
 
+        {/* Local music import */}
+        <div className="flex items-center space-x-3 mt-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center space-x-1 text-white/70 hover:text-white disabled:opacity-50 text-sm transition-colors"
+          >
+            <Upload size={14} />
+            <span>Import songs</span>
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center space-x-1 text-white/70 hover:text-white disabled:opacity-50 text-sm transition-colors"
+          >
+            <FolderOpen size={14} />
+            <span>Import folder</span>
+          </button>
+          {importStatus && <span className="text-white/50 text-xs truncate">{importStatus}</span>}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={musicFileExtensions.join(',')}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) handleImport(Array.from(e.target.files));
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          {...{ webkitdirectory: '' }}
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) handleImport(Array.from(e.target.files));
+            e.target.value = '';
+          }}
+        />
+
         {!settings.youtubeApiKey && (
           <p className="text-yellow-400 text-sm mt-2">
-            🎵 Using sample music. Add YouTube API key in settings for real music search
+            🎵 Using sample music. Add YouTube API key in settings for real music search, or import your own songs
           </p>
         )}
 
@@ -168,28 +233,101 @@ export default function MusicPlayer() {
             <div className="flex-1">
               <h3 className="text-white font-semibold">{currentTrack.title}</h3>
               <p className="text-white/60 text-sm">
-                Now Playing {audioMode === 'audio' ? '(Audio Only)' : '(Video)'} 
+                Now Playing {audioMode === 'audio' || !hasVideo ? '(Audio Only)' : '(Video)'} 
                 {isPlaying && ' 🎵'}
               </p>
+              {isBuffering && (
+                <p className="flex items-center space-x-1 text-white/60 text-xs mt-1">
+                  <Loader2 size={12} className="animate-spin" />
+                  <span>Loading...</span>
+                </p>
+              )}
             </div>
           </div>
 
           {/* Controls */}
           <div className="flex items-center justify-center space-x-4 mt-4">
-            <button className="text-white/70 hover:text-white transition-colors">
+            <button
+              onClick={() => setShuffle(!shuffle)}
+              className={`transition-colors ${shuffle ? 'text-purple-400' : 'text-white/50 hover:text-white'}`}
+              title={shuffle ? 'Shuffle on' : 'Shuffle off'}
+            >
+              <Shuffle size={18} />
+            </button>
+            <button onClick={previousTrack} className="text-white/70 hover:text-white transition-colors">
               <SkipBack size={24} />
             </button>
             <button
-              onClick={isPlaying ? pauseTrack : () => playTrack(currentTrack)}
+              onClick={isPlaying ? pauseTrack : resumeTrack}
               className="bg-purple-600 hover:bg-purple-700 text-white p-3 rounded-full transition-colors"
             >
               {isPlaying ? <Pause size={24} /> : <Play size={24} />}
             </button>
-            <button className="text-white/70 hover:text-white transition-colors">
+            <button
+              onClick={nextTrack}
+              disabled={queueIndex >= queue.length - 1 && repeat === 'off'}
+              className="text-white/70 hover:text-white disabled:opacity-30 transition-colors"
+            >
               <SkipForward size={24} />
             </button>
+            <button
+              onClick={cycleRepeat}
+              className={`transition-colors ${repeat !== 'off' ? 'text-purple-400' : 'text-white/50 hover:text-white'}`}
+              title={repeat === 'one' ? 'Repeat this song' : repeat === 'all' ? 'Repeat the queue' : 'Repeat off'}
+            >
+              {repeat === 'one' ? <Repeat1 size={18} /> : <Repeat size={18} />}
+            </button>
           </div>
 
+          {/* Save to a playlist */}
+          <div className="flex items-center justify-center space-x-3 mt-3">
+            <button
+              onClick={() => handleAddToPlaylist(FAVORITES_PLAYLIST)}
+              disabled={isFavorite}
+              className={`flex items-center space-x-1 text-xs transition-colors ${
+                isFavorite ? 'text-pink-400' : 'text-white/60 hover:text-white'
+              }`}
+            >
+              <Heart size={14} fill={isFavorite ? 'currentColor' : 'none'} />
+              <span>{isFavorite ? 'In Favorites' : 'Favorite'}</span>
+            </button>
+            {playlists.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => handleAddToPlaylist(e.target.value)}
+                className="bg-white/10 text-white/80 text-xs rounded px-2 py-1 focus:outline-none"
+              >
+                <option value="">Add to playlist...</option>
+                {playlists.map((playlist) => (
+                  <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Seek */}
+          <div className="flex items-center space-x-2 mt-4">
+            <span className="text-white/70 text-xs w-10 text-right">{formatTime(position)}</span>
+            <input
+              type="range"
+              min="0"
+              max={duration || 0}
+              step="1"
+              value={Math.min(position, duration)}
+              disabled={!duration}
+              onChange={(e) => seek(parseFloat(e.target.value))}
+              className="flex-1"
+            />
+            <span className="text-white/70 text-xs w-10">{formatTime(duration)}</span>
+          </div>
+
+          {playerError && (
+            <div className="flex items-center space-x-2 mt-3 bg-red-500/20 text-red-300 px-4 py-2 rounded-lg">
+              <AlertCircle size={16} />
+              <span className="text-sm">{playerError}</span>
+            </div>
+          )}
+
           {/* Volume */}
           <div className="flex items-center space-x-2 mt-4">
             <Volume2 size={20} className="text-white/70" />
@@ -215,72 +353,177 @@ export default function MusicPlayer() {
         </div>
       )}
 
-      {/* Video Player for Video Mode */}
-      {currentTrack && audioMode === 'video' && (
-        <div className="bg-black aspect-video">
-          <iframe
-            width="100%"
-            height="100%"
-            src={`https://www.youtube.com/embed/${currentTrack.id}?autoplay=${isPlaying ? 1 : 0}&controls=1`}
-            title={currentTrack.title}
-            frameBorder="0"
-            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-            allowFullScreen
-          />
-        </div>
+      {/* Video Player for Video Mode; the player itself lives in AudioProvider and is laid over this */}
+      {hasVideo && audioMode === 'video' && (
+        <div ref={setVideoHost} className="bg-black aspect-video" />
       )}
 
-      {/* Search Results */}
+      {/* Results, queue and playlists */}
+      <div className="flex space-x-1 px-4 pt-3">
+        {([
+          ['results', 'Results'],
+          ['queue', `Queue${queue.length ? ` (${queue.length})` : ''}`],
+          ['playlists', 'Playlists']
+        ] as const).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setView(id)}
+            className={`px-3 py-1 rounded text-sm transition-colors ${
+              view === id ? 'bg-purple-600 text-white' : 'text-white/60 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       <div className="flex-1 overflow-y-auto p-4">
-        {isSearching ? (
-          <div className="flex items-center justify-center h-32">
-            <motion.div
-              animate={{ rotate: 360 }}
-              transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
-              className="w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full"
-            />
-          </div>
-        ) : searchResults.length > 0 ? (
-          <div className="space-y-2">
-            <h3 className="text-white font-semibold mb-4">
-              {settings.youtubeApiKey ? 'Search Results' : 'Sample Music (Add API key for real search)'}
-            </h3>
-            {searchResults.map((video) => (
-              <motion.div
-                key={video.id}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="flex items-center space-x-3 p-3 bg-white/5 rounded-lg hover:bg-white/10 cursor-pointer transition-colors"
-                onClick={() => handlePlayVideo(video)}
-              >
-                <img
-                  src={video.thumbnail}
-                  alt={video.title}
-                  className="w-12 h-12 rounded object-cover"
-                />
-                <div className="flex-1">
-                  <h4 className="text-white font-medium text-sm">{video.title}</h4>
-                  <p className="text-white/60 text-xs">{video.duration}</p>
-                </div>
-                <div className="flex items-center space-x-2">
-                  {currentTrack?.id === video.id && isPlaying && (
-                    <div className="text-green-400 text-xs">🎵 Playing</div>
-                  )}
-                  <Play size={16} className="text-white/70" />
+        {view === 'playlists' ? (
+          <PlaylistPanel />
+        ) : view === 'queue' ? (
+          queue.length === 0 ? (
+            <div className="text-center text-white/50 mt-8">
+              <ListMusic size={48} className="mx-auto mb-4" />
+              <p>The queue is empty</p>
+              <p className="text-sm">Add songs from the search results to play them next</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-white font-semibold">Up Next</h3>
+                <button onClick={clearQueue} className="text-white/50 hover:text-white text-xs">
+                  Clear
+                </button>
+              </div>
+              {queue.map((track, index) => (
+                <div
+                  key={`${track.id}-${index}`}
+                  className={`flex items-center space-x-3 p-2 rounded-lg cursor-pointer transition-colors ${
+                    index === queueIndex ? 'bg-purple-600/30' : 'bg-white/5 hover:bg-white/10'
+                  } ${index < queueIndex ? 'opacity-50' : ''}`}
+                  onClick={() => playQueueIndex(index)}
+                >
+                  <img src={track.thumbnail} alt={track.title} className="w-10 h-10 rounded object-cover" />
+                  <h4 className="flex-1 min-w-0 text-white text-sm truncate">{track.title}</h4>
+                  {index === queueIndex && isPlaying && <div className="text-green-400 text-xs">🎵 Playing</div>}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); removeFromQueue(index); }}
+                    className="text-white/40 hover:text-red-400"
+                    title="Remove from queue"
+                  >
+                    <X size={16} />
+                  </button>
                 </div>
-              </motion.div>
-            ))}
-          </div>
-        ) : (
-          <div className="text-center text-white/50 mt-8">
-            <Search size={48} className="mx-auto mb-4" />
-            <p>Search for music to get started</p>
-            <p className="text-sm">Try searching for "hindi songs", "relaxing music", or "dance music"</p>
-            <div className="mt-4 text-xs text-white/40">
-              <p>🎵 Audio mode: Background music with dancing</p>
-              <p>📺 Video mode: Full YouTube video player</p>
-              <p>💃 Your wife will dance when music plays!</p>
+              ))}
             </div>
+          )
+        ) : (
+          <div className="space-y-6">
+            {localResults.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-white font-semibold mb-4">
+                  Your Music{localQuery ? '' : ` (${localSongs.length})`}
+                </h3>
+                {localResults.map((song) => (
+                  <div
+                    key={song.id}
+                    className="flex items-center space-x-3 p-3 bg-white/5 rounded-lg hover:bg-white/10 cursor-pointer transition-colors"
+                    onClick={() => playTrack(songToTrack(song))}
+                  >
+                    <img
+                      src={songToTrack(song).thumbnail}
+                      alt={song.title}
+                      className="w-12 h-12 rounded object-cover"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <h4 className="text-white font-medium text-sm truncate">{song.title}</h4>
+                      <p className="text-white/60 text-xs truncate">
+                        {[song.artist, song.album, song.duration ? formatTime(song.duration) : ''].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {currentTrack?.id === songToTrack(song).id && isPlaying && (
+                        <div className="text-green-400 text-xs">🎵 Playing</div>
+                      )}
+                      <button
+                        onClick={(e) => handleQueueSong(e, song)}
+                        className="text-white/50 hover:text-white"
+                        title="Add to queue"
+                      >
+                        <ListPlus size={16} />
+                      </button>
+                      <button
+                        onClick={(e) => handleRemoveSong(e, song)}
+                        className="text-white/50 hover:text-red-400"
+                        title="Remove from library"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isSearching ? (
+              <div className="flex items-center justify-center h-32">
+                <motion.div
+                  animate={{ rotate: 360 }}
+                  transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+                  className="w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full"
+                />
+              </div>
+            ) : youtubeResults.length > 0 ? (
+              <div className="space-y-2">
+                <h3 className="text-white font-semibold mb-4">
+                  {settings.youtubeApiKey ? 'Search Results' : 'Sample Music (Add API key for real search)'}
+                </h3>
+                {youtubeResults.map((video) => (
+                  <motion.div
+                    key={video.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="flex items-center space-x-3 p-3 bg-white/5 rounded-lg hover:bg-white/10 cursor-pointer transition-colors"
+                    onClick={() => handlePlayVideo(video)}
+                  >
+                    <img
+                      src={video.thumbnail}
+                      alt={video.title}
+                      className="w-12 h-12 rounded object-cover"
+                    />
+                    <div className="flex-1">
+                      <h4 className="text-white font-medium text-sm">{video.title}</h4>
+                      <p className="text-white/60 text-xs">{video.duration}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {currentTrack?.id === video.id && isPlaying && (
+                        <div className="text-green-400 text-xs">🎵 Playing</div>
+                      )}
+                      <button
+                        onClick={(e) => handleQueueVideo(e, video)}
+                        className="text-white/50 hover:text-white"
+                        title="Add to queue"
+                      >
+                        <ListPlus size={16} />
+                      </button>
+                      <Play size={16} className="text-white/70" />
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+            ) : localResults.length === 0 && (
+              <div className="text-center text-white/50 mt-8">
+                <Search size={48} className="mx-auto mb-4" />
+                <p>Search for music to get started</p>
+                <p className="text-sm">Try searching for "hindi songs", "relaxing music", or "dance music"</p>
+                <div className="mt-4 text-xs text-white/40">
+                  <p>🎵 Audio mode: Background music with dancing</p>
+                  <p>📺 Video mode: Full YouTube video player</p>
+                  <p>📁 Import your own MP3, OGG, FLAC or M4A files</p>
+                  <p>💃 Your wife will dance when music plays!</p>
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
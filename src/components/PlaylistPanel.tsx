@@ -0,0 +1,151 @@
+import { FormEvent, useState } from 'react';
+import { Play, Plus, Pencil, Trash2, Check, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { useAudio } from '../contexts/AudioContext';
+
+export default function PlaylistPanel() {
+  const {
+    playlists, currentTrack, queue, createPlaylist, renamePlaylist, deletePlaylist, removeFromPlaylist, playPlaylist
+  } = useAudio();
+  const [newName, setNewName] = useState('');
+  const [expandedId, setExpandedId] = useState('');
+  const [editingId, setEditingId] = useState('');
+  const [editingName, setEditingName] = useState('');
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    await createPlaylist(newName);
+    setNewName('');
+  };
+
+  const handleSaveName = () => {
+    if (editingName.trim()) renamePlaylist(editingId, editingName);
+    setEditingId('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleCreate} className="flex space-x-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New playlist name"
+          className="flex-1 bg-white/10 text-white placeholder-white/50 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg transition-colors"
+          title="Create playlist"
+        >
+          <Plus size={18} />
+        </button>
+      </form>
+
+      {queue.length > 0 && (
+        <button
+          onClick={() => createPlaylist(`Queue ${new Date().toLocaleDateString()}`, queue)}
+          className="text-purple-300 hover:text-purple-200 text-xs"
+        >
+          Save the current queue as a playlist
+        </button>
+      )}
+
+      {playlists.length === 0 ? (
+        <p className="text-white/50 text-sm">
+          No playlists yet. Create one, or ask her to "add this to my favorites" while a song plays.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {playlists.map((playlist) => (
+            <div key={playlist.id} className="bg-white/5 rounded-lg p-3">
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setExpandedId(expandedId === playlist.id ? '' : playlist.id)}
+                  className="text-white/50 hover:text-white"
+                >
+                  {expandedId === playlist.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                </button>
+                {editingId === playlist.id ? (
+                  <>
+                    <input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSaveName()}
+                      className="flex-1 min-w-0 bg-white/10 rounded px-2 py-1 text-white text-sm focus:outline-none"
+                      autoFocus
+                    />
+                    <button onClick={handleSaveName} className="text-green-400 hover:text-green-300">
+                      <Check size={14} />
+                    </button>
+                    <button onClick={() => setEditingId('')} className="text-white/50 hover:text-white">
+                      <X size={14} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex-1 min-w-0">
+                      <h4 className="text-white text-sm font-medium truncate">{playlist.name}</h4>
+                      <p className="text-white/50 text-xs">
+                        {playlist.tracks.length} {playlist.tracks.length === 1 ? 'song' : 'songs'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => playPlaylist(playlist.id)}
+                      disabled={playlist.tracks.length === 0}
+                      className="text-white/70 hover:text-white disabled:opacity-30"
+                      title="Play"
+                    >
+                      <Play size={16} />
+                    </button>
+                    <button
+                      onClick={() => { setEditingId(playlist.id); setEditingName(playlist.name); }}
+                      className="text-white/50 hover:text-white"
+                      title="Rename"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => deletePlaylist(playlist.id)}
+                      className="text-white/50 hover:text-red-400"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {expandedId === playlist.id && (
+                <div className="mt-2 space-y-1">
+                  {playlist.tracks.length === 0 && <p className="text-white/50 text-xs">This playlist is empty.</p>}
+                  {playlist.tracks.map((track, index) => (
+                    <div key={track.id} className="flex items-center space-x-2 p-2 rounded hover:bg-white/5">
+                      <img src={track.thumbnail} alt={track.title} className="w-8 h-8 rounded object-cover" />
+                      <button
+                        onClick={() => playPlaylist(playlist.id, index)}
+                        className={`flex-1 min-w-0 text-left text-xs truncate ${
+                          currentTrack?.id === track.id ? 'text-green-400' : 'text-white/80 hover:text-white'
+                        }`}
+                      >
+                        {track.title}
+                      </button>
+                      <button
+                        onClick={() => removeFromPlaylist(playlist.id, track.id)}
+                        className="text-white/40 hover:text-red-400"
+                        title="Remove from playlist"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,128 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Save, User, Brain, Globe, Mic, Camera, Music, Smartphone } from 'lucide-react';
+import { Save, User, Brain, Globe, Mic, Camera, Music, Smartphone, ChevronUp, ChevronDown, RotateCcw, BookHeart, Pencil, Trash2, Plus, Check, X, Play } from 'lucide-react';
 import { useSettings } from '../contexts/SettingsContext';
+import { useAI } from '../contexts/AIContext';
+import { getProvider, listProviders, listVisionProviders, resolveProviderConfig } from '../llm/registry';
+import { LLMProviderConfig } from '../llm/types';
+import { MemoryCategory, memoryCategories } from '../utils/longTermMemory';
+import { getSpeechEngine, listSpeechEngines, resolveSpeechOptions } from '../speech/registry';
+import { HttpSpeechConfig, SpeechVoice } from '../speech/types';
+import { supportedLanguages } from '../utils/languageDetection';
+import { sampleSentence } from '../utils/languageProfiles';
+import { SentenceSpeaker } from '../utils/speechQueue';
 
 export default function Settings() {
   const { settings, updateSettings } = useSettings();
-  const [activeSection, setActiveSection] = useState<'profile' | 'ai' | 'language' | 'audio' | 'camera' | 'music' | 'automation'>('profile');
+  const [activeSection, setActiveSection] = useState<'profile' | 'ai' | 'memory' | 'language' | 'audio' | 'camera' | 'music' | 'automation'>('profile');
+
+  const { providerHealth, resetProviderHealth, memories, rememberFact, updateMemory, forgetMemory, clearMemories } = useAI();
+  const [newFact, setNewFact] = useState('');
+  const [newFactCategory, setNewFactCategory] = useState<MemoryCategory>('other');
+  const [editingFactId, setEditingFactId] = useState('');
+  const [editingFactText, setEditingFactText] = useState('');
+  const [configProviderId, setConfigProviderId] = useState('');
+  const [voiceLanguage, setVoiceLanguage] = useState(settings.language);
+  const [voices, setVoices] = useState<SpeechVoice[]>([]);
+  const speechEngine = getSpeechEngine(settings.speechEngine) || listSpeechEngines()[0];
+  const selectedVoice = settings.voicePreferences[speechEngine.id]?.[voiceLanguage] || '';
+
+  // Voices depend on the engine, the language being configured and, for HTTP, the server style
+  useEffect(() => {
+    let cancelled = false;
+    const { lang } = resolveSpeechOptions(settings, voiceLanguage);
+    speechEngine.listVoices(lang, settings.httpSpeech)
+      .then(list => { if (!cancelled) setVoices(list); })
+      .catch(error => console.error('Error loading voices:', error));
+    return () => { cancelled = true; };
+  }, [speechEngine, voiceLanguage, settings.httpSpeech.style]);
+
+  const updateHttpSpeech = (updates: Partial<HttpSpeechConfig>) => {
+    updateSettings({ httpSpeech: { ...settings.httpSpeech, ...updates } });
+  };
+
+  const setVoice = (voiceId: string) => {
+    updateSettings({
+      voicePreferences: {
+        ...settings.voicePreferences,
+        [speechEngine.id]: { ...settings.voicePreferences[speechEngine.id], [voiceLanguage]: voiceId }
+      }
+    });
+  };
+
+  const previewVoice = () => {
+    const speaker = new SentenceSpeaker({ ...resolveSpeechOptions(settings, voiceLanguage), muted: false });
+    speaker.cancel();
+    speaker.push(sampleSentence(voiceLanguage));
+    speaker.flush();
+  };
+  const primaryProvider = getProvider(settings.aiProvider) || listProviders()[0];
+  // The config form edits the primary provider unless a fallback was picked for editing
+  const provider = getProvider(configProviderId) || primaryProvider;
+  const providerConfig = resolveProviderConfig(provider, settings.providerConfigs, settings.apiKey);
+  const savedProviderConfig = settings.providerConfigs[provider.id] || {};
+
+  const updateProviderConfig = (updates: Partial<LLMProviderConfig>) => {
+    updateSettings({
+      providerConfigs: {
+        ...settings.providerConfigs,
+        [provider.id]: { ...settings.providerConfigs[provider.id], ...updates }
+      }
+    });
+  };
+
+  const fallbackIds = settings.fallbackProviders.filter(id => id !== primaryProvider.id && getProvider(id));
+  const otherProviders = [
+    ...fallbackIds.map(id => getProvider(id)!),
+    ...listProviders().filter(p => p.id !== primaryProvider.id && !fallbackIds.includes(p.id))
+  ];
+
+  const toggleFallback = (providerId: string, enabled: boolean) => {
+    updateSettings({
+      fallbackProviders: enabled
+        ? [...fallbackIds, providerId]
+        : fallbackIds.filter(id => id !== providerId)
+    });
+  };
+
+  const moveFallback = (providerId: string, direction: -1 | 1) => {
+    const index = fallbackIds.indexOf(providerId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= fallbackIds.length) return;
+
+    const reordered = [...fallbackIds];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    updateSettings({ fallbackProviders: reordered });
+  };
+
+  const healthColor = (providerId: string) => {
+    switch (providerHealth[providerId]?.status) {
+      case 'healthy': return 'bg-green-400';
+      case 'degraded': return 'bg-yellow-400';
+      case 'down': return 'bg-red-500';
+      default: return 'bg-white/30';
+    }
+  };
+
+  const handleAddFact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newFact.trim()) return;
+    await rememberFact(newFact, newFactCategory);
+    setNewFact('');
+  };
+
+  const handleSaveFact = async () => {
+    if (editingFactText.trim()) {
+      await updateMemory(editingFactId, { text: editingFactText });
+    }
+    setEditingFactId('');
+  };
+
+  const handleClearMemories = async () => {
+    if (confirm('Forget everything she has remembered about you?')) {
+      await clearMemories();
+    }
+  };
 
   const handleSave = () => {
     // Settings are automatically saved via context
@@ -15,6 +132,7 @@ export default function Settings() {
   const sections = [
     { id: 'profile', icon: User, label: 'Profile' },
     { id: 'ai', icon: Brain, label: 'AI Settings' },
+    { id: 'memory', icon: BookHeart, label: 'Memory' },
     { id: 'language', icon: Globe, label: 'Language' },
     { id: 'audio', icon: Mic, label: 'Audio' },
     { id: 'camera', icon: Camera, label: 'Camera' },
@@ -102,28 +220,222 @@ export default function Settings() {
                 <div>
                   <label className="block text-white/80 text-sm font-medium mb-2">AI Provider</label>
                   <select
-                    value={settings.aiProvider}
-                    onChange={(e) => updateSettings({ aiProvider: e.target.value as any })}
+                    value={primaryProvider.id}
+                    onChange={(e) => {
+                      updateSettings({ aiProvider: e.target.value });
+                      setConfigProviderId('');
+                    }}
                     className="w-full bg-white/10 text-white rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
                   >
-                    <option value="gemini">Google Gemini (Default)</option>
-                    <option value="openai">OpenAI GPT</option>
-                    <option value="together">Together AI</option>
-                    <option value="groq">Groq</option>
+                    {listProviders().map(({ id, label }) => (
+                      <option key={id} value={id}>{label}</option>
+                    ))}
                   </select>
                 </div>
 
+                {provider.id !== primaryProvider.id && (
+                  <div className="flex items-center justify-between bg-purple-600/20 p-3 rounded-lg">
+                    <span className="text-purple-200 text-sm">Configuring fallback: {provider.label}</span>
+                    <button
+                      onClick={() => setConfigProviderId('')}
+                      className="text-purple-200 hover:text-white text-sm underline"
+                    >
+                      Done
+                    </button>
+                  </div>
+                )}
+
                 <div>
-                  <label className="block text-white/80 text-sm font-medium mb-2">API Key</label>
+                  <label className="block text-white/80 text-sm font-medium mb-2">
+                    API Key {!provider.requiresApiKey && <span className="text-white/50">(optional)</span>}
+                  </label>
                   <input
                     type="password"
-                    value={settings.apiKey}
-                    onChange={(e) => updateSettings({ apiKey: e.target.value })}
+                    value={providerConfig.apiKey}
+                    onChange={(e) => updateProviderConfig({ apiKey: e.target.value })}
                     className="w-full bg-white/10 text-white placeholder-white/50 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
                     placeholder="Enter your API key"
                   />
                 </div>
 
+                {provider.defaultBaseUrl !== undefined && (
+                  <div>
+                    <label className="block text-white/80 text-sm font-medium mb-2">Base URL</label>
+                    <input
+                      type="text"
+                      value={savedProviderConfig.baseUrl || ''}
+                      onChange={(e) => updateProviderConfig({ baseUrl: e.target.value })}
+                      className="w-full bg-white/10 text-white placeholder-white/50 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder={provider.defaultBaseUrl}
+                    />
+                    <p className="text-white/50 text-xs mt-1">
+                      Ollama: http://localhost:11434/v1 • llama.cpp server: http://localhost:8080/v1
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-white/80 text-sm font-medium mb-2">Model</label>
+                  <input
+                    type="text"
+                    list={`models-${provider.id}`}
+                    value={savedProviderConfig.model || ''}
+                    onChange={(e) => updateProviderConfig({ model: e.target.value })}
+                    className="w-full bg-white/10 text-white placeholder-white/50 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    placeholder={provider.defaultModel}
+                  />
+                  <datalist id={`models-${provider.id}`}>
+                    {provider.suggestedModels.map((model) => (
+                      <option key={model} value={model} />
+                    ))}
+                  </datalist>
+                </div>
+
+                {provider.describeImage && (
+                  <div>
+                    <label className="block text-white/80 text-sm font-medium mb-2">Vision Model</label>
+                    <input
+                      type="text"
+                      list={`vision-models-${provider.id}`}
+                      value={savedProviderConfig.visionModel || ''}
+                      onChange={(e) => updateProviderConfig({ visionModel: e.target.value })}
+                      className="w-full bg-white/10 text-white placeholder-white/50 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder={provider.defaultVisionModel}
+                    />
+                    <datalist id={`vision-models-${provider.id}`}>
+                      {(provider.suggestedVisionModels || []).map((model) => (
+                        <option key={model} value={model} />
+                      ))}
+                    </datalist>
+                    <p className="text-white/50 text-xs mt-1">Used when I look at camera snapshots</p>
+                  </div>
+                )}
+
+                {provider.toolsOptIn && (
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      id={`toolCalling-${provider.id}`}
+                      checked={providerConfig.toolCalling}
+                      onChange={(e) => updateProviderConfig({ toolCalling: e.target.checked })}
+                      className="w-4 h-4 text-purple-600 bg-white/10 border-white/30 rounded focus:ring-purple-500"
+                    />
+                    <label htmlFor={`toolCalling-${provider.id}`} className="text-white/80 text-sm">
+                      Use tools (music, apps, research). Only for models with function calling, such as llama3.1 or qwen2.5
+                    </label>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-white/80 text-sm font-medium mb-2">Temperature</label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="2"
+                      step="0.1"
+                      value={providerConfig.temperature}
+                      onChange={(e) => updateProviderConfig({ temperature: parseFloat(e.target.value) })}
+                      className="w-full"
+                    />
+                    <span className="text-white/60 text-sm">{providerConfig.temperature.toFixed(1)}</span>
+                  </div>
+
+                  <div>
+                    <label className="block text-white/80 text-sm font-medium mb-2">Max Tokens</label>
+                    <input
+                      type="number"
+                      min="16"
+                      max="8192"
+                      value={providerConfig.maxTokens}
+                      onChange={(e) => updateProviderConfig({ maxTokens: parseInt(e.target.value) || undefined })}
+                      className="w-full bg-white/10 text-white rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-white/80 text-sm font-medium">Fallback Providers</label>
+                    <button
+                      onClick={() => resetProviderHealth()}
+                      className="flex items-center space-x-1 text-white/50 hover:text-white text-xs transition-colors"
+                    >
+                      <RotateCcw size={12} />
+                      <span>Reset health</span>
+                    </button>
+                  </div>
+                  <p className="text-white/50 text-xs mb-2">
+                    Tried in order when {primaryProvider.label} fails. Providers that keep failing are skipped for 30 seconds.
+                  </p>
+                  <div className="space-y-2">
+                    {[primaryProvider, ...otherProviders].map((p) => {
+                      const isPrimary = p.id === primaryProvider.id;
+                      const isFallback = fallbackIds.includes(p.id);
+                      const health = providerHealth[p.id];
+                      return (
+                        <div key={p.id} className="flex items-center space-x-3 bg-white/5 p-2 rounded-lg">
+                          <span className={`w-2 h-2 rounded-full ${healthColor(p.id)}`} title={health?.status || 'unknown'} />
+                          {isPrimary ? (
+                            <span className="text-white/50 text-xs w-4">1</span>
+                          ) : (
+                            <input
+                              type="checkbox"
+                              checked={isFallback}
+                              onChange={(e) => toggleFallback(p.id, e.target.checked)}
+                              className="w-4 h-4 text-purple-600 bg-white/10 border-white/30 rounded focus:ring-purple-500"
+                            />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <p className="text-white text-sm">{p.label}{isPrimary && ' (primary)'}</p>
+                            {health?.lastError && health.status !== 'healthy' && (
+                              <p className="text-red-300 text-xs truncate">{health.lastError}</p>
+                            )}
+                            {health?.lastLatencyMs !== undefined && health.status === 'healthy' && (
+                              <p className="text-white/40 text-xs">{health.lastLatencyMs} ms</p>
+                            )}
+                          </div>
+                          {isFallback && (
+                            <>
+                              <button onClick={() => moveFallback(p.id, -1)} className="text-white/50 hover:text-white">
+                                <ChevronUp size={16} />
+                              </button>
+                              <button onClick={() => moveFallback(p.id, 1)} className="text-white/50 hover:text-white">
+                                <ChevronDown size={16} />
+                              </button>
+                            </>
+                          )}
+                          {!isPrimary && (
+                            <button
+                              onClick={() => setConfigProviderId(p.id)}
+                              className="text-purple-300 hover:text-white text-xs"
+                            >
+                              Configure
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-white/80 text-sm font-medium mb-2">Vision Provider</label>
+                  <select
+                    value={settings.visionProvider}
+                    onChange={(e) => updateSettings({ visionProvider: e.target.value })}
+                    className="w-full bg-white/10 text-white rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="">Same as AI provider</option>
+                    {listVisionProviders().map(({ id, label }) => (
+                      <option key={id} value={id}>{label}</option>
+                    ))}
+                  </select>
+                  <p className="text-white/50 text-xs mt-1">
+                    Image analysis falls back through the same providers as chat, skipping those without vision support.
+                  </p>
+                </div>
+
                 <div>
                   <label className="block text-white/80 text-sm font-medium mb-2">Personality</label>
                   <textarea
@@ -138,6 +450,121 @@ export default function Settings() {
             </div>
           )}
 
+          {activeSection === 'memory' && (
+            <div className="space-y-6">
+              <h3 className="text-white text-xl font-semibold">Memory</h3>
+
+              <div className="space-y-4">
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    id="enableLongTermMemory"
+                    checked={settings.enableLongTermMemory}
+                    onChange={(e) => updateSettings({ enableLongTermMemory: e.target.checked })}
+                    className="w-4 h-4 text-purple-600 bg-white/10 border-white/30 rounded focus:ring-purple-500"
+                  />
+                  <label htmlFor="enableLongTermMemory" className="text-white/80 text-sm">
+                    Remember facts from our conversations (names, preferences, dates, plans)
+                  </label>
+                </div>
+
+                <form onSubmit={handleAddFact} className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={newFact}
+                    onChange={(e) => setNewFact(e.target.value)}
+                    className="flex-1 bg-white/10 text-white placeholder-white/50 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    placeholder="Add something for her to remember..."
+                  />
+                  <select
+                    value={newFactCategory}
+                    onChange={(e) => setNewFactCategory(e.target.value as MemoryCategory)}
+                    className="bg-white/10 text-white rounded-lg px-2 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {memoryCategories.map((category) => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={!newFact.trim()}
+                    className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 rounded-lg transition-colors"
+                  >
+                    <Plus size={18} />
+                  </button>
+                </form>
+
+                {memories.length === 0 ? (
+                  <p className="text-white/50 text-sm">Nothing remembered yet. Tell her about yourself!</p>
+                ) : (
+                  <div className="space-y-2">
+                    {memories.map((fact) => (
+                      <div key={fact.id} className="flex items-start space-x-3 bg-white/5 p-3 rounded-lg">
+                        <select
+                          value={fact.category}
+                          onChange={(e) => updateMemory(fact.id, { category: e.target.value as MemoryCategory })}
+                          className="bg-white/10 text-white/80 text-xs rounded px-1 py-1 focus:outline-none"
+                        >
+                          {memoryCategories.map((category) => (
+                            <option key={category} value={category}>{category}</option>
+                          ))}
+                        </select>
+                        {editingFactId === fact.id ? (
+                          <>
+                            <input
+                              type="text"
+                              value={editingFactText}
+                              onChange={(e) => setEditingFactText(e.target.value)}
+                              className="flex-1 bg-white/10 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                              autoFocus
+                            />
+                            <button onClick={handleSaveFact} className="text-green-400 hover:text-green-300">
+                              <Check size={16} />
+                            </button>
+                            <button onClick={() => setEditingFactId('')} className="text-white/50 hover:text-white">
+                              <X size={16} />
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <p className="flex-1 text-white/90 text-sm">{fact.text}</p>
+                            <button
+                              onClick={() => {
+                                setEditingFactId(fact.id);
+                                setEditingFactText(fact.text);
+                              }}
+                              className="text-white/50 hover:text-white"
+                            >
+                              <Pencil size={14} />
+                            </button>
+                            <button onClick={() => forgetMemory(fact.id)} className="text-white/50 hover:text-red-400">
+                              <Trash2 size={14} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {memories.length > 0 && (
+                  <button
+                    onClick={handleClearMemories}
+                    className="text-red-300 hover:text-red-200 text-sm underline"
+                  >
+                    Forget everything
+                  </button>
+                )}
+
+                <div className="bg-blue-600/20 p-3 rounded-lg">
+                  <p className="text-blue-300 text-sm">
+                    🔒 Memories are stored only in this browser and the most relevant ones are shared with the AI provider with each message.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {activeSection === 'language' && (
             <div className="space-y-6">
               <h3 className="text-white text-xl font-semibold">Language Settings</h3>
@@ -217,6 +644,161 @@ export default function Settings() {
                   />
                   <span className="text-white/60 text-sm">{settings.voiceVolume}%</span>
                 </div>
+
+                <div>
+                  <label className="block text-white/80 text-sm font-medium mb-2">Speech Engine</label>
+                  <select
+                    value={speechEngine.id}
+                    onChange={(e) => updateSettings({ speechEngine: e.target.value })}
+                    className="w-full bg-white/10 text-white rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {listSpeechEngines().map(({ id, label }) => (
+                      <option key={id} value={id}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {speechEngine.id === 'http' && (
+                  <div className="space-y-4 bg-white/5 p-3 rounded-lg">
+                    <div>
+                      <label className="block text-white/80 text-sm font-medium mb-2">Server Type</label>
+                      <select
+                        value={settings.httpSpeech.style}
+                        onChange={(e) => updateHttpSpeech({ style: e.target.value as HttpSpeechConfig['style'] })}
+                        className="w-full bg-white/10 text-white rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      >
+                        <option value="openai">OpenAI-compatible (/audio/speech)</option>
+                        <option value="query">Piper / Coqui (?text=)</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-white/80 text-sm font-medium mb-2">Base URL</label>
+                      <input
+                        type="text"
+                        value={settings.httpSpeech.baseUrl}
+                        onChange={(e) => updateHttpSpeech({ baseUrl: e.target.value })}
+                        className="w-full bg-white/10 text-white placeholder-white/50 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                      <p className="text-white/50 text-xs mt-1">
+                        OpenAI: https://api.openai.com/v1 • Coqui: http://localhost:5002/api/tts • Piper: http://localhost:5000
+                      </p>
+                    </div>
+
+                    {settings.httpSpeech.style === 'openai' && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-white/80 text-sm font-medium mb-2">API Key</label>
+                          <input
+                            type="password"
+                            value={settings.httpSpeech.apiKey}
+                            onChange={(e) => updateHttpSpeech({ apiKey: e.target.value })}
+                            className="w-full bg-white/10 text-white placeholder-white/50 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            placeholder="Optional for local servers"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-white/80 text-sm font-medium mb-2">Model</label>
+                          <input
+                            type="text"
+                            value={settings.httpSpeech.model}
+                            onChange={(e) => updateHttpSpeech({ model: e.target.value })}
+                            className="w-full bg-white/10 text-white placeholder-white/50 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            placeholder="tts-1"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-white/80 text-sm font-medium mb-2">Voice</label>
+                  <div className="flex space-x-2">
+                    <select
+                      value={voiceLanguage}
+                      onChange={(e) => setVoiceLanguage(e.target.value)}
+                      className="bg-white/10 text-white rounded-lg px-3 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      {Object.entries(supportedLanguages).map(([code, name]) => (
+                        <option key={code} value={code}>{name}</option>
+                      ))}
+                    </select>
+                    {speechEngine.id === 'browser' ? (
+                      <select
+                        value={selectedVoice}
+                        onChange={(e) => setVoice(e.target.value)}
+                        className="flex-1 min-w-0 bg-white/10 text-white rounded-lg px-3 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      >
+                        <option value="">Automatic</option>
+                        {voices.map((voice) => (
+                          <option key={voice.id} value={voice.id}>{voice.name} ({voice.lang})</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <>
+                        <input
+                          type="text"
+                          list="http-voices"
+                          value={selectedVoice}
+                          onChange={(e) => setVoice(e.target.value)}
+                          className="flex-1 min-w-0 bg-white/10 text-white placeholder-white/50 rounded-lg px-3 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          placeholder={voices[0]?.id || 'Voice or speaker id'}
+                        />
+                        <datalist id="http-voices">
+                          {voices.map((voice) => (
+                            <option key={voice.id} value={voice.id} />
+                          ))}
+                        </datalist>
+                      </>
+                    )}
+                    <button
+                      onClick={previewVoice}
+                      className="flex items-center space-x-1 bg-purple-600 hover:bg-purple-700 text-white px-3 rounded-lg transition-colors"
+                      title="Preview voice"
+                    >
+                      <Play size={16} />
+                    </button>
+                  </div>
+                  {speechEngine.id === 'browser' && voices.length === 0 && (
+                    <p className="text-yellow-300 text-xs mt-1">
+                      No {supportedLanguages[voiceLanguage as keyof typeof supportedLanguages]} voice is installed, the browser default will be used.
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-white/80 text-sm font-medium mb-2">Speaking Rate</label>
+                    <input
+                      type="range"
+                      min="0.5"
+                      max="2"
+                      step="0.05"
+                      value={settings.speechRate}
+                      onChange={(e) => updateSettings({ speechRate: parseFloat(e.target.value) })}
+                      className="w-full"
+                    />
+                    <span className="text-white/60 text-sm">{settings.speechRate.toFixed(2)}x</span>
+                  </div>
+
+                  <div>
+                    <label className="block text-white/80 text-sm font-medium mb-2">Pitch</label>
+                    <input
+                      type="range"
+                      min="0.5"
+                      max="2"
+                      step="0.05"
+                      value={settings.speechPitch}
+                      onChange={(e) => updateSettings({ speechPitch: parseFloat(e.target.value) })}
+                      disabled={!('speechSynthesis' in window) || speechEngine.id !== 'browser'}
+                      className="w-full disabled:opacity-50"
+                    />
+                    <span className="text-white/60 text-sm">
+                      {speechEngine.id === 'browser' ? settings.speechPitch.toFixed(2) : 'Set by the TTS voice'}
+                    </span>
+                  </div>
+                </div>
               </div>
             </div>
           )}
@@ -252,6 +834,69 @@ export default function Settings() {
                   </label>
                 </div>
               </div>
+
+              <div className="space-y-4">
+                <h4 className="text-white font-medium">Eye Contact</h4>
+
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    id="lookAtEnabled"
+                    checked={settings.lookAtEnabled}
+                    onChange={(e) => updateSettings({ lookAtEnabled: e.target.checked })}
+                    className="w-4 h-4 text-purple-600 bg-white/10 border-white/30 rounded focus:ring-purple-500"
+                  />
+                  <label htmlFor="lookAtEnabled" className="text-white/80 text-sm">
+                    {settings.wifeName} looks at your mouse cursor
+                  </label>
+                </div>
+
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    id="lookAtFollowFace"
+                    checked={settings.lookAtFollowFace}
+                    disabled={!settings.lookAtEnabled}
+                    onChange={(e) => updateSettings({ lookAtFollowFace: e.target.checked })}
+                    className="w-4 h-4 text-purple-600 bg-white/10 border-white/30 rounded focus:ring-purple-500 disabled:opacity-50"
+                  />
+                  <label htmlFor="lookAtFollowFace" className="text-white/80 text-sm">
+                    Look at your face instead while the camera is on
+                  </label>
+                </div>
+
+                <div>
+                  <label className="block text-white/80 text-sm mb-2">
+                    Turn Range: {settings.lookAtRange}°
+                  </label>
+                  <input
+                    type="range"
+                    min="10"
+                    max="60"
+                    step="5"
+                    value={settings.lookAtRange}
+                    disabled={!settings.lookAtEnabled}
+                    onChange={(e) => updateSettings({ lookAtRange: parseInt(e.target.value) })}
+                    className="w-full disabled:opacity-50"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-white/80 text-sm mb-2">
+                    Smoothing: {Math.round(settings.lookAtSmoothing * 100)}%
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={settings.lookAtSmoothing}
+                    disabled={!settings.lookAtEnabled}
+                    onChange={(e) => updateSettings({ lookAtSmoothing: parseFloat(e.target.value) })}
+                    className="w-full disabled:opacity-50"
+                  />
+                </div>
+              </div>
             </div>
           )}
 
@@ -295,6 +940,38 @@ export default function Settings() {
                     Auto-dance when music is playing
                   </label>
                 </div>
+
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    id="ambientMusicDetection"
+                    checked={settings.ambientMusicDetection}
+                    onChange={(e) => updateSettings({ ambientMusicDetection: e.target.checked })}
+                    className="w-4 h-4 text-purple-600 bg-white/10 border-white/30 rounded focus:ring-purple-500"
+                  />
+                  <label htmlFor="ambientMusicDetection" className="text-white/80 text-sm">
+                    Dance to music heard through the microphone
+                  </label>
+                </div>
+
+                <div>
+                  <label className="block text-white/80 text-sm mb-2">
+                    Music Detection Sensitivity: {settings.ambientMusicSensitivity}
+                  </label>
+                  <input
+                    type="range"
+                    min="1"
+                    max="10"
+                    step="1"
+                    value={settings.ambientMusicSensitivity}
+                    disabled={!settings.ambientMusicDetection}
+                    onChange={(e) => updateSettings({ ambientMusicSensitivity: parseInt(e.target.value) })}
+                    className="w-full disabled:opacity-50"
+                  />
+                  <p className="text-white/50 text-xs mt-1">
+                    Higher picks up quieter background music, but may mistake noise for music.
+                  </p>
+                </div>
               </div>
             </div>
           )}
@@ -1,5 +1,5 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { Canvas, useFrame, useLoader } from '@react-three/fiber';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { Canvas, useFrame, useLoader, useThree } from '@react-three/fiber';
 import { OrbitControls, Environment } from '@react-three/drei';
 import * as THREE from 'three';
 import { VRM, VRMLoaderPlugin, VRMUtils } from '@pixiv/three-vrm';
@@ -8,29 +8,64 @@ import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader';
 import { useAI } from '../contexts/AIContext';
 import { useSettings } from '../contexts/SettingsContext';
 import { useAudio } from '../contexts/AudioContext';
-import { ChevronDown } from 'lucide-react';
+import { useCamera } from '../contexts/CameraContext';
+import { ChevronDown, Library, Users } from 'lucide-react';
+import { LipSync, visemes } from '../speech/lipSync';
+import { FacialExpressions, expressionPresets } from '../avatar/facialExpressions';
+import { IdleMotion } from '../avatar/idleMotion';
+import { LookAtTracker, LookAtOptions } from '../avatar/lookAtTracking';
+import { FaceTracker } from '../avatar/faceTracking';
+import { retargetMixamoClip } from '../avatar/mixamoRetarget';
+import { loadVRMAnimation, getClipChannels, captureClipChannels, restoreClipChannels } from '../avatar/vrmAnimation';
+import { AnimationStateMachine, AnimationSnapshot } from '../avatar/animationStateMachine';
+import { DanceDirector, DanceClip } from '../avatar/danceDirector';
+import { BeatTracker } from '../utils/beatTracking';
+import { AnimationLibrary, StoredAnimation, animationFormatOf, parseStoredAnimation } from '../avatar/animationLibrary';
+import { ModelLibrary, StoredModel, ModelMeta, ModelFraming, BUNDLED_MODEL_ID, BUNDLED_MODEL_URL, defaultModelFraming, describeVRMMeta } from '../avatar/modelLibrary';
+import AnimationLibraryPanel from './AnimationLibraryPanel';
+import ModelLibraryPanel from './ModelLibraryPanel';
 
 interface VRMModelProps {
   modelPath: string;
-  currentAnimation: string;
-  isPlaying: boolean;
-  isMusic: boolean;
-  manualAnimation?: string;
+  framing: ModelFraming;
+  // Called with the file's meta once loaded, or null if it failed and the placeholder is shown
+  onLoad?: (meta: ModelMeta | null) => void;
+  // Decides which body clip plays; the model only feeds it clips and frames
+  animationMachine: AnimationStateMachine;
+  // Drives the face independently of the body animation
+  emotion?: string;
+  // 0-1 strength of the current emotion, plays emotion animations faster or slower
+  intensity?: number;
+  lipSync?: LipSync;
+  // Eye contact; off leaves her looking ahead
+  lookAt?: LookAtOptions & { enabled: boolean };
+  // Preferred over the pointer whenever it can see a face
+  faceTracker?: FaceTracker;
+  // User-imported animations, retargeted onto the model alongside the bundled ones
+  libraryAnimations?: StoredAnimation[];
+  // Times the dancing bounce to the music
+  beatTracker?: BeatTracker | null;
 }
 
-function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnimation }: VRMModelProps) {
+function VRMModel({ modelPath, framing, onLoad, animationMachine, emotion = 'default', intensity = 0.5, lipSync, lookAt, faceTracker, libraryAnimations = [], beatTracker }: VRMModelProps) {
   const meshRef = useRef<THREE.Group>();
   const [vrm, setVrm] = useState<VRM | null>(null);
   const [animations, setAnimations] = useState<{ [key: string]: THREE.AnimationClip }>({});
+  const [libraryClips, setLibraryClips] = useState<{ [key: string]: THREE.AnimationClip }>({});
+  // Parsed library clips by id, so editing one entry doesn't re-parse the others
+  const parsedLibraryClips = useRef(new Map<string, { updatedAt: string; clip: THREE.AnimationClip | null }>());
   const [mixer, setMixer] = useState<THREE.AnimationMixer | null>(null);
-  const [currentAction, setCurrentAction] = useState<THREE.AnimationAction | null>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [danceIndex, setDanceIndex] = useState(0);
-  const [hasGreeted, setHasGreeted] = useState(false);
-  const [hasSkeleton, setHasSkeleton] = useState(false);
+  const [facialExpressions] = useState(() => new FacialExpressions());
+  const idleMotion = useMemo(() => (vrm ? new IdleMotion(vrm) : null), [vrm]);
+  const lookAtTracker = useMemo(() => (vrm ? new LookAtTracker(vrm) : null), [vrm]);
 
-  // Dance animations for music
-  const danceAnimations = ['Hip Hop Dancing', 'Rumba Dancing'];
+  useEffect(() => {
+    facialExpressions.setEmotion(emotion, intensity);
+  }, [emotion, intensity]);
+
+  useEffect(() => {
+    if (lookAt) lookAtTracker?.setOptions(lookAt);
+  }, [lookAtTracker, lookAt?.maxYaw, lookAt?.maxPitch, lookAt?.smoothing]);
 
   // Create enhanced animations with proper bone movements
   const createEnhancedAnimations = (vrmModel?: VRM, hasSkeletonStructure: boolean = false) => {
@@ -197,12 +232,19 @@ function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnima
   useEffect(() => {
     const loader = new GLTFLoader();
     loader.register((parser) => new VRMLoaderPlugin(parser));
+    let cancelled = false;
+    let loadedModel: VRM | null = null;
     
     loader.load(
       modelPath,
       (gltf) => {
         const vrmModel = gltf.userData.vrm as VRM;
+        if (cancelled) {
+          if (vrmModel) VRMUtils.deepDispose(vrmModel.scene);
+          return;
+        }
         if (vrmModel) {
+          loadedModel = vrmModel;
           // Rotate the model to face forward
           VRMUtils.rotateVRM0(vrmModel);
           
@@ -213,13 +255,11 @@ function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnima
             vrmModel.humanoid.getBoneNode('rightUpperArm' as any) &&
             vrmModel.humanoid.getBoneNode('leftUpperArm' as any));
           
-          setHasSkeleton(hasSkeletonStructure);
-          
           if (meshRef.current) {
             meshRef.current.add(vrmModel.scene);
-            // Position the model properly - centered and at ground level
-            vrmModel.scene.position.set(0, -1, 0);
-            vrmModel.scene.rotation.set(0, 0, 0);
+            // Placement and scale come from the framing, applied to the group around the model.
+            // The rotation is left alone so VRM 0.x models keep the turn from rotateVRM0.
+            vrmModel.scene.position.set(0, 0, 0);
             vrmModel.scene.scale.set(1, 1, 1);
           }
           
@@ -229,8 +269,8 @@ function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnima
           
           // Load enhanced animations with skeleton check
           setAnimations(createEnhancedAnimations(vrmModel, hasSkeletonStructure));
-          setIsInitialized(true);
           
+          onLoad?.(vrmModel.meta ? describeVRMMeta(vrmModel.meta) : null);
           console.log('VRM model loaded successfully, has skeleton:', hasSkeletonStructure);
         }
       },
@@ -238,10 +278,17 @@ function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnima
         console.log('Loading progress:', (progress.loaded / progress.total * 100) + '%');
       },
       (error) => {
+        if (cancelled) return;
         console.error('Error loading VRM:', error);
         createFallbackModel();
+        onLoad?.(null);
       }
     );
+
+    return () => {
+      cancelled = true;
+      if (loadedModel) VRMUtils.deepDispose(loadedModel.scene);
+    };
   }, [modelPath]);
 
   const createFallbackModel = () => {
@@ -265,14 +312,15 @@ function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnima
     
     // Load enhanced animations for fallback (no skeleton)
     setAnimations(createEnhancedAnimations(undefined, false));
-    setHasSkeleton(false);
-    setIsInitialized(true);
     
     console.log('Using fallback model with safe animations (no skeleton)');
   };
 
-  // Load FBX animations with fallback to enhanced animations
+  // Load FBX animations, retargeted onto the loaded VRM, with fallback to enhanced animations
   useEffect(() => {
+    // Mixamo clips only mean something once there is a humanoid to retarget them onto
+    if (!vrm) return;
+
     const animationFiles = [
       'Standing Greeting.fbx',
       'Happy.fbx',
@@ -283,20 +331,28 @@ function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnima
       'Rumba Dancing.fbx',
       'Kiss.fbx',
       'Praying.fbx',
-      'Female Laying Pose.fbx'
+      'Female Laying Pose.fbx',
+      // Optional: played while she speaks, otherwise the emotion or idle clip carries on
+      'Talking.fbx'
     ];
 
+    // A .vrma next to an .fbx of the same name is preferred: it needs no retargeting and can
+    // animate the face and eyes too
+    const vrmaFiles = animationFiles.map(file => file.replace('.fbx', '.vrma'));
+
     const fbxLoader = new FBXLoader();
     const loadedAnimations: { [key: string]: THREE.AnimationClip } = {};
+    const loadedVRMAnimations: { [key: string]: THREE.AnimationClip } = {};
 
     let loadedCount = 0;
-    const totalFiles = animationFiles.length;
+    const totalFiles = animationFiles.length + vrmaFiles.length;
 
     const checkComplete = () => {
       if (loadedCount === totalFiles) {
-        if (Object.keys(loadedAnimations).length > 0) {
-          setAnimations(prev => ({ ...prev, ...loadedAnimations }));
-          console.log('Loaded FBX animations:', Object.keys(loadedAnimations));
+        const clips = { ...loadedAnimations, ...loadedVRMAnimations };
+        if (Object.keys(clips).length > 0) {
+          setAnimations(prev => ({ ...prev, ...clips }));
+          console.log('Loaded FBX animations:', Object.keys(loadedAnimations), 'VRMA animations:', Object.keys(loadedVRMAnimations));
         } else {
           console.log('Using enhanced procedural animations');
         }
@@ -307,10 +363,13 @@ function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnima
       fbxLoader.load(
         `/animations/${file}`,
         (fbx) => {
-          if (fbx.animations && fbx.animations.length > 0) {
-            const animName = file.replace('.fbx', '');
-            loadedAnimations[animName] = fbx.animations[0];
+          const animName = file.replace('.fbx', '');
+          const clip = fbx.animations?.length > 0 ? retargetMixamoClip(fbx, vrm, animName) : null;
+          if (clip) {
+            loadedAnimations[animName] = clip;
             console.log(`Loaded FBX animation: ${animName}`);
+          } else {
+            console.warn(`No Mixamo bones to retarget in ${file}, keeping the procedural animation`);
           }
           
           loadedCount++;
@@ -327,6 +386,21 @@ function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnima
       );
     });
 
+    vrmaFiles.forEach((file) => {
+      const animName = file.replace('.vrma', '');
+      loadVRMAnimation(`/animations/${file}`, vrm, animName)
+        .then((clip) => {
+          loadedVRMAnimations[animName] = clip;
+          console.log(`Loaded VRMA animation: ${animName}`);
+        })
+        // Most animations only ship as FBX, so a missing .vrma is expected
+        .catch(() => {})
+        .finally(() => {
+          loadedCount++;
+          checkComplete();
+        });
+    });
+
     // Timeout fallback
     setTimeout(() => {
       if (loadedCount < totalFiles) {
@@ -334,183 +408,280 @@ function VRMModel({ modelPath, currentAnimation, isPlaying, isMusic, manualAnima
         checkComplete();
       }
     }, 5000);
-  }, []);
+  }, [vrm]);
 
-  // Handle animation changes
   useEffect(() => {
-    const animationToPlay = manualAnimation || currentAnimation;
-    
-    if (!mixer || !animations[animationToPlay]) {
-      console.log('Animation not available:', animationToPlay, 'Available:', Object.keys(animations));
-      return;
-    }
-
-    // Stop current animation
-    if (currentAction) {
-      currentAction.fadeOut(0.5);
-    }
+    parsedLibraryClips.current.clear();
+  }, [vrm]);
 
-    try {
-      // Start new animation
-      const clip = animations[animationToPlay];
-      const action = mixer.clipAction(clip);
-      action.reset().fadeIn(0.5);
-      
-      // Set loop mode based on animation type
-      if (isMusic && danceAnimations.includes(animationToPlay)) {
-        action.setLoop(THREE.LoopRepeat, Infinity);
-        action.timeScale = 1.2; // Slightly faster for dancing
-      } else if (animationToPlay === 'Standing Greeting') {
-        action.setLoop(THREE.LoopOnce, 1);
-        action.clampWhenFinished = true;
-      } else {
-        action.setLoop(THREE.LoopRepeat, Infinity);
-      }
-      
-      action.play();
-      setCurrentAction(action);
-      console.log('Playing animation:', animationToPlay, 'isMusic:', isMusic, 'hasSkeleton:', hasSkeleton);
-    } catch (error) {
-      console.error('Error playing animation:', animationToPlay, error);
-      // Fallback to a safe animation
-      if (animations['Female Laying Pose']) {
-        const fallbackAction = mixer.clipAction(animations['Female Laying Pose']);
-        fallbackAction.reset().play();
-        setCurrentAction(fallbackAction);
-      }
-    }
-  }, [manualAnimation, currentAnimation, animations, mixer, isMusic, hasSkeleton]);
-
-  // Auto-switch dance animations when music is playing (only if no manual animation)
   useEffect(() => {
-    if (!isMusic || !mixer || danceAnimations.length === 0 || manualAnimation) return;
-
-    const switchDance = () => {
-      const nextIndex = (danceIndex + 1) % danceAnimations.length;
-      setDanceIndex(nextIndex);
-      
-      const nextDance = danceAnimations[nextIndex];
-      if (animations[nextDance]) {
-        try {
-          if (currentAction) {
-            currentAction.fadeOut(1);
-          }
-          
-          const newAction = mixer.clipAction(animations[nextDance]);
-          newAction.reset().fadeIn(1).play();
-          newAction.setLoop(THREE.LoopRepeat, Infinity);
-          newAction.timeScale = 1.2; // Faster dancing
-          setCurrentAction(newAction);
-          
-          console.log('Switched to dance:', nextDance);
-        } catch (error) {
-          console.error('Error switching dance animation:', error);
-        }
-      }
-    };
+    if (!vrm) return;
+    let cancelled = false;
+
+    Promise.all(libraryAnimations.map(async (animation) => {
+      const cached = parsedLibraryClips.current.get(animation.id);
+      if (cached?.updatedAt === animation.updatedAt) return { animation, clip: cached.clip };
+
+      const clip = await parseStoredAnimation(animation, vrm).catch((error) => {
+        console.warn(`Could not load imported animation ${animation.name}:`, error);
+        return null;
+      });
+      if (!clip) console.warn(`No bones in ${animation.name} map onto this model`);
+      parsedLibraryClips.current.set(animation.id, { updatedAt: animation.updatedAt, clip });
+      return { animation, clip };
+    })).then((results) => {
+      if (cancelled) return;
+      const clips: { [key: string]: THREE.AnimationClip } = {};
+      results.forEach(({ animation, clip }) => {
+        if (clip) clips[animation.name] = clip;
+      });
+      setLibraryClips(clips);
+    });
 
-    // Switch dance every 15 seconds when music is playing
-    const interval = setInterval(switchDance, 15000);
-    
-    return () => clearInterval(interval);
-  }, [isMusic, mixer, animations, danceIndex, currentAction, manualAnimation]);
+    return () => { cancelled = true; };
+  }, [vrm, libraryAnimations]);
 
-  // Start with greeting animation when initialized
+  // An imported clip named like a bundled one replaces it
   useEffect(() => {
-    if (isInitialized && mixer && animations['Standing Greeting'] && !hasGreeted && !manualAnimation) {
-      try {
-        const greetingClip = animations['Standing Greeting'];
-        const greetingAction = mixer.clipAction(greetingClip);
-        greetingAction.reset().play();
-        greetingAction.setLoop(THREE.LoopOnce, 1);
-        greetingAction.clampWhenFinished = true;
-        setCurrentAction(greetingAction);
-        setHasGreeted(true);
-        
-        // Switch to idle after greeting
-        setTimeout(() => {
-          if (animations['Female Laying Pose'] && !isMusic && !manualAnimation) {
-            try {
-              const idleAction = mixer.clipAction(animations['Female Laying Pose']);
-              idleAction.reset().fadeIn(1).play();
-              idleAction.setLoop(THREE.LoopRepeat, Infinity);
-              setCurrentAction(idleAction);
-            } catch (error) {
-              console.error('Error playing idle animation:', error);
-            }
-          }
-        }, 3000);
-      } catch (error) {
-        console.error('Error playing greeting animation:', error);
-      }
-    }
-  }, [isInitialized, mixer, animations, hasGreeted, isMusic, manualAnimation]);
+    animationMachine.attach(mixer, { ...animations, ...libraryClips });
+  }, [animationMachine, mixer, animations, libraryClips]);
 
   // Animation loop
   useFrame((state, delta) => {
+    idleMotion?.reset();
+    lookAtTracker?.reset();
+
     if (mixer) {
       mixer.update(delta);
     }
+    animationMachine.update(delta);
+
+    // Expressions and gaze animated by a VRMA clip win over the procedural layers below
+    const currentAction = animationMachine.currentAction;
+    const channels = currentAction ? getClipChannels(currentAction.getClip()) : undefined;
+    const clipValues = vrm && channels ? captureClipChannels(vrm, channels) : null;
+
+    // Blinking, breathing and micro-motion go on top of whatever clip is playing
+    idleMotion?.update(delta);
+
+    // Eye contact goes last so it can override the idle layer's wandering gaze
+    if (lookAtTracker) {
+      const followTarget = lookAt?.enabled && !channels?.lookAt;
+      lookAtTracker.setTarget(followTarget ? faceTracker?.position || state.pointer : null);
+      lookAtTracker.update(delta, state.camera, idleMotion?.saccade);
+    }
     
+    if (vrm?.expressionManager) {
+      const faceWeights = facialExpressions.update(delta);
+      expressionPresets.forEach(preset => vrm.expressionManager!.setValue(preset, faceWeights[preset]));
+    }
+
+    // Mouth shapes are written before vrm.update so the expression manager applies them this frame
+    if (vrm?.expressionManager && lipSync) {
+      const weights = lipSync.update(delta);
+      visemes.forEach(viseme => vrm.expressionManager!.setValue(viseme, weights[viseme]));
+    }
+
+    if (vrm && clipValues) {
+      restoreClipChannels(vrm, clipValues);
+    }
+
     if (vrm) {
       vrm.update(delta);
     }
     
-    // Add subtle floating animation when dancing
-    if (isMusic && meshRef.current && !manualAnimation) {
-      meshRef.current.position.y = Math.sin(state.clock.elapsedTime * 2) * 0.1 - 1;
-      meshRef.current.rotation.y = Math.sin(state.clock.elapsedTime * 0.5) * 0.1;
+    // Stand the model where its framing says. While dancing she dips on every beat and sways
+    // across two, or floats gently when the music has no clear beat.
+    if (meshRef.current) {
+      const dancing = animationMachine.state === 'dance';
+      const beat = dancing ? beatTracker?.info : null;
+      let bounce = 0;
+      let sway = 0;
+      if (beat) {
+        bounce = -0.03 * (1 + Math.cos(beat.phase * Math.PI * 2)) * (0.5 + beat.energy);
+        sway = Math.sin((beat.beat + beat.phase) * Math.PI) * 0.1;
+      } else if (dancing) {
+        bounce = Math.sin(state.clock.elapsedTime * 2) * 0.1;
+        sway = Math.sin(state.clock.elapsedTime * 0.5) * 0.1;
+      }
+      meshRef.current.scale.setScalar(framing.scale);
+      meshRef.current.position.y = framing.groundOffset + bounce;
+      meshRef.current.rotation.y = sway;
     }
   });
 
   return <group ref={meshRef} />;
 }
 
+// Dance animations for music, with the tempo each was animated to
+const danceAnimations: DanceClip[] = [
+  { name: 'Hip Hop Dancing', bpm: 110, energetic: true },
+  { name: 'Rumba Dancing', bpm: 100, energetic: false }
+];
+
+// Imported dances don't say their tempo, so they are assumed to be at a typical pop tempo
+const LIBRARY_DANCE_BPM = 120;
+
+// Moves the camera when the model or its framing changes; orbiting in between is left to the user
+function CameraFraming({ framing }: { framing: ModelFraming }) {
+  const camera = useThree(state => state.camera);
+
+  useEffect(() => {
+    camera.position.set(0, framing.cameraHeight, framing.cameraDistance);
+    camera.lookAt(0, framing.targetHeight, 0);
+  }, [camera, framing.cameraHeight, framing.cameraDistance, framing.targetHeight]);
+
+  return null;
+}
+
+const idleAnimation = 'Female Laying Pose';
+
+// A neutral emotion has no entry and falls through to talking or idle
+const emotionAnimations: { [emotion: string]: string } = {
+  happy: 'Happy',
+  sad: 'Sad Idle',
+  angry: 'Angry',
+  laughing: 'Laughing',
+  greeting: 'Standing Greeting',
+  dancing: 'Hip Hop Dancing',
+  praying: 'Praying',
+  kiss: 'Kiss'
+};
+
+const gestureAnimations: { [gesture: string]: string } = {
+  wave: 'Standing Greeting',
+  blow_kiss: 'Kiss',
+  pray: 'Praying',
+  dance: 'Hip Hop Dancing',
+  laugh: 'Laughing'
+};
+
+// VRMA files can say whether they loop; otherwise only the greeting plays once
+function isOneShotClip(name: string, clip: THREE.AnimationClip): boolean {
+  const loop = getClipChannels(clip)?.loop;
+  return loop === undefined ? name === 'Standing Greeting' : !loop;
+}
+
+const bundledAnimations = [
+  'Standing Greeting',
+  'Happy',
+  'Sad Idle',
+  'Angry',
+  'Laughing',
+  'Hip Hop Dancing',
+  'Rumba Dancing',
+  'Kiss',
+  'Praying',
+  'Female Laying Pose'
+];
+
 export default function VirtualWife() {
-  const { currentEmotion, isListening } = useAI();
-  const { settings } = useSettings();
-  const { isPlaying, currentTrack } = useAudio();
+  const { currentEmotion, emotionIntensity, currentGesture, isListening, isSpeaking, lipSync } = useAI();
+  const { settings, updateSettings } = useSettings();
+  const { isPlaying, currentTrack, beatTracker, isAmbientMusic, ambientBeatTracker } = useAudio();
+  const { faceTracker } = useCamera();
   const [showAnimationDropdown, setShowAnimationDropdown] = useState(false);
   const [manualAnimation, setManualAnimation] = useState<string>('');
-  
-  const availableAnimations = [
-    'Standing Greeting',
-    'Happy',
-    'Sad Idle',
-    'Angry',
-    'Laughing',
-    'Hip Hop Dancing',
-    'Rumba Dancing',
-    'Kiss',
-    'Praying',
-    'Female Laying Pose'
-  ];
-  
-  const getAnimationForEmotion = (emotion: string, musicPlaying: boolean) => {
-    // If manual animation is selected, use it
-    if (manualAnimation) {
-      return manualAnimation;
-    }
-    
-    // If music is playing, prioritize dance animations
-    if (musicPlaying && settings.autoDance) {
-      return 'Hip Hop Dancing'; // Will auto-switch between dance animations
+  const [animationLibrary] = useState(() => new AnimationLibrary());
+  const [libraryAnimations, setLibraryAnimations] = useState<StoredAnimation[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryError, setLibraryError] = useState('');
+
+  useEffect(() => {
+    animationLibrary.load().then(() => setLibraryAnimations(animationLibrary.all()));
+  }, [animationLibrary]);
+
+  const [modelLibrary] = useState(() => new ModelLibrary());
+  const [models, setModels] = useState<StoredModel[]>([]);
+  const [modelsLoaded, setModelsLoaded] = useState(false);
+  const [modelUrl, setModelUrl] = useState('');
+  const [modelMeta, setModelMeta] = useState<ModelMeta | null>(null);
+  const [showModels, setShowModels] = useState(false);
+  const [modelError, setModelError] = useState('');
+
+  useEffect(() => {
+    modelLibrary.load().then(() => {
+      setModels(modelLibrary.all());
+      setModelsLoaded(true);
+    });
+  }, [modelLibrary]);
+
+  const selectedModel = models.find(model => model.id === settings.selectedModelId);
+  const modelId = selectedModel ? selectedModel.id : BUNDLED_MODEL_ID;
+  const framing: ModelFraming = { ...defaultModelFraming, ...settings.modelFraming[modelId] };
+
+  // Uploaded models load from a blob URL; an id that is no longer in the library falls back to
+  // the bundled model
+  useEffect(() => {
+    if (!modelsLoaded) return;
+    setModelMeta(null);
+    if (!selectedModel) {
+      setModelUrl(BUNDLED_MODEL_URL);
+      return;
     }
-    
-    const emotionMap: { [key: string]: string } = {
-      happy: 'Happy',
-      sad: 'Sad Idle',
-      angry: 'Angry',
-      laughing: 'Laughing',
-      greeting: 'Standing Greeting',
-      dancing: 'Hip Hop Dancing',
-      praying: 'Praying',
-      kiss: 'Kiss',
-      default: 'Female Laying Pose' // Idle animation
-    };
-    
-    return emotionMap[emotion] || emotionMap.default;
-  };
+    const url = URL.createObjectURL(new Blob([selectedModel.data], { type: 'model/gltf-binary' }));
+    setModelUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [modelsLoaded, selectedModel]);
+
+  const libraryNames = (category: StoredAnimation['category'], emotion?: string) => libraryAnimations
+    .filter(animation => animation.category === category && (!emotion || animation.emotion === emotion))
+    .map(animation => animation.name);
+
+  const availableAnimations = Array.from(new Set([...bundledAnimations, ...libraryAnimations.map(animation => animation.name)]));
+  const danceClips: DanceClip[] = [...danceAnimations, ...libraryNames('dance').map(name => ({ name, bpm: LIBRARY_DANCE_BPM }))];
+  const idleClips = [...libraryNames('idle'), idleAnimation];
+  const emotionClips = [...libraryNames('emotion', currentEmotion), ...(emotionAnimations[currentEmotion] ? [emotionAnimations[currentEmotion]] : [])];
+
+  const [animationMachine] = useState(() => {
+    const machine = new AnimationStateMachine(isOneShotClip);
+    machine.request('idle', idleAnimation);
+    // Greet once on load; as a gesture it outranks emotions, so nothing cuts it short
+    machine.request('gesture', 'Standing Greeting');
+    return machine;
+  });
+  const [animationState, setAnimationState] = useState<AnimationSnapshot>(animationMachine.snapshot);
+  const [danceDirector] = useState(() => new DanceDirector(animationMachine));
+
+  useEffect(() => animationMachine.subscribe(setAnimationState), [animationMachine]);
+
+  useEffect(() => {
+    animationMachine.request('manual', manualAnimation || null);
+  }, [manualAnimation]);
+
+  // Imported idles take turns, with the bundled pose as the fallback
+  useEffect(() => {
+    animationMachine.request('idle', idleClips, { rotateEvery: idleClips.length > 1 ? 20 : undefined });
+  }, [idleClips.join('\n')]);
+
+  useEffect(() => {
+    danceDirector.setClips(danceClips);
+  }, [danceClips.map(clip => clip.name).join('\n')]);
+
+  // Her own player comes first; otherwise she dances to music the microphone hears in the room
+  const playerDance = isPlaying && settings.autoDance;
+  const isDancingToMusic = playerDance || isAmbientMusic;
+  const danceBeatTracker = playerDance ? beatTracker : isAmbientMusic ? ambientBeatTracker : null;
+
+  useEffect(() => {
+    if (!isDancingToMusic) return;
+    danceDirector.start(danceBeatTracker);
+    return () => danceDirector.stop();
+  }, [isDancingToMusic, danceBeatTracker]);
+
+  // Imported clips tagged with the emotion come first; the bundled one covers models they don't fit
+  useEffect(() => {
+    animationMachine.request('emotion', emotionClips, { timeScale: 0.75 + emotionIntensity * 0.5 });
+  }, [emotionClips.join('\n'), emotionIntensity]);
+
+  // A gesture in her reply plays once over the emotion's resting animation
+  useEffect(() => {
+    if (gestureAnimations[currentGesture]) animationMachine.replay('gesture', gestureAnimations[currentGesture]);
+  }, [currentGesture]);
+
+  useEffect(() => {
+    animationMachine.request('talking', isSpeaking ? 'Talking' : null);
+  }, [isSpeaking]);
 
   const handleAnimationSelect = (animation: string) => {
     setManualAnimation(animation);
@@ -521,35 +692,142 @@ export default function VirtualWife() {
     setManualAnimation('');
   };
 
+  const handleImportAnimations = async (files: File[]) => {
+    setLibraryError('');
+    const rejected = files.filter(file => !animationFormatOf(file.name));
+    if (rejected.length > 0) {
+      setLibraryError(`Only FBX, VRMA and BVH files can be imported (skipped ${rejected.map(file => file.name).join(', ')})`);
+    }
+
+    for (const file of files.filter(file => animationFormatOf(file.name))) {
+      try {
+        await animationLibrary.import(file, Object.keys(emotionAnimations));
+      } catch (error) {
+        console.error('Error importing animation:', error);
+        setLibraryError(`Could not import ${file.name}`);
+      }
+    }
+    setLibraryAnimations(animationLibrary.all());
+  };
+
+  const handleUpdateAnimation = async (id: string, updates: Parameters<AnimationLibrary['update']>[1]) => {
+    const previous = libraryAnimations.find(animation => animation.id === id);
+    const updated = await animationLibrary.update(id, updates);
+    // Keep a previewed clip playing under its new name
+    if (updated && previous && manualAnimation === previous.name) setManualAnimation(updated.name);
+    setLibraryAnimations(animationLibrary.all());
+  };
+
+  const handleRemoveAnimation = async (id: string) => {
+    const removed = libraryAnimations.find(animation => animation.id === id);
+    await animationLibrary.remove(id);
+    if (removed && manualAnimation === removed.name) setManualAnimation('');
+    setLibraryAnimations(animationLibrary.all());
+  };
+
+  const handleUploadModels = async (files: File[]) => {
+    setModelError('');
+    let uploaded: StoredModel | null = null;
+    for (const file of files) {
+      try {
+        uploaded = await modelLibrary.import(file);
+      } catch (error) {
+        console.error('Error uploading model:', error);
+        setModelError(`Could not use ${file.name}: ${error instanceof Error ? error.message : 'unreadable file'}`);
+      }
+    }
+    setModels(modelLibrary.all());
+    if (uploaded) updateSettings({ selectedModelId: uploaded.id });
+  };
+
+  const handleRemoveModel = async (id: string) => {
+    await modelLibrary.remove(id);
+    setModels(modelLibrary.all());
+    const { [id]: _removed, ...modelFraming } = settings.modelFraming;
+    updateSettings({
+      modelFraming,
+      selectedModelId: settings.selectedModelId === id ? BUNDLED_MODEL_ID : settings.selectedModelId
+    });
+  };
+
+  const handleModelLoad = (meta: ModelMeta | null) => {
+    setModelMeta(meta);
+    setModelError(meta ? '' : 'The model could not be loaded, showing a placeholder');
+  };
+
+  const updateFraming = (updates: Partial<ModelFraming>) => {
+    updateSettings({ modelFraming: { ...settings.modelFraming, [modelId]: { ...framing, ...updates } } });
+  };
+
+  const resetFraming = () => {
+    const { [modelId]: _reset, ...modelFraming } = settings.modelFraming;
+    updateSettings({ modelFraming });
+  };
+
+  // Models and animations can both be dropped onto her; they are told apart by extension
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    const files = Array.from(event.dataTransfer.files);
+    const modelFiles = files.filter(file => /\.vrm$/i.test(file.name));
+    const animationFiles = files.filter(file => !modelFiles.includes(file));
+    if (modelFiles.length > 0) {
+      setShowModels(true);
+      handleUploadModels(modelFiles);
+    }
+    if (animationFiles.length > 0) {
+      setShowLibrary(true);
+      handleImportAnimations(animationFiles);
+    }
+  };
+
   return (
-    <div className="w-full h-full relative bg-gradient-to-br from-purple-900/20 via-blue-900/20 to-indigo-900/20">
+    <div
+      className="w-full h-full relative bg-gradient-to-br from-purple-900/20 via-blue-900/20 to-indigo-900/20"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
+    >
       <Canvas
-        camera={{ position: [0, 1.5, 4], fov: 50 }}
+        camera={{ position: [0, framing.cameraHeight, framing.cameraDistance], fov: 50 }}
         className="w-full h-full"
       >
+        <CameraFraming framing={framing} />
         <ambientLight intensity={0.6} />
         <directionalLight position={[10, 10, 5]} intensity={1.2} />
         <pointLight position={[-10, -10, -5]} intensity={0.4} />
         <spotLight position={[0, 10, 0]} intensity={0.8} angle={0.3} penumbra={1} />
         
-        <VRMModel
-          modelPath="/wife.vrm"
-          currentAnimation={getAnimationForEmotion(currentEmotion, isPlaying)}
-          isPlaying={true}
-          isMusic={isPlaying}
-          manualAnimation={manualAnimation}
-        />
+        {modelUrl && (
+          <VRMModel
+            key={modelUrl}
+            modelPath={modelUrl}
+            framing={framing}
+            onLoad={handleModelLoad}
+            animationMachine={animationMachine}
+            emotion={currentEmotion}
+            intensity={emotionIntensity}
+            lipSync={lipSync}
+            lookAt={{
+              enabled: settings.lookAtEnabled,
+              maxYaw: settings.lookAtRange,
+              maxPitch: settings.lookAtRange * 0.6,
+              smoothing: settings.lookAtSmoothing
+            }}
+            faceTracker={settings.lookAtFollowFace ? faceTracker : undefined}
+            libraryAnimations={libraryAnimations}
+            beatTracker={danceBeatTracker}
+          />
+        )}
         
         <Environment preset="sunset" />
         <OrbitControls
           enablePan={false}
           enableZoom={true}
           enableRotate={true}
-          minDistance={2}
-          maxDistance={8}
+          minDistance={Math.min(2, framing.cameraDistance)}
+          maxDistance={Math.max(8, framing.cameraDistance * 2)}
           minPolarAngle={Math.PI / 6}
           maxPolarAngle={Math.PI - Math.PI / 6}
-          target={[0, 0, 0]}
+          target={[0, framing.targetHeight, 0]}
         />
       </Canvas>
       
@@ -563,6 +841,14 @@ export default function VirtualWife() {
             </div>
           </div>
         )}
+        {isSpeaking && !isListening && (
+          <div className="bg-purple-500/90 text-white px-4 py-2 rounded-full text-sm backdrop-blur-md">
+            <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
+              <span>Speaking...</span>
+            </div>
+          </div>
+        )}
         {isPlaying && currentTrack && (
           <div className="bg-green-500/90 text-white px-4 py-2 rounded-full text-sm backdrop-blur-md">
             <div className="flex items-center space-x-2">
@@ -571,6 +857,14 @@ export default function VirtualWife() {
             </div>
           </div>
         )}
+        {!isPlaying && isAmbientMusic && (
+          <div className="bg-green-500/90 text-white px-4 py-2 rounded-full text-sm backdrop-blur-md">
+            <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 bg-white rounded-full animate-bounce"></div>
+              <span>Dancing to the music I hear</span>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Wife name display */}
@@ -578,7 +872,7 @@ export default function VirtualWife() {
         <div className="bg-black/50 backdrop-blur-md text-white px-4 py-2 rounded-lg">
           <h3 className="font-semibold text-lg">{settings.wifeName}</h3>
           <p className="text-sm text-white/70">Your Virtual Wife</p>
-          {isPlaying && (
+          {(isPlaying || isAmbientMusic) && (
             <p className="text-xs text-green-400 mt-1">🎵 Dancing to music</p>
           )}
         </div>
@@ -587,16 +881,58 @@ export default function VirtualWife() {
       {/* Emotion indicator */}
       <div className="absolute top-4 right-4">
         <div className="bg-purple-600/80 backdrop-blur-md text-white px-3 py-1 rounded-full text-sm">
-          {isPlaying ? 'Dancing' : currentEmotion === 'default' ? 'Relaxed' : currentEmotion.charAt(0).toUpperCase() + currentEmotion.slice(1)}
+          {isPlaying || isAmbientMusic ? 'Dancing' : currentEmotion === 'default' ? 'Relaxed' : currentEmotion.charAt(0).toUpperCase() + currentEmotion.slice(1)}
         </div>
       </div>
 
       {/* Animation Control Panel */}
       <div className="absolute bottom-4 right-4 space-y-2">
+        {showModels && (
+          <ModelLibraryPanel
+            models={models}
+            selectedId={modelId}
+            selectedMeta={modelMeta || selectedModel?.meta || null}
+            framing={framing}
+            error={modelError}
+            onUpload={handleUploadModels}
+            onSelect={(id) => updateSettings({ selectedModelId: id })}
+            onRemove={handleRemoveModel}
+            onFramingChange={updateFraming}
+            onResetFraming={resetFraming}
+            onClose={() => setShowModels(false)}
+          />
+        )}
+        {showLibrary && (
+          <AnimationLibraryPanel
+            animations={libraryAnimations}
+            emotions={Object.keys(emotionAnimations)}
+            playingClip={animationState.clip}
+            error={libraryError}
+            onImport={handleImportAnimations}
+            onPreview={setManualAnimation}
+            onUpdate={handleUpdateAnimation}
+            onRemove={handleRemoveAnimation}
+            onClose={() => setShowLibrary(false)}
+          />
+        )}
         <div className="bg-black/50 backdrop-blur-md text-white px-3 py-2 rounded-lg text-xs">
           <div className="flex items-center justify-between space-x-3">
-            <span>Animation: {manualAnimation || getAnimationForEmotion(currentEmotion, isPlaying)}</span>
-            <div className="relative">
+            <span>Animation: {animationState.clip || 'Loading...'}{animationState.state && ` (${animationState.state})`}</span>
+            <div className="relative flex items-center space-x-1">
+              <button
+                onClick={() => setShowModels(!showModels)}
+                className="flex items-center bg-purple-600 hover:bg-purple-700 px-2 py-1 rounded text-xs transition-colors"
+                title="Models"
+              >
+                <Users size={12} />
+              </button>
+              <button
+                onClick={() => setShowLibrary(!showLibrary)}
+                className="flex items-center bg-purple-600 hover:bg-purple-700 px-2 py-1 rounded text-xs transition-colors"
+                title="Animation library"
+              >
+                <Library size={12} />
+              </button>
               <button
                 onClick={() => setShowAnimationDropdown(!showAnimationDropdown)}
                 className="flex items-center space-x-1 bg-purple-600 hover:bg-purple-700 px-2 py-1 rounded text-xs transition-colors"
@@ -620,7 +956,7 @@ export default function VirtualWife() {
                         key={animation}
                         onClick={() => handleAnimationSelect(animation)}
                         className={`w-full text-left px-2 py-1 text-xs hover:bg-white/10 rounded transition-colors ${
-                          (manualAnimation || getAnimationForEmotion(currentEmotion, isPlaying)) === animation 
+                          animationState.clip === animation 
                             ? 'text-purple-400 bg-white/10' 
                             : 'text-white'
                         }`}
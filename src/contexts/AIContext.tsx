@@ -1,34 +1,114 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import OpenAI from 'openai';
-import Groq from 'groq-sdk';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { useSettings } from './SettingsContext';
+import { useAudio } from './AudioContext';
 import { AppAutomation, parseAppCommand } from '../utils/appAutomation';
 import { BrowserAutomation, parseBrowserCommand } from '../utils/browserAutomation';
 import { DeepResearch, parseResearchCommand } from '../utils/deepResearch';
-import { ClapDetector } from '../utils/clapDetection';
+import {
+  ChatMessage,
+  ConversationMemory,
+  buildSummaryPrompt,
+  withSummary
+} from '../utils/conversationMemory';
+import {
+  LongTermMemory,
+  MemoryCategory,
+  MemoryFact,
+  buildFactExtractionPrompt,
+  extractFactsHeuristically,
+  mightContainFacts,
+  parseExtractedFacts,
+  withMemories
+} from '../utils/longTermMemory';
+import { SentenceSpeaker } from '../utils/speechQueue';
+import { LanguageCandidate, getLanguageName, getSpeechLocale, identifyLanguage } from '../utils/languageDetection';
+import { resolveSpeechOptions } from '../speech/registry';
+import { LipSync } from '../speech/lipSync';
+import { isAbortError } from '../utils/streaming';
+import { resolveProviderChain } from '../llm/registry';
+import { FallbackResult, ProviderHealthMap, ProviderRouter } from '../llm/fallback';
+import { createAssistantTools, executeToolCall } from '../llm/tools';
+import { CompletionRequest, ToolRound } from '../llm/types';
+import { songToTrack } from '../music/localLibrary';
+import {
+  ReplyEmotion,
+  ReplyGesture,
+  StructuredReply,
+  StructuredReplyStream,
+  parseStructuredReply,
+  plainTextReply,
+  structuredReplyInstructions
+} from '../llm/structuredReply';
+
+// Upper bound on model -> tool -> model round trips for a single message
+const MAX_TOOL_ROUNDS = 3;
 
 interface AIContextType {
   sendMessage: (message: string) => Promise<string>;
+  cancelResponse: () => void;
   analyzeImage: (imageData: string) => Promise<string>;
   isListening: boolean;
   startListening: () => void;
   stopListening: () => void;
   currentResponse: string;
   currentEmotion: string;
+  emotionIntensity: number;
+  currentGesture: ReplyGesture;
   isProcessing: boolean;
+  // True while her voice is actually playing, not just while the reply is being generated
+  isSpeaking: boolean;
+  lipSync: LipSync;
+  conversationHistory: ChatMessage[];
+  clearConversation: () => void;
+  activeProvider: string;
+  // Language of the current turn: pinned, detected from the last message, or the primary language
+  activeLanguage: string;
+  providerHealth: ProviderHealthMap;
+  resetProviderHealth: (providerId?: string) => void;
+  memories: MemoryFact[];
+  rememberFact: (text: string, category?: MemoryCategory) => Promise<void>;
+  updateMemory: (id: string, updates: Partial<Pick<MemoryFact, 'text' | 'category'>>) => Promise<void>;
+  forgetMemory: (id: string) => Promise<void>;
+  clearMemories: () => Promise<void>;
 }
 
 const AIContext = createContext<AIContextType | undefined>(undefined);
 
 export function AIProvider({ children }: { children: ReactNode }) {
   const { settings } = useSettings();
+  const audio = useAudio();
+  const { clapDetector } = audio;
   const [isListening, setIsListening] = useState(false);
   const [currentResponse, setCurrentResponse] = useState('');
-  const [currentEmotion, setCurrentEmotion] = useState('greeting'); // Start with greeting
+  const [currentEmotion, setCurrentEmotion] = useState<ReplyEmotion>('greeting'); // Start with greeting
+  const [emotionIntensity, setEmotionIntensity] = useState(0.5);
+  const [currentGesture, setCurrentGesture] = useState<ReplyGesture>('none');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [lipSync] = useState(() => new LipSync());
   const [recognition, setRecognition] = useState<SpeechRecognition | null>(null);
-  const [clapDetector] = useState(new ClapDetector());
+  const [conversation] = useState(() => new ConversationMemory());
+  const [conversationHistory, setConversationHistory] = useState<ChatMessage[]>(conversation.messages);
+  const [longTermMemory] = useState(() => new LongTermMemory());
+  const [memories, setMemories] = useState<MemoryFact[]>([]);
+  const [providerHealth, setProviderHealth] = useState<ProviderHealthMap>({});
+  const [activeProvider, setActiveProvider] = useState('');
+  const [activeLanguage, setActiveLanguage] = useState(settings.languageOverride || settings.language);
+  const [providerRouter] = useState(() => new ProviderRouter(setProviderHealth));
+  // Summaries and fact extraction run in the background, so their failures stay out of the chat
+  // circuit breaker and provider health
+  const [backgroundRouter] = useState(() => new ProviderRouter());
+  const streamRef = useRef<AbortController | null>(null);
+  const speakerRef = useRef<SentenceSpeaker | null>(null);
+  // Speech recognition is set up once, so it reaches the latest sendMessage through a ref
+  const sendMessageRef = useRef<(message: string) => Promise<string>>();
+  // Returns her to a neutral mood after a reply; cleared when the next message starts
+  const moodResetRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Load remembered facts from IndexedDB
+  useEffect(() => {
+    longTermMemory.load().then(() => setMemories(longTermMemory.all()));
+  }, []);
 
   // Initialize with greeting emotion, then switch to default
   useEffect(() => {
@@ -39,7 +119,7 @@ export function AIProvider({ children }: { children: ReactNode }) {
     return () => clearTimeout(timer);
   }, []);
 
-  // Initialize speech recognition
+  // Initialize speech recognition once; its language follows activeLanguage below
   useEffect(() => {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
       const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -47,7 +127,6 @@ export function AIProvider({ children }: { children: ReactNode }) {
       
       recognitionInstance.continuous = true;
       recognitionInstance.interimResults = true;
-      recognitionInstance.lang = getLanguageCode(settings.language);
 
       recognitionInstance.onresult = (event) => {
         const transcript = Array.from(event.results)
@@ -55,7 +134,7 @@ export function AIProvider({ children }: { children: ReactNode }) {
           .join('');
 
         if (event.results[event.results.length - 1].isFinal) {
-          sendMessage(transcript);
+          sendMessageRef.current?.(transcript);
           setIsListening(false);
         }
       };
@@ -70,8 +149,27 @@ export function AIProvider({ children }: { children: ReactNode }) {
       };
 
       setRecognition(recognitionInstance);
+
+      return () => {
+        recognitionInstance.onresult = null;
+        recognitionInstance.onerror = null;
+        recognitionInstance.onend = null;
+        recognitionInstance.abort();
+      };
     }
-  }, [settings.language]);
+  }, []);
+
+  // Follow the primary language or a newly pinned one until the next message is detected
+  useEffect(() => {
+    setActiveLanguage(settings.languageOverride || settings.language);
+  }, [settings.language, settings.languageOverride]);
+
+  // The next listening turn expects the language of the last exchange
+  useEffect(() => {
+    if (recognition) {
+      recognition.lang = getSpeechLocale(activeLanguage);
+    }
+  }, [recognition, activeLanguage]);
 
   // Initialize clap detection
   useEffect(() => {
@@ -100,43 +198,11 @@ export function AIProvider({ children }: { children: ReactNode }) {
     };
   }, [settings.clapDetection, isListening, isProcessing]);
 
-  const getLanguageCode = (lang: string): string => {
-    const langMap: { [key: string]: string } = {
-      'en': 'en-US',
-      'hi': 'hi-IN',
-      'bh': 'hi-IN', // Bhojpuri uses Hindi recognition
-      'fr': 'fr-FR',
-      'ta': 'ta-IN',
-      'ur': 'ur-PK',
-      'ar': 'ar-SA',
-      'bn': 'bn-BD',
-      'es': 'es-ES',
-      'de': 'de-DE',
-      'id': 'id-ID',
-      'ja': 'ja-JP'
-    };
-    return langMap[lang] || 'en-US';
-  };
-
-  const detectEmotion = (text: string): string => {
-    const emotions = {
-      happy: ['happy', 'joy', 'excited', 'great', 'wonderful', 'amazing', 'love', 'awesome'],
-      sad: ['sad', 'cry', 'upset', 'depressed', 'down', 'hurt', 'disappointed'],
-      angry: ['angry', 'mad', 'furious', 'annoyed', 'frustrated', 'hate'],
-      laughing: ['funny', 'hilarious', 'laugh', 'joke', 'haha', 'lol', 'comedy'],
-      greeting: ['hello', 'hi', 'hey', 'good morning', 'good evening', 'namaste'],
-      kiss: ['kiss', 'love you', 'romantic', 'darling', 'sweetheart', 'honey'],
-      praying: ['pray', 'god', 'bless', 'spiritual', 'divine', 'worship'],
-      dancing: ['music', 'dance', 'song', 'play', 'party', 'celebration']
-    };
-
-    const lowerText = text.toLowerCase();
-    for (const [emotion, keywords] of Object.entries(emotions)) {
-      if (keywords.some(keyword => lowerText.includes(keyword))) {
-        return emotion;
-      }
-    }
-    return 'default';
+  // Pinned language wins, then a confident guess for this message, then the primary language
+  const resolveLanguage = (message: string): LanguageCandidate => {
+    if (settings.languageOverride) return { code: settings.languageOverride, confidence: 1, romanized: false };
+    if (settings.autoDetectLanguage) return identifyLanguage(message, settings.language);
+    return { code: settings.language, confidence: 1, romanized: false };
   };
 
   const handleAutomationCommands = async (message: string): Promise<string | null> => {
@@ -166,147 +232,319 @@ export function AIProvider({ children }: { children: ReactNode }) {
     return null;
   };
 
+  // Stream the request through the provider chain. Follow-up tool rounds are pinned to the
+  // provider that asked for the tools, since call ids are provider specific.
+  const requestCompletion = async (request: CompletionRequest, pinnedProviderId?: string): Promise<FallbackResult> => {
+    const chain = pinnedProviderId
+      ? resolveProviderChain(pinnedProviderId, [], settings.providerConfigs, settings.apiKey)
+      : resolveProviderChain(settings.aiProvider, settings.fallbackProviders, settings.providerConfigs, settings.apiKey);
+    return providerRouter.complete(chain, request);
+  };
+
+  const requestBackgroundCompletion = async (request: CompletionRequest): Promise<FallbackResult> => {
+    const chain = resolveProviderChain(settings.aiProvider, settings.fallbackProviders, settings.providerConfigs, settings.apiKey);
+    return backgroundRouter.complete(chain, request);
+  };
+
+  // Let the model call tools until it produces a final answer
+  const completeWithTools = async (request: CompletionRequest): Promise<FallbackResult> => {
+    const tools = createAssistantTools({
+      automationEnabled: settings.enableAppAutomation,
+      youtubeApiKey: settings.youtubeApiKey,
+      currentTrack: audio.currentTrack,
+      searchLocalMusic: (query) => audio.searchLocalMusic(query).map(songToTrack),
+      playTrack: audio.playTrack,
+      pauseTrack: audio.pauseTrack,
+      addToQueue: audio.addToQueue,
+      nextTrack: audio.nextTrack,
+      previousTrack: audio.previousTrack,
+      setShuffle: audio.setShuffle,
+      setRepeat: audio.setRepeat,
+      findPlaylist: audio.findPlaylist,
+      createPlaylist: (name) => audio.createPlaylist(name),
+      addToPlaylist: audio.addToPlaylist,
+      playPlaylist: audio.playPlaylist
+    });
+    const toolRounds: ToolRound[] = [];
+
+    let result = await requestCompletion({ ...request, tools });
+    while (result.toolCalls.length > 0 && toolRounds.length < MAX_TOOL_ROUNDS) {
+      const results = await Promise.all(result.toolCalls.map(call => executeToolCall(tools, call)));
+      toolRounds.push({ calls: result.toolCalls, results });
+      result = await requestCompletion({ ...request, tools, toolRounds }, result.providerId);
+    }
+
+    // If the model never summarized what it did, report the tool results directly
+    if (!result.text && toolRounds.length > 0) {
+      const summary = toolRounds.flatMap(round => round.results.map(r => r.content)).join('. ');
+      return { ...result, text: `${summary}. Anything else, darling?` };
+    }
+
+    return result;
+  };
+
+  const recordExchange = (message: string, response: string) => {
+    conversation.addMessage('user', message);
+    conversation.addMessage('assistant', response);
+    setConversationHistory(conversation.messages);
+
+    // Summarize older turns in the background once the window is full
+    conversation
+      .compact((previousSummary, messages) => requestBackgroundCompletion({
+        context: 'You summarize conversations concisely.',
+        history: [],
+        message: buildSummaryPrompt(previousSummary, messages, settings.userName, settings.wifeName)
+      }).then(result => result.text))
+      .then(() => setConversationHistory(conversation.messages));
+  };
+
+  // Pull durable facts out of the exchange, asking the model first and falling back to patterns
+  const learnFromExchange = async (message: string, response: string) => {
+    if (!settings.enableLongTermMemory || !mightContainFacts(message)) return;
+
+    let facts: { text: string; category: MemoryCategory }[] = [];
+    try {
+      const result = await requestBackgroundCompletion({
+        context: 'You extract facts for a personal memory store and reply only with JSON.',
+        history: [],
+        message: buildFactExtractionPrompt(message, response, longTermMemory.all().slice(0, 20), settings.userName)
+      });
+      facts = result.text ? parseExtractedFacts(result.text) : extractFactsHeuristically(message, settings.userName);
+    } catch (error) {
+      console.error('Error extracting facts:', error);
+      facts = extractFactsHeuristically(message, settings.userName);
+    }
+
+    if (facts.length === 0) return;
+    try {
+      for (const fact of facts) {
+        await longTermMemory.remember(fact.text, fact.category);
+      }
+    } catch (error) {
+      console.error('Error saving memories:', error);
+    }
+    setMemories(longTermMemory.all());
+  };
+
+  const rememberFact = async (text: string, category: MemoryCategory = 'other') => {
+    try {
+      await longTermMemory.remember(text, category);
+    } catch (error) {
+      console.error('Error saving memory:', error);
+    }
+    setMemories(longTermMemory.all());
+  };
+
+  const updateMemory = async (id: string, updates: Partial<Pick<MemoryFact, 'text' | 'category'>>) => {
+    try {
+      await longTermMemory.update(id, updates);
+    } catch (error) {
+      console.error('Error updating memory:', error);
+    }
+    setMemories(longTermMemory.all());
+  };
+
+  const forgetMemory = async (id: string) => {
+    try {
+      await longTermMemory.forget(id);
+    } catch (error) {
+      console.error('Error forgetting memory:', error);
+    }
+    setMemories(longTermMemory.all());
+  };
+
+  const clearMemories = async () => {
+    try {
+      await longTermMemory.clear();
+    } catch (error) {
+      console.error('Error clearing memories:', error);
+    }
+    setMemories(longTermMemory.all());
+  };
+
+  const clearConversation = () => {
+    conversation.clear();
+    setConversationHistory([]);
+  };
+
+  const createSpeaker = (language: string = activeLanguage) => {
+    const options = resolveSpeechOptions(settings, language);
+    return new SentenceSpeaker(options, {
+      onSpeakingChange: (speaking) => {
+        setIsSpeaking(speaking);
+        if (speaking) {
+          lipSync.start(options.engine);
+        } else {
+          lipSync.stop();
+        }
+      },
+      onWord: (word) => lipSync.word(word, options.rate)
+    });
+  };
+
+  // Abort the in-flight stream and silence any queued sentences
+  const cancelResponse = () => {
+    streamRef.current?.abort();
+    streamRef.current = null;
+    speakerRef.current?.cancel();
+    speakerRef.current = null;
+    setIsProcessing(false);
+  };
+
   const sendMessage = async (message: string): Promise<string> => {
+    // A new message always replaces the one still being answered
+    cancelResponse();
+    const { code: language, romanized } = resolveLanguage(message);
+    setActiveLanguage(language);
+    const controller = new AbortController();
+    const speaker = createSpeaker(language);
+    if (moodResetRef.current) clearTimeout(moodResetRef.current);
+    moodResetRef.current = null;
+    streamRef.current = controller;
+    speakerRef.current = speaker;
+
     setIsProcessing(true);
-    const detectedEmotion = detectEmotion(message);
-    setCurrentEmotion(detectedEmotion);
+    setCurrentResponse('');
+
+    let streamed = '';
+    // Only the "text" field of the structured reply is shown and spoken while streaming
+    const replyStream = new StructuredReplyStream((text) => {
+      streamed += text;
+      setCurrentResponse(streamed);
+      speaker.push(text);
+    }, setCurrentEmotion);
 
     try {
-      // Check for automation commands first
-      const automationResponse = await handleAutomationCommands(message);
+      // Explicit commands like "/open notepad" or "/research black holes" skip the model, so a casual
+      // "call" or "research" in conversation never triggers automation
+      const automationResponse = message.startsWith('/') ? await handleAutomationCommands(message.slice(1).trim()) : null;
       if (automationResponse) {
+        showReplyMood(plainTextReply(automationResponse));
         setCurrentResponse(automationResponse);
-        speakResponse(automationResponse);
-        saveTrainingData(message, automationResponse);
+        speakResponse(automationResponse, language);
+        saveTrainingData(message, automationResponse, language);
+        recordExchange(message, automationResponse);
         return automationResponse;
       }
 
       // Regular AI conversation
-      let response = '';
-      const context = `You are ${settings.wifeName}, a loving virtual wife. Your personality: ${settings.personality}. User context: ${settings.relationshipContext}. User's name: ${settings.userName}. 
+      const recalled = settings.enableLongTermMemory ? await longTermMemory.retrieve(message) : [];
+      const context = withMemories(withSummary(`You are ${settings.wifeName}, a loving virtual wife. Your personality: ${settings.personality}. User context: ${settings.relationshipContext}. User's name: ${settings.userName}. 
 
 You can help with:
 - Opening apps (Windows/Mobile)
 - Messaging and calling contacts
-- Playing music and entertainment
+- Playing music and entertainment, managing the play queue and playlists
 - Deep research on any topic
 - General conversation and support
 
-Always respond with love and care. Use terms of endearment like "darling", "sweetheart", "my love". Keep responses warm but concise.`;
-
-      switch (settings.aiProvider) {
-        case 'gemini':
-          if (settings.apiKey) {
-            const genAI = new GoogleGenerativeAI(settings.apiKey);
-            const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-            const result = await model.generateContent(`${context}\n\nUser: ${message}`);
-            response = result.response.text();
-          }
-          break;
-
-        case 'openai':
-          if (settings.apiKey) {
-            const openai = new OpenAI({ apiKey: settings.apiKey, dangerouslyAllowBrowser: true });
-            const completion = await openai.chat.completions.create({
-              model: 'gpt-3.5-turbo',
-              messages: [
-                { role: 'system', content: context },
-                { role: 'user', content: message }
-              ]
-            });
-            response = completion.choices[0]?.message?.content || '';
-          }
-          break;
-
-        case 'groq':
-          if (settings.apiKey) {
-            const groq = new Groq({ apiKey: settings.apiKey, dangerouslyAllowBrowser: true });
-            const completion = await groq.chat.completions.create({
-              model: 'mixtral-8x7b-32768',
-              messages: [
-                { role: 'system', content: context },
-                { role: 'user', content: message }
-              ]
-            });
-            response = completion.choices[0]?.message?.content || '';
-          }
-          break;
-
-        case 'together':
-          if (settings.apiKey) {
-            const response_data = await fetch('https://api.together.xyz/inference', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${settings.apiKey}`,
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify({
-                model: 'togethercomputer/RedPajama-INCITE-Chat-3B-v1',
-                prompt: `${context}\n\nUser: ${message}\nAssistant:`,
-                max_tokens: 512
-              })
-            });
-            const data = await response_data.json();
-            response = data.output?.choices?.[0]?.text || '';
-          }
-          break;
-      }
+When the user asks you to do one of these things and you have a matching tool, use it, then tell them what happened. Never use a tool just because a word like "call" or "research" appears in casual conversation.
+
+Always respond with love and care. Use terms of endearment like "darling", "sweetheart", "my love". Keep responses warm but concise.
+Reply in ${getLanguageName(language)}${romanized ? `, written in Latin script the way ${settings.userName} types it` : ''}.
 
-      if (!response) {
+${structuredReplyInstructions}`, conversation.summary), recalled, settings.userName);
+
+      const request: CompletionRequest = {
+        context,
+        history: conversation.messages,
+        message,
+        onToken: (token) => replyStream.push(token),
+        signal: controller.signal
+      };
+      const result = await completeWithTools(request);
+      setActiveProvider(result.providerId);
+
+      // Tool summaries and malformed JSON never went through the stream, so speak them now
+      const reply = replyStream.emittedText
+        ? replyStream.finish()
+        : parseStructuredReply(result.text) || plainTextReply(result.text);
+      let response = reply.text;
+
+      if (response) {
+        showReplyMood(reply);
+        if (!replyStream.emittedText) speaker.push(response);
+        speaker.flush();
+        recordExchange(message, response);
+        learnFromExchange(message, response);
+      } else {
+        setCurrentEmotion('greeting');
         response = `Hello ${settings.userName}, my love! I'm ${settings.wifeName}, your devoted virtual wife. I'd love to chat with you, but I need an API key to be configured in settings first. Once that's set up, I can help you with anything you need, darling! 💕`;
+        speakResponse(response, language);
       }
 
       setCurrentResponse(response);
-      speakResponse(response);
-      saveTrainingData(message, response);
+      saveTrainingData(message, response, language);
 
       return response;
     } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        // Superseded by a newer message or stopped by the user
+        return streamed;
+      }
+
       console.error('Error sending message:', error);
       const errorResponse = `I'm sorry ${settings.userName}, my darling. I'm having trouble connecting right now. Please check the settings and try again. I'm here for you always! 💕`;
+      speaker.cancel();
+      showReplyMood(plainTextReply(errorResponse));
       setCurrentResponse(errorResponse);
-      speakResponse(errorResponse);
+      speakResponse(errorResponse, language);
       return errorResponse;
     } finally {
-      setIsProcessing(false);
-      // Reset emotion to default after processing
-      setTimeout(() => {
-        setCurrentEmotion('default');
-      }, 3000);
+      // A newer message owns the mood now, so only the latest reply resets it
+      if (streamRef.current === controller) {
+        streamRef.current = null;
+        setIsProcessing(false);
+        moodResetRef.current = setTimeout(() => {
+          moodResetRef.current = null;
+          setCurrentEmotion('default');
+          setCurrentGesture('none');
+        }, 3000);
+      }
     }
   };
+  sendMessageRef.current = sendMessage;
 
-  const speakResponse = (response: string) => {
-    if ('speechSynthesis' in window && !settings.isMuted) {
-      const utterance = new SpeechSynthesisUtterance(response);
-      utterance.lang = getLanguageCode(settings.language);
-      utterance.volume = settings.voiceVolume / 100;
-      utterance.rate = 0.9; // Slightly slower for more natural speech
-      utterance.pitch = 1.1; // Slightly higher pitch for feminine voice
-      speechSynthesis.speak(utterance);
-    }
+  const showReplyMood = ({ emotion, intensity, gesture }: StructuredReply) => {
+    setCurrentEmotion(emotion);
+    setEmotionIntensity(intensity);
+    setCurrentGesture(gesture);
+  };
+
+  const speakResponse = (response: string, language: string = activeLanguage) => {
+    const speaker = createSpeaker(language);
+    speakerRef.current = speaker;
+    speaker.push(response);
+    speaker.flush();
   };
 
   const analyzeImage = async (imageData: string): Promise<string> => {
-    if (!settings.apiKey || settings.aiProvider !== 'gemini') {
-      return 'Image analysis requires Google Gemini API key, my love. Please set it up in settings so I can see what you\'re showing me! 💕';
+    // The chosen vision provider first, then the chat chain, keeping only providers that can see
+    const chain = resolveProviderChain(
+      settings.visionProvider || settings.aiProvider,
+      [settings.aiProvider, ...settings.fallbackProviders],
+      settings.providerConfigs,
+      settings.apiKey
+    ).filter(({ provider, config }) => provider.describeImage && (!provider.requiresApiKey || config.apiKey));
+
+    if (chain.length === 0) {
+      return 'Image analysis needs an AI provider with vision support, my love. Please set one up in settings so I can see what you\'re showing me! 💕';
     }
 
+    const prompt = `As ${settings.wifeName}, analyze this image and respond lovingly to ${settings.userName}. Describe what you see and how it makes you feel. Use terms of endearment and respond as a caring wife would.`;
+
     try {
-      const genAI = new GoogleGenerativeAI(settings.apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro-vision' });
-      
-      const result = await model.generateContent([
-        `As ${settings.wifeName}, analyze this image and respond lovingly to ${settings.userName}. Describe what you see and how it makes you feel. Use terms of endearment and respond as a caring wife would.`,
-        {
-          inlineData: {
-            data: imageData.split(',')[1],
-            mimeType: 'image/jpeg'
-          }
+      let lastError: unknown = null;
+      for (const { provider, config } of chain) {
+        try {
+          const description = await provider.describeImage!({ prompt, imageDataUrl: imageData }, config);
+          if (description) return description;
+        } catch (error) {
+          console.warn(`Vision request to ${provider.id} failed:`, error);
+          lastError = error;
         }
-      ]);
-      
-      return result.response.text();
+      }
+      throw lastError || new Error('No vision provider returned a description');
     } catch (error) {
       console.error('Error analyzing image:', error);
       return 'I had trouble seeing that image, my love. Could you try again? I really want to see what you\'re showing me, darling! 💕';
@@ -327,13 +565,13 @@ Always respond with love and care. Use terms of endearment like "darling", "swee
     }
   };
 
-  const saveTrainingData = (input: string, output: string) => {
+  const saveTrainingData = (input: string, output: string, language: string = activeLanguage) => {
     const trainingData = {
       timestamp: new Date().toISOString(),
       user: settings.userName,
       input,
       output,
-      language: settings.language,
+      language,
       emotion: currentEmotion
     };
 
@@ -346,13 +584,29 @@ Always respond with love and care. Use terms of endearment like "darling", "swee
   return (
     <AIContext.Provider value={{
       sendMessage,
+      cancelResponse,
       analyzeImage,
       isListening,
       startListening,
       stopListening,
       currentResponse,
       currentEmotion,
-      isProcessing
+      emotionIntensity,
+      currentGesture,
+      isProcessing,
+      isSpeaking,
+      lipSync,
+      conversationHistory,
+      clearConversation,
+      activeProvider,
+      activeLanguage,
+      providerHealth,
+      resetProviderHealth: (providerId?: string) => providerRouter.resetHealth(providerId),
+      memories,
+      rememberFact,
+      updateMemory,
+      forgetMemory,
+      clearMemories
     }}>
       {children}
     </AIContext.Provider>
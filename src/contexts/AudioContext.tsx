@@ -1,6 +1,19 @@
-import React, { createContext, useContext, useState, useRef, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useRef, useEffect, ReactNode } from 'react';
+import { useSettings } from './SettingsContext';
+import { resolveSpeechOptions } from '../speech/registry';
+import { SentenceSpeaker } from '../utils/speechQueue';
+import { BeatTracker } from '../utils/beatTracking';
+import { AmbientMusicDetector } from '../utils/musicDetection';
+import { ClapDetector } from '../utils/clapDetection';
+import { PlaybackEngine, PlaybackState } from '../music/types';
+import { YouTubePlaybackEngine } from '../music/engines/youtube';
+import { MediaPlaybackEngine } from '../music/engines/media';
+import { LocalPlaybackEngine } from '../music/engines/local';
+import { LocalMusicLibrary, StoredSong } from '../music/localLibrary';
+import { PlayQueue, RepeatMode } from '../music/queue';
+import { Playlist, PlaylistLibrary } from '../music/playlists';
 
-interface Track {
+export interface Track {
   id: string;
   title: string;
   url: string;
@@ -8,172 +21,427 @@ interface Track {
 }
 
 interface AudioContextType {
+  // True while the track plays or waits for more data mid-song
   isPlaying: boolean;
+  playbackState: PlaybackState;
+  isBuffering: boolean;
   currentTrack: Track | null;
+  // Seconds into the current track, and its length; 0 until known
+  position: number;
+  duration: number;
+  // Why the current track could not be played
+  playerError: string | null;
   volume: number;
   isMuted: boolean;
+  // Plays the track now, queued after the current one
   playTrack: (track: Track) => void;
   pauseTrack: () => void;
+  resumeTrack: () => void;
+  seek: (seconds: number) => void;
+  // The play queue in play order, and where the current track is in it
+  queue: Track[];
+  queueIndex: number;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  addToQueue: (track: Track) => void;
+  removeFromQueue: (index: number) => void;
+  clearQueue: () => void;
+  playQueueIndex: (index: number) => void;
+  // Return the track skipped to, or null when there is none
+  nextTrack: () => Track | null;
+  previousTrack: () => Track | null;
+  setShuffle: (shuffle: boolean) => void;
+  setRepeat: (mode: RepeatMode) => void;
+  playlists: Playlist[];
+  // Finds a playlist by its spoken name, e.g. "my favourites"
+  findPlaylist: (name: string) => Playlist | null;
+  createPlaylist: (name: string, tracks?: Track[]) => Promise<Playlist | null>;
+  renamePlaylist: (id: string, name: string) => Promise<void>;
+  deletePlaylist: (id: string) => Promise<void>;
+  addToPlaylist: (id: string, track: Track) => Promise<void>;
+  removeFromPlaylist: (id: string, trackId: string) => Promise<void>;
+  playPlaylist: (id: string, startIndex?: number) => void;
+  // Songs imported from the user's own files
+  localSongs: StoredSong[];
+  // Resolves with a message for each file that couldn't be imported
+  importMusic: (files: File[]) => Promise<string[]>;
+  removeSong: (id: string) => Promise<void>;
+  searchLocalMusic: (query: string) => StoredSong[];
   setVolume: (volume: number) => void;
   toggleMute: () => void;
+  // Where the YouTube player should be shown for video mode; off screen while null
+  setVideoHost: (element: HTMLElement | null) => void;
+  // Follows the tempo of whatever is playing; null without Web Audio
+  beatTracker: BeatTracker | null;
+  // Music the microphone hears from elsewhere in the room, when that is enabled
+  isAmbientMusic: boolean;
+  ambientBeatTracker: BeatTracker | null;
+  // Owns the microphone stream that clap and ambient music detection share
+  clapDetector: ClapDetector;
 }
 
 const AudioContext = createContext<AudioContextType | undefined>(undefined);
 
+const POSITION_INTERVAL = 500;
+// Going back this far into a track restarts it instead of going to the previous one
+const RESTART_SECONDS = 3;
+
 export function AudioProvider({ children }: { children: ReactNode }) {
-  const [isPlaying, setIsPlaying] = useState(false);
+  const { settings } = useSettings();
+  const [playbackState, setPlaybackState] = useState<PlaybackState>('idle');
   const [currentTrack, setCurrentTrack] = useState<Track | null>(null);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playerError, setPlayerError] = useState<string | null>(null);
   const [volume, setVolumeState] = useState(80);
   const [isMuted, setIsMuted] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const oscillatorRef = useRef<OscillatorNode | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const noteIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Music passes through this before the volume is applied, so the beat tracker hears the same
+  // level whatever the volume
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const [beatTracker, setBeatTracker] = useState<BeatTracker | null>(null);
+  const enginesRef = useRef<PlaybackEngine[]>([]);
+  const [engine, setEngine] = useState<PlaybackEngine | null>(null);
+  // Events from a track that has since been replaced are ignored
+  const loadTokenRef = useRef(0);
+  const playerHostRef = useRef<HTMLDivElement>(null);
+  const [videoHost, setVideoHost] = useState<HTMLElement | null>(null);
+  const [queue] = useState(() => new PlayQueue());
+  const [queueTracks, setQueueTracks] = useState<Track[]>([]);
+  const [queueIndex, setQueueIndex] = useState(-1);
+  const [shuffle, setShuffleState] = useState(false);
+  const [repeat, setRepeatState] = useState<RepeatMode>('off');
+  const [playlistLibrary] = useState(() => new PlaylistLibrary());
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [musicLibrary] = useState(() => new LocalMusicLibrary());
+  const [localSongs, setLocalSongs] = useState<StoredSong[]>([]);
+  const [clapDetector] = useState(() => new ClapDetector());
+  // Each time detection is turned on it gets a fresh detector, so a late initialize() or destroy()
+  // from an earlier session can't touch the current one
+  const musicDetectorRef = useRef<AmbientMusicDetector | null>(null);
+  const [isAmbientMusic, setIsAmbientMusic] = useState(false);
+  const [ambientBeatTracker, setAmbientBeatTracker] = useState<BeatTracker | null>(null);
 
-  // Initialize Web Audio API for generating tones
+  // Initialize Web Audio API and the playback engines
   useEffect(() => {
+    let tracker: BeatTracker | null = null;
+    let gain: GainNode | null = null;
     try {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      audioContextRef.current = audioContext;
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 1024;
+      analyser.smoothingTimeConstant = 0;
+      gain = audioContext.createGain();
+      analyser.connect(gain);
+      gain.connect(audioContext.destination);
+      analyserRef.current = analyser;
+      tracker = new BeatTracker(analyser);
+      setBeatTracker(tracker);
     } catch (error) {
-      console.log('Web Audio API not supported, using fallback');
+      console.log('Web Audio API not supported, playing without beat tracking');
     }
 
+    // The first engine that can play a track plays it
+    const media = new MediaPlaybackEngine(audioContextRef.current, analyserRef.current, gain);
+    enginesRef.current = [
+      new YouTubePlaybackEngine(playerHostRef.current!),
+      new LocalPlaybackEngine(musicLibrary, media),
+      media
+    ];
+
     return () => {
-      if (noteIntervalRef.current) {
-        clearInterval(noteIntervalRef.current);
-        noteIntervalRef.current = null;
-      }
-      if (oscillatorRef.current) {
-        oscillatorRef.current.stop();
-        oscillatorRef.current = null;
-      }
+      tracker?.stop();
+      enginesRef.current.forEach(engine => engine.stop());
+      enginesRef.current = [];
       if (audioContextRef.current) {
         audioContextRef.current.close();
       }
     };
   }, []);
 
-  const playTrack = async (track: Track) => {
-    setCurrentTrack(track);
-    
-    try {
-      // Clear any existing interval
-      if (noteIntervalRef.current) {
-        clearInterval(noteIntervalRef.current);
-        noteIntervalRef.current = null;
-      }
+  // Load saved playlists and the local music library from IndexedDB
+  useEffect(() => {
+    playlistLibrary.load().then(() => setPlaylists(playlistLibrary.all()));
+    musicLibrary.load().then(() => setLocalSongs(musicLibrary.all()));
+  }, []);
+
+  // Initialize ambient music detection
+  useEffect(() => {
+    if (!settings.ambientMusicDetection) return;
+    const musicDetector = new AmbientMusicDetector(clapDetector);
+    musicDetector.setSensitivity(settings.ambientMusicSensitivity);
+    musicDetectorRef.current = musicDetector;
+    let cancelled = false;
 
-      // Stop any currently playing audio
-      if (oscillatorRef.current) {
-        oscillatorRef.current.stop();
-        oscillatorRef.current = null;
+    musicDetector.initialize(setIsAmbientMusic).then((success) => {
+      // Turned off again while the microphone permission prompt was open
+      if (cancelled) {
+        musicDetector.destroy();
+        return;
       }
+      if (success) {
+        musicDetector.start();
+        setAmbientBeatTracker(musicDetector.beatTracker);
+      }
+    });
 
-      // Generate a pleasant musical tone using Web Audio API
-      if (audioContextRef.current) {
-        const audioContext = audioContextRef.current;
-        
-        // Resume audio context if suspended (required by some browsers)
-        if (audioContext.state === 'suspended') {
-          await audioContext.resume();
-        }
+    return () => {
+      cancelled = true;
+      musicDetector.destroy();
+      if (musicDetectorRef.current === musicDetector) musicDetectorRef.current = null;
+      setIsAmbientMusic(false);
+      setAmbientBeatTracker(null);
+    };
+  }, [settings.ambientMusicDetection]);
+
+  useEffect(() => {
+    musicDetectorRef.current?.setSensitivity(settings.ambientMusicSensitivity);
+  }, [settings.ambientMusicSensitivity]);
+
+  // The beat tracker only hears music that passes through Web Audio
+  useEffect(() => {
+    if (!beatTracker) return;
+    const isAudible = playbackState === 'playing' || playbackState === 'buffering';
+    if (isAudible && engine?.producesAudio) beatTracker.start();
+    else beatTracker.stop();
+  }, [playbackState, engine, beatTracker]);
+
+  useEffect(() => {
+    enginesRef.current.forEach(engine => engine.setVolume(isMuted ? 0 : volume / 100));
+  }, [volume, isMuted, engine]);
 
-        // Create oscillator for background music simulation
-        const oscillator = audioContext.createOscillator();
-        const gainNode = audioContext.createGain();
-        
-        // Connect nodes
-        oscillator.connect(gainNode);
-        gainNode.connect(audioContext.destination);
-        
-        // Set up a pleasant musical pattern
-        oscillator.type = 'sine';
-        oscillator.frequency.setValueAtTime(440, audioContext.currentTime); // A4 note
-        
-        // Create a simple melody pattern
-        const notes = [440, 493.88, 523.25, 587.33, 659.25]; // A, B, C, D, E
-        let noteIndex = 0;
-        
-        const playNextNote = () => {
-          if (oscillatorRef.current) {
-            const frequency = notes[noteIndex % notes.length];
-            oscillator.frequency.setValueAtTime(frequency, audioContext.currentTime);
-            noteIndex++;
-          }
-        };
-        
-        // Change notes every 2 seconds and store the interval reference
-        noteIntervalRef.current = setInterval(playNextNote, 2000);
-        
-        // Set volume
-        gainNode.gain.setValueAtTime((isMuted ? 0 : volume / 100) * 0.1, audioContext.currentTime);
-        
-        // Start playing
-        oscillator.start();
-        oscillatorRef.current = oscillator;
-        
-        // Handle oscillator end
-        oscillator.onended = () => {
-          if (noteIntervalRef.current) {
-            clearInterval(noteIntervalRef.current);
-            noteIntervalRef.current = null;
-          }
-          setIsPlaying(false);
-          oscillatorRef.current = null;
-        };
-        
-        setIsPlaying(true);
-        console.log('Playing simulated music for:', track.title);
-        
-        // Announce the track using speech synthesis
-        speakTrackInfo(track);
-        
-      } else {
-        // Fallback: just use speech synthesis
-        speakTrackInfo(track);
-        setIsPlaying(true);
-        
-        // Auto-stop after 30 seconds for demo
-        setTimeout(() => {
-          setIsPlaying(false);
-        }, 30000);
+  // Engines don't report progress, so it is read while a track is loaded
+  useEffect(() => {
+    if (!engine || playbackState === 'idle') return;
+    const update = () => {
+      setPosition(engine.position);
+      setDuration(engine.duration);
+    };
+    update();
+    const interval = setInterval(update, POSITION_INTERVAL);
+    return () => clearInterval(interval);
+  }, [engine, playbackState]);
+
+  // The YouTube player can't be moved in the page without reloading it, so it stays in this
+  // provider and is laid over the video slot while there is one, and kept off screen otherwise
+  useEffect(() => {
+    const host = playerHostRef.current;
+    if (!host) return;
+    const place = (left: number, top: number, width: number, height: number) => {
+      Object.assign(host.style, { left: `${left}px`, top: `${top}px`, width: `${width}px`, height: `${height}px` });
+    };
+
+    if (!videoHost || engine?.id !== 'youtube') {
+      place(-10000, 0, 320, 180);
+      return;
+    }
+    let frame = 0;
+    const follow = () => {
+      const rect = videoHost.getBoundingClientRect();
+      place(rect.left, rect.top, rect.width, rect.height);
+      frame = requestAnimationFrame(follow);
+    };
+    follow();
+    return () => cancelAnimationFrame(frame);
+  }, [videoHost, engine]);
+
+  // Move on when a track finishes, or play it again under repeat-one
+  useEffect(() => {
+    if (playbackState !== 'ended') return;
+    const next = queue.next(true);
+    syncQueue();
+    if (next) loadTrack(next, next !== currentTrack);
+  }, [playbackState]);
+
+  const syncQueue = () => {
+    setQueueTracks(queue.tracks);
+    setQueueIndex(queue.currentIndex);
+    setShuffleState(queue.isShuffled);
+    setRepeatState(queue.repeat);
+  };
+
+  const loadTrack = async (track: Track, announce: boolean = true) => {
+    const next = enginesRef.current.find(candidate => candidate.canPlay(track)) || null;
+    const token = ++loadTokenRef.current;
+    enginesRef.current.forEach(engine => engine.stop());
+
+    setCurrentTrack(track);
+    setEngine(next);
+    setPlayerError(null);
+    setPosition(0);
+    setDuration(0);
+
+    if (!next) {
+      setPlaybackState('idle');
+      setPlayerError('This track has no playable source');
+      return;
+    }
+
+    setPlaybackState('loading');
+    beatTracker?.reset();
+    try {
+      // Resume audio context if suspended (required by some browsers)
+      if (audioContextRef.current?.state === 'suspended') {
+        await audioContextRef.current.resume();
       }
-      
+      await next.load(track, {
+        onStateChange: (state) => {
+          if (token === loadTokenRef.current) setPlaybackState(state);
+        },
+        onError: (message) => {
+          if (token !== loadTokenRef.current) return;
+          setPlayerError(message);
+          setPlaybackState('idle');
+        }
+      });
+      console.log(`Playing ${track.title} with the ${next.id} engine`);
     } catch (error) {
       console.error('Error playing track:', error);
-      // Fallback: just set playing state for animation
-      speakTrackInfo(track);
-      setIsPlaying(true);
-      
-      // Auto-stop after 30 seconds
-      setTimeout(() => {
-        setIsPlaying(false);
-      }, 30000);
+      if (token !== loadTokenRef.current) return;
+      setPlayerError(error instanceof Error ? error.message : 'This track could not be played');
+      setPlaybackState('idle');
+      return;
     }
+
+    // Announce the track using speech synthesis
+    if (announce) speakTrackInfo(track);
+  };
+
+  const playTrack = (track: Track) => {
+    loadTrack(queue.playNow(track));
+    syncQueue();
   };
 
   const pauseTrack = () => {
-    // Clear the note interval
-    if (noteIntervalRef.current) {
-      clearInterval(noteIntervalRef.current);
-      noteIntervalRef.current = null;
+    engine?.pause();
+  };
+
+  const resumeTrack = () => {
+    if (!engine) return;
+    if (playbackState === 'idle' && currentTrack) {
+      loadTrack(currentTrack);
+      return;
     }
+    audioContextRef.current?.resume();
+    if (playbackState === 'ended') engine.seek(0);
+    engine.play();
+  };
+
+  const seek = (seconds: number) => {
+    engine?.seek(seconds);
+    setPosition(seconds);
+  };
+
+  const addToQueue = (track: Track) => {
+    queue.add(track);
+    syncQueue();
+    // Nothing was playing, so the queue starts with this track
+    if (!currentTrack) loadTrack(track);
+  };
+
+  const removeFromQueue = (index: number) => {
+    const wasCurrent = index === queue.currentIndex;
+    queue.remove(index);
+    syncQueue();
+    if (wasCurrent && queue.current) loadTrack(queue.current);
+  };
 
-    if (oscillatorRef.current) {
-      oscillatorRef.current.stop();
-      oscillatorRef.current = null;
+  const clearQueue = () => {
+    queue.clear();
+    syncQueue();
+  };
+
+  const playQueueIndex = (index: number) => {
+    const track = queue.jump(index);
+    syncQueue();
+    if (track) loadTrack(track);
+  };
+
+  const nextTrack = () => {
+    const track = queue.next();
+    syncQueue();
+    if (track) loadTrack(track);
+    return track;
+  };
+
+  const previousTrack = () => {
+    if (position > RESTART_SECONDS && currentTrack) {
+      seek(0);
+      return currentTrack;
     }
-    setIsPlaying(false);
+    const track = queue.previous();
+    syncQueue();
+    if (track) loadTrack(track);
+    return track;
+  };
+
+  const setShuffle = (shuffle: boolean) => {
+    queue.setShuffle(shuffle);
+    syncQueue();
+  };
+
+  const setRepeat = (mode: RepeatMode) => {
+    queue.setRepeat(mode);
+    syncQueue();
+  };
+
+  const createPlaylist = async (name: string, tracks: Track[] = []) => {
+    const playlist = await playlistLibrary.create(name, tracks);
+    setPlaylists(playlistLibrary.all());
+    return playlist;
+  };
+
+  const renamePlaylist = async (id: string, name: string) => {
+    await playlistLibrary.rename(id, name);
+    setPlaylists(playlistLibrary.all());
+  };
+
+  const deletePlaylist = async (id: string) => {
+    await playlistLibrary.remove(id);
+    setPlaylists(playlistLibrary.all());
+  };
+
+  const addToPlaylist = async (id: string, track: Track) => {
+    await playlistLibrary.addTrack(id, track);
+    setPlaylists(playlistLibrary.all());
+  };
+
+  const removeFromPlaylist = async (id: string, trackId: string) => {
+    await playlistLibrary.removeTrack(id, trackId);
+    setPlaylists(playlistLibrary.all());
+  };
+
+  const playPlaylist = (id: string, startIndex: number = 0) => {
+    const playlist = playlistLibrary.get(id);
+    if (!playlist) return;
+    const track = queue.replace(playlist.tracks, startIndex);
+    syncQueue();
+    if (track) loadTrack(track);
+  };
+
+  const importMusic = async (files: File[]) => {
+    const errors: string[] = [];
+    // One at a time, since each file is read whole for its tags
+    for (const file of files) {
+      try {
+        await musicLibrary.import(file);
+      } catch (error) {
+        console.error(`Failed to import ${file.name}:`, error);
+        errors.push(error instanceof Error ? error.message : `${file.name} could not be imported`);
+      }
+      setLocalSongs(musicLibrary.all());
+    }
+    return errors;
+  };
+
+  const removeSong = async (id: string) => {
+    await musicLibrary.remove(id);
+    setLocalSongs(musicLibrary.all());
   };
 
   const setVolume = (newVolume: number) => {
     setVolumeState(newVolume);
-    
-    // Update Web Audio API volume if playing
-    if (audioContextRef.current && oscillatorRef.current) {
-      const gainNodes = audioContextRef.current.destination;
-      // Note: In a real implementation, you'd store the gain node reference
-    }
   };
 
   const toggleMute = () => {
@@ -182,44 +450,67 @@ export function AudioProvider({ children }: { children: ReactNode }) {
 
   // Use text-to-speech to announce the track
   const speakTrackInfo = (track: Track) => {
-    if ('speechSynthesis' in window && !isMuted) {
-      // Stop any current speech
-      speechSynthesis.cancel();
-      
-      const utterance = new SpeechSynthesisUtterance(`Now playing ${track.title}. I'm going to dance for you!`);
-      utterance.volume = volume / 100;
-      utterance.rate = 1;
-      utterance.pitch = 1.2; // Slightly higher pitch for feminine voice
-      
-      // Use a female voice if available
-      const voices = speechSynthesis.getVoices();
-      const femaleVoice = voices.find(voice => 
-        voice.name.toLowerCase().includes('female') || 
-        voice.name.toLowerCase().includes('woman') ||
-        voice.name.toLowerCase().includes('zira') ||
-        voice.name.toLowerCase().includes('hazel')
-      );
-      
-      if (femaleVoice) {
-        utterance.voice = femaleVoice;
-      }
-      
-      speechSynthesis.speak(utterance);
-    }
+    if (isMuted) return;
+
+    // Same engine and voice as her replies, at the music player's volume
+    const speaker = new SentenceSpeaker({
+      ...resolveSpeechOptions(settings, settings.languageOverride || settings.language),
+      volume: volume / 100
+    });
+    // Queued after anything she is already saying rather than cutting her off
+    speaker.push(`Now playing ${track.title}. I'm going to dance for you!`);
+    speaker.flush();
   };
 
   return (
     <AudioContext.Provider value={{
-      isPlaying,
+      isPlaying: playbackState === 'playing' || playbackState === 'buffering',
+      playbackState,
+      isBuffering: playbackState === 'buffering' || playbackState === 'loading',
       currentTrack,
+      position,
+      duration,
+      playerError,
       volume,
       isMuted,
       playTrack,
       pauseTrack,
+      resumeTrack,
+      seek,
+      queue: queueTracks,
+      queueIndex,
+      shuffle,
+      repeat,
+      addToQueue,
+      removeFromQueue,
+      clearQueue,
+      playQueueIndex,
+      nextTrack,
+      previousTrack,
+      setShuffle,
+      setRepeat,
+      playlists,
+      findPlaylist: (name) => playlistLibrary.find(name),
+      createPlaylist,
+      renamePlaylist,
+      deletePlaylist,
+      addToPlaylist,
+      removeFromPlaylist,
+      playPlaylist,
+      localSongs,
+      importMusic,
+      removeSong,
+      searchLocalMusic: (query) => musicLibrary.search(query),
       setVolume,
-      toggleMute
+      toggleMute,
+      setVideoHost,
+      beatTracker,
+      isAmbientMusic,
+      ambientBeatTracker,
+      clapDetector
     }}>
       {children}
+      <div ref={playerHostRef} className="fixed z-40 bg-black overflow-hidden" />
     </AudioContext.Provider>
   );
 }
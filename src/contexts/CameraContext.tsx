@@ -1,14 +1,27 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { FaceTracker } from '../avatar/faceTracking';
+import { useSettings } from './SettingsContext';
 
 interface CameraContextType {
   isCameraEnabled: boolean;
   toggleCamera: () => void;
+  // Where the user's face is while the camera is on, for the avatar's eye contact
+  faceTracker: FaceTracker;
 }
 
 const CameraContext = createContext<CameraContextType | undefined>(undefined);
 
 export function CameraProvider({ children }: { children: ReactNode }) {
   const [isCameraEnabled, setIsCameraEnabled] = useState(false);
+  const [faceTracker] = useState(() => new FaceTracker());
+  const { settings } = useSettings();
+  const trackFace = isCameraEnabled && settings.lookAtEnabled && settings.lookAtFollowFace;
+
+  useEffect(() => {
+    if (!trackFace) return;
+    faceTracker.start();
+    return () => faceTracker.stop();
+  }, [trackFace]);
 
   const toggleCamera = () => {
     setIsCameraEnabled(prev => !prev);
@@ -17,7 +30,8 @@ export function CameraProvider({ children }: { children: ReactNode }) {
   return (
     <CameraContext.Provider value={{
       isCameraEnabled,
-      toggleCamera
+      toggleCamera,
+      faceTracker
     }}>
       {children}
     </CameraContext.Provider>
@@ -1,4 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { ProviderConfigMap } from '../llm/types';
+import { HttpSpeechConfig, VoicePreferences } from '../speech/types';
+import { DEFAULT_SPEECH_PITCH, DEFAULT_SPEECH_RATE } from '../speech/registry';
+import { BUNDLED_MODEL_ID, ModelFraming } from '../avatar/modelLibrary';
 
 interface Settings {
   // Profile
@@ -7,26 +11,55 @@ interface Settings {
   relationshipContext: string;
   
   // AI
-  aiProvider: 'gemini' | 'openai' | 'together' | 'groq';
+  aiProvider: string;
   apiKey: string;
+  providerConfigs: ProviderConfigMap;
+  fallbackProviders: string[];
+  // Empty means image analysis uses the chat provider
+  visionProvider: string;
   personality: string;
+  enableLongTermMemory: boolean;
   
   // Language
   language: string;
   autoDetectLanguage: boolean;
+  // Pinned from the control panel; overrides both detection and the primary language
+  languageOverride: string;
   
   // Audio
   clapDetection: boolean;
   voiceVolume: number;
   isMuted: boolean;
+  speechEngine: string;
+  httpSpeech: HttpSpeechConfig;
+  voicePreferences: VoicePreferences;
+  speechRate: number;
+  speechPitch: number;
   
   // Camera
   cameraEnabled: boolean;
   realtimeAnalysis: boolean;
+  // Eye contact: follows the pointer, or the user's face while the camera is on
+  lookAtEnabled: boolean;
+  lookAtFollowFace: boolean;
+  // Degrees she will turn to either side
+  lookAtRange: number;
+  // 0 (snappy) to 1 (lazy)
+  lookAtSmoothing: number;
+
+  // Avatar
+  // The bundled model or the id of an uploaded one
+  selectedModelId: string;
+  // Per model; models without an entry use the default framing
+  modelFraming: { [modelId: string]: ModelFraming };
   
   // Music
   youtubeApiKey: string;
   autoDance: boolean;
+  // Dance to music heard through the microphone, e.g. from another speaker
+  ambientMusicDetection: boolean;
+  // 1 (only loud, obvious music) to 10 (quiet background music too)
+  ambientMusicSensitivity: number;
   musicMode: 'audio' | 'video';
   
   // App Automation
@@ -46,16 +79,39 @@ const defaultSettings: Settings = {
   relationshipContext: 'We are a loving couple who enjoy spending time together.',
   aiProvider: 'gemini',
   apiKey: '',
+  providerConfigs: {},
+  fallbackProviders: [],
+  visionProvider: '',
   personality: 'Loving, caring, supportive, and understanding. Always speaks with warmth and affection.',
+  enableLongTermMemory: true,
   language: 'en',
   autoDetectLanguage: true,
+  languageOverride: '',
   clapDetection: true,
   voiceVolume: 80,
   isMuted: false,
+  speechEngine: 'browser',
+  httpSpeech: {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: '',
+    model: 'tts-1',
+    style: 'openai'
+  },
+  voicePreferences: {},
+  speechRate: DEFAULT_SPEECH_RATE,
+  speechPitch: DEFAULT_SPEECH_PITCH,
   cameraEnabled: false,
   realtimeAnalysis: false,
+  lookAtEnabled: true,
+  lookAtFollowFace: true,
+  lookAtRange: 35,
+  lookAtSmoothing: 0.5,
+  selectedModelId: BUNDLED_MODEL_ID,
+  modelFraming: {},
   youtubeApiKey: '',
   autoDance: true,
+  ambientMusicDetection: false,
+  ambientMusicSensitivity: 5,
   musicMode: 'audio',
   enableAppAutomation: true,
   defaultMessagingApp: 'whatsapp',
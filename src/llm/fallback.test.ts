@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { APIConnectionError } from 'openai';
+import { isRetryableError, ProviderRouter } from './fallback';
+import { LLMProvider, LLMProviderConfig } from './types';
+
+const config: LLMProviderConfig = {
+  apiKey: 'test-key',
+  model: 'test-model',
+  temperature: 0.7,
+  maxTokens: 256,
+  baseUrl: '',
+  visionModel: '',
+  toolCalling: false
+};
+
+function fakeProvider(complete: LLMProvider['complete']): LLMProvider {
+  return {
+    id: 'fake',
+    label: 'Fake',
+    defaultModel: 'test-model',
+    suggestedModels: [],
+    requiresApiKey: false,
+    supportsTools: false,
+    complete
+  } as LLMProvider;
+}
+
+describe('isRetryableError', () => {
+  it('retries network failures and retryable statuses', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new APIConnectionError({ message: 'Connection error.' }))).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+  });
+
+  it('does not retry programming errors or client errors', () => {
+    expect(isRetryableError(new TypeError("Cannot read properties of undefined (reading 'text')"))).toBe(false);
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError(new Error('Invalid API key'))).toBe(false);
+  });
+});
+
+describe('ProviderRouter', () => {
+  it('lets only one trial request through a half-open breaker', async () => {
+    const router = new ProviderRouter(undefined, { maxRetries: 0, failureThreshold: 1, cooldownMs: 0 });
+    const failing = fakeProvider(async () => {
+      throw new Error('Invalid API key');
+    });
+    await expect(router.complete([{ provider: failing, config }], { context: '', history: [], message: 'hi' }))
+      .rejects.toThrow('Invalid API key');
+
+    let finishTrial: () => void = () => {};
+    const complete = vi.fn(() => new Promise<{ text: string; toolCalls: [] }>((resolve) => {
+      finishTrial = () => resolve({ text: 'Hello', toolCalls: [] });
+    }));
+    const recovering = fakeProvider(complete);
+    const chain = [{ provider: recovering, config }];
+
+    const trial = router.complete(chain, { context: '', history: [], message: 'hi' });
+    await expect(router.complete(chain, { context: '', history: [], message: 'hi' }))
+      .rejects.toThrow('temporarily unavailable');
+    finishTrial();
+
+    await expect(trial).resolves.toMatchObject({ text: 'Hello', providerId: 'fake' });
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(router.isAvailable('fake')).toBe(true);
+  });
+
+  it('sends tools only to providers configured for tool calling', async () => {
+    const router = new ProviderRouter();
+    const complete = vi.fn(async () => ({ text: 'Hello', toolCalls: [] }));
+    const tools = [{ name: 'pause_music', description: 'Pause', parameters: { type: 'object' as const } }];
+    const request = { context: '', history: [], message: 'hi', tools };
+
+    await router.complete([{ provider: fakeProvider(complete), config }], request);
+    await router.complete([{ provider: fakeProvider(complete), config: { ...config, toolCalling: true } }], request);
+
+    expect((complete.mock.calls[0] as unknown[])[0]).toMatchObject({ tools: undefined });
+    expect((complete.mock.calls[1] as unknown[])[0]).toMatchObject({ tools });
+  });
+});
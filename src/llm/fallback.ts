@@ -0,0 +1,214 @@
+// Ordered provider fallback with retries, exponential backoff and a per-provider circuit breaker
+import { APIConnectionError as OpenAIConnectionError } from 'openai';
+import { APIConnectionError as GroqConnectionError } from 'groq-sdk';
+import { GoogleGenerativeAIError } from '@google/generative-ai';
+import { CompletionRequest, CompletionResult, LLMProvider, LLMProviderConfig } from './types';
+import { isAbortError } from '../utils/streaming';
+
+export type ProviderStatus = 'healthy' | 'degraded' | 'down' | 'unknown';
+
+export interface ProviderHealth {
+  status: ProviderStatus;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastLatencyMs?: number;
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  // While set and in the future the breaker is open and the provider is skipped
+  openUntil?: number;
+}
+
+export type ProviderHealthMap = { [providerId: string]: ProviderHealth };
+
+export interface FallbackResult extends CompletionResult {
+  providerId: string;
+}
+
+export interface RouterOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+const defaultOptions: RouterOptions = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  failureThreshold: 3,
+  cooldownMs: 30000
+};
+
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+// What a failed fetch rejects with: "Failed to fetch" (Chrome), "NetworkError when attempting to
+// fetch resource." (Firefox), "Load failed" (Safari)
+const NETWORK_ERROR = /failed to fetch|networkerror|load failed|network request failed/i;
+
+// Rate limits, server errors and dropped connections are worth another try
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  if (error instanceof OpenAIConnectionError || error instanceof GroqConnectionError) return true;
+  // The Gemini SDK wraps the fetch error, keeping its message
+  if (error instanceof TypeError || error instanceof GoogleGenerativeAIError) {
+    return NETWORK_ERROR.test(error.message);
+  }
+  return false;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+export class ProviderRouter {
+  private health: ProviderHealthMap = {};
+  // Providers with a half-open breaker whose trial request is still running
+  private trials = new Set<string>();
+  private options: RouterOptions;
+  private onHealthChange?: (health: ProviderHealthMap) => void;
+
+  constructor(onHealthChange?: (health: ProviderHealthMap) => void, options: Partial<RouterOptions> = {}) {
+    this.onHealthChange = onHealthChange;
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  getHealth(): ProviderHealthMap {
+    return { ...this.health };
+  }
+
+  resetHealth(providerId?: string): void {
+    if (providerId) {
+      delete this.health[providerId];
+    } else {
+      this.health = {};
+    }
+    this.notify();
+  }
+
+  isAvailable(providerId: string): boolean {
+    const openUntil = this.health[providerId]?.openUntil;
+    if (!openUntil) return true;
+    // Once the cooldown passes the breaker is half-open and lets one trial request through
+    return openUntil <= Date.now() && !this.trials.has(providerId);
+  }
+
+  // Try each provider in order until one answers. Returns an empty text when none is configured.
+  async complete(
+    chain: { provider: LLMProvider; config: LLMProviderConfig }[],
+    request: CompletionRequest
+  ): Promise<FallbackResult> {
+    let lastError: unknown = null;
+    let skippedOpenCircuit = false;
+    let streamedTokens = false;
+    const trackedRequest: CompletionRequest = {
+      ...request,
+      onToken: (token) => {
+        streamedTokens = true;
+        request.onToken?.(token);
+      }
+    };
+
+    for (const { provider, config } of chain) {
+      if (provider.requiresApiKey && !config.apiKey) continue;
+      if (!this.isAvailable(provider.id)) {
+        console.warn(`Skipping ${provider.id}: circuit open after repeated failures`);
+        skippedOpenCircuit = true;
+        continue;
+      }
+
+      // Tools go only to providers set up to call them; the rest answer in plain text
+      const attemptRequest = config.toolCalling ? trackedRequest : { ...trackedRequest, tools: undefined };
+
+      // A half-open breaker allows a single trial, without retries
+      const isTrial = this.health[provider.id]?.openUntil !== undefined;
+      if (isTrial) this.trials.add(provider.id);
+      try {
+        for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+          const startedAt = Date.now();
+          try {
+            const result = await provider.complete(attemptRequest, config);
+            this.recordSuccess(provider.id, Date.now() - startedAt);
+            return { ...result, providerId: provider.id };
+          } catch (error) {
+            if (request.signal?.aborted || isAbortError(error)) throw error;
+
+            lastError = error;
+            this.recordFailure(provider.id, error);
+
+            // A half-spoken reply can't be restarted on another provider without repeating itself
+            if (streamedTokens) throw error;
+            if (!isRetryableError(error) || attempt === this.options.maxRetries || !this.isAvailable(provider.id)) break;
+
+            const backoff = this.options.baseDelayMs * 2 ** attempt + Math.random() * 250;
+            console.warn(`${provider.id} failed (${getErrorStatus(error) ?? 'network'}), retrying in ${Math.round(backoff)}ms`);
+            await delay(backoff, request.signal);
+          }
+        }
+      } finally {
+        if (isTrial) this.trials.delete(provider.id);
+      }
+    }
+
+    if (lastError) throw lastError;
+    if (skippedOpenCircuit) throw new Error('All configured AI providers are temporarily unavailable');
+    return { text: '', toolCalls: [], providerId: '' };
+  }
+
+  private recordSuccess(providerId: string, latencyMs: number): void {
+    const current = this.current(providerId);
+    this.health[providerId] = {
+      ...current,
+      status: 'healthy',
+      consecutiveFailures: 0,
+      totalRequests: current.totalRequests + 1,
+      lastLatencyMs: latencyMs,
+      lastSuccessAt: new Date().toISOString(),
+      openUntil: undefined
+    };
+    this.notify();
+  }
+
+  private recordFailure(providerId: string, error: unknown): void {
+    const current = this.current(providerId);
+    const consecutiveFailures = current.consecutiveFailures + 1;
+    const tripped = consecutiveFailures >= this.options.failureThreshold;
+
+    this.health[providerId] = {
+      ...current,
+      status: tripped ? 'down' : 'degraded',
+      consecutiveFailures,
+      totalRequests: current.totalRequests + 1,
+      totalFailures: current.totalFailures + 1,
+      lastError: error instanceof Error ? error.message : String(error),
+      lastFailureAt: new Date().toISOString(),
+      openUntil: tripped ? Date.now() + this.options.cooldownMs : current.openUntil
+    };
+    this.notify();
+  }
+
+  private current(providerId: string): ProviderHealth {
+    return this.health[providerId] || {
+      status: 'unknown',
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0
+    };
+  }
+
+  private notify(): void {
+    this.onHealthChange?.(this.getHealth());
+  }
+}
@@ -0,0 +1,120 @@
+// Message and tool mapping shared by providers that speak the OpenAI chat completions API
+import { CompletionRequest, CompletionResult, ToolCall, ToolDefinition, VisionRequest } from './types';
+import { OpenAIChatMessage, toOpenAIMessages } from '../utils/conversationMemory';
+
+interface OpenAIToolCallMessage {
+  role: 'assistant';
+  content: string | null;
+  tool_calls: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+}
+
+interface OpenAIToolResultMessage {
+  role: 'tool';
+  tool_call_id: string;
+  content: string;
+}
+
+export type OpenAIToolMessage = OpenAIChatMessage | OpenAIToolCallMessage | OpenAIToolResultMessage;
+
+interface ChatCompletionChunk {
+  choices: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+  }[];
+}
+
+export function toOpenAITools(tools: ToolDefinition[] | undefined) {
+  if (!tools || tools.length === 0) return undefined;
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as unknown as { [key: string]: unknown }
+    }
+  }));
+}
+
+// Conversation plus any tool calls made earlier in this turn and their results
+export function toOpenAIToolMessages({ context, history, message, toolRounds = [] }: CompletionRequest): OpenAIToolMessage[] {
+  const messages: OpenAIToolMessage[] = toOpenAIMessages(context, history, message);
+
+  for (const round of toolRounds) {
+    messages.push({
+      role: 'assistant',
+      content: null,
+      tool_calls: round.calls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    });
+    for (const result of round.results) {
+      messages.push({ role: 'tool', tool_call_id: result.callId, content: result.content });
+    }
+  }
+
+  return messages;
+}
+
+// A single user turn holding the prompt and the image as an image_url content part
+export function toOpenAIVisionMessages({ prompt, imageDataUrl }: VisionRequest) {
+  return [{
+    role: 'user' as const,
+    content: [
+      { type: 'text' as const, text: prompt },
+      { type: 'image_url' as const, image_url: { url: imageDataUrl } }
+    ]
+  }];
+}
+
+function parseArguments(raw: string): { [name: string]: any } {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.warn('Could not parse tool arguments:', raw);
+    return {};
+  }
+}
+
+// Drain a streamed completion, forwarding text deltas and stitching tool call fragments together
+export async function collectChatCompletionStream(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  onToken?: (token: string) => void
+): Promise<CompletionResult> {
+  let text = '';
+  const partialCalls: { id: string; name: string; arguments: string }[] = [];
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta;
+    if (!delta) continue;
+
+    if (delta.content) {
+      text += delta.content;
+      onToken?.(delta.content);
+    }
+
+    for (const fragment of delta.tool_calls || []) {
+      const call = partialCalls[fragment.index] || (partialCalls[fragment.index] = { id: '', name: '', arguments: '' });
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.name += fragment.function.name;
+      if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+    }
+  }
+
+  const toolCalls: ToolCall[] = partialCalls
+    .filter(call => call && call.name)
+    .map((call, index) => ({
+      id: call.id || `call_${index}`,
+      name: call.name,
+      arguments: parseArguments(call.arguments)
+    }));
+
+  return { text: text.trim(), toolCalls };
+}
@@ -0,0 +1,53 @@
+import OpenAI from 'openai';
+import { LLMProvider, LLMProviderConfig } from '../types';
+import { collectChatCompletionStream, toOpenAITools, toOpenAIToolMessages, toOpenAIVisionMessages } from '../openaiCompatible';
+
+function createClient(config: LLMProviderConfig): OpenAI {
+  return new OpenAI({
+    baseURL: config.baseUrl,
+    // Local servers usually ignore the key, but the SDK refuses an empty one
+    apiKey: config.apiKey || 'not-needed',
+    dangerouslyAllowBrowser: true,
+    // Retries are handled by the fallback chain
+    maxRetries: 0
+  });
+}
+
+// Any server speaking the OpenAI chat completions API (Ollama, llama.cpp, LM Studio, vLLM...)
+export const customOpenAIProvider: LLMProvider = {
+  id: 'custom',
+  label: 'Custom OpenAI-compatible (Local)',
+  defaultModel: 'llama3',
+  suggestedModels: ['llama3', 'llama3.1', 'mistral', 'qwen2.5', 'phi3'],
+  requiresApiKey: false,
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  // Recent Ollama and llama.cpp builds accept `tools` for models trained on function calling, but
+  // reject the whole request for other models, so it stays off until turned on for the model in use
+  supportsTools: true,
+  toolsOptIn: true,
+  // llava-style multimodal models take images as image_url parts on the same endpoint
+  defaultVisionModel: 'llava',
+  suggestedVisionModels: ['llava', 'llava-llama3', 'llama3.2-vision', 'moondream', 'bakllava'],
+
+  async complete(request, config) {
+    const client = createClient(config);
+    const stream = await client.chat.completions.create({
+      model: config.model,
+      messages: toOpenAIToolMessages(request),
+      tools: toOpenAITools(request.tools),
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream: true
+    }, { signal: request.signal });
+    return collectChatCompletionStream(stream, request.onToken);
+  },
+
+  async describeImage(request, config) {
+    const completion = await createClient(config).chat.completions.create({
+      model: config.visionModel,
+      messages: toOpenAIVisionMessages(request),
+      max_tokens: config.maxTokens
+    }, { signal: request.signal });
+    return completion.choices[0]?.message?.content?.trim() || '';
+  }
+};
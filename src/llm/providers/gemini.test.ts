@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { geminiProvider } from './gemini';
+import { LLMProviderConfig, ToolRound } from '../types';
+
+const config: LLMProviderConfig = {
+  apiKey: 'test-key',
+  model: 'gemini-pro',
+  temperature: 0.7,
+  maxTokens: 256,
+  baseUrl: '',
+  visionModel: 'gemini-1.5-flash',
+  toolCalling: true
+};
+
+function streamResponse(text: string): Response {
+  const chunk = { candidates: [{ content: { role: 'model', parts: [{ text }] }, index: 0 }] };
+  return new Response(`data: ${JSON.stringify(chunk)}\r\n\r\n`, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' }
+  });
+}
+
+function toolRound(name: string, args: { [name: string]: any }, result: string, index: number): ToolRound {
+  const id = `${name}_${index}_0`;
+  return {
+    calls: [{ id, name, arguments: args }],
+    results: [{ callId: id, name, content: result }]
+  };
+}
+
+describe('geminiProvider.complete', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('replays two tool rounds with function responses under the function role', async () => {
+    const fetchMock = vi.fn(async () => streamResponse('Playing it now!'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await geminiProvider.complete({
+      context: 'You are a cheerful companion.',
+      history: [],
+      message: 'Play something by Queen',
+      toolRounds: [
+        toolRound('search_music', { query: 'Queen' }, 'Found "Bohemian Rhapsody"', 0),
+        toolRound('play_music', { query: 'Bohemian Rhapsody' }, 'Now playing "Bohemian Rhapsody"', 1)
+      ]
+    }, config);
+
+    expect(result).toEqual({ text: 'Playing it now!', toolCalls: [] });
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const { contents } = JSON.parse(init.body as string);
+    expect(contents.map((content: { role: string }) => content.role)).toEqual([
+      'user', 'model', 'user', 'model', 'function', 'model', 'function'
+    ]);
+    expect(contents[4].parts[0].functionResponse).toEqual({
+      name: 'search_music',
+      response: { result: 'Found "Bohemian Rhapsody"' }
+    });
+    expect(contents[6].parts[0].functionResponse.name).toBe('play_music');
+  });
+});
@@ -0,0 +1,77 @@
+import { Content, FunctionDeclarationSchema, GoogleGenerativeAI, Part } from '@google/generative-ai';
+import { LLMProvider, ToolCall } from '../types';
+import { toGeminiHistory } from '../../utils/conversationMemory';
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Google Gemini (Default)',
+  defaultModel: 'gemini-pro',
+  suggestedModels: ['gemini-pro', 'gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.0-flash'],
+  requiresApiKey: true,
+  supportsTools: true,
+  defaultVisionModel: 'gemini-1.5-flash',
+  suggestedVisionModels: ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.0-flash', 'gemini-pro-vision'],
+
+  async complete({ context, history, message, tools, toolRounds = [], onToken, signal }, config) {
+    const genAI = new GoogleGenerativeAI(config.apiKey);
+    const model = genAI.getGenerativeModel({
+      model: config.model,
+      generationConfig: {
+        temperature: config.temperature,
+        maxOutputTokens: config.maxTokens
+      },
+      tools: tools && tools.length > 0 ? [{
+        functionDeclarations: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters as unknown as FunctionDeclarationSchema
+        }))
+      }] : undefined
+    });
+
+    // Replay earlier tool rounds so the last set of function responses becomes the new message.
+    // Function responses go back into history under the 'function' role, as the SDK sends them.
+    const chatHistory: Content[] = toGeminiHistory(context, history);
+    let payload: string | Part[] = message;
+    toolRounds.forEach((round) => {
+      chatHistory.push(
+        typeof payload === 'string' ? { role: 'user', parts: [{ text: payload }] } : { role: 'function', parts: payload },
+        { role: 'model', parts: round.calls.map(call => ({ functionCall: { name: call.name, args: call.arguments } })) }
+      );
+      payload = round.results.map(result => ({
+        functionResponse: { name: result.name, response: { result: result.content } }
+      }));
+    });
+
+    const chat = model.startChat({ history: chatHistory });
+    const result = await chat.sendMessageStream(payload, { signal });
+
+    let text = '';
+    for await (const chunk of result.stream) {
+      const token = chunk.text();
+      if (!token) continue;
+      text += token;
+      onToken?.(token);
+    }
+
+    const response = await result.response;
+    const toolCalls: ToolCall[] = (response.functionCalls() || []).map((call, index) => ({
+      id: `${call.name}_${toolRounds.length}_${index}`,
+      name: call.name,
+      arguments: call.args as { [name: string]: any }
+    }));
+
+    return { text: text.trim(), toolCalls };
+  },
+
+  async describeImage({ prompt, imageDataUrl, signal }, config) {
+    const genAI = new GoogleGenerativeAI(config.apiKey);
+    const model = genAI.getGenerativeModel({ model: config.visionModel });
+    const [, mimeType = 'image/jpeg', data = ''] = imageDataUrl.match(/^data:([^;]+);base64,(.*)$/) || [];
+    const result = await model.generateContent([
+      prompt,
+      { inlineData: { mimeType, data } }
+    ], { signal });
+    return result.response.text().trim();
+  }
+};
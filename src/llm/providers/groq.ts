@@ -0,0 +1,37 @@
+import Groq from 'groq-sdk';
+import { LLMProvider } from '../types';
+import { collectChatCompletionStream, toOpenAITools, toOpenAIToolMessages, toOpenAIVisionMessages } from '../openaiCompatible';
+
+export const groqProvider: LLMProvider = {
+  id: 'groq',
+  label: 'Groq',
+  defaultModel: 'mixtral-8x7b-32768',
+  suggestedModels: ['mixtral-8x7b-32768', 'llama-3.1-8b-instant', 'llama-3.3-70b-versatile', 'gemma2-9b-it'],
+  requiresApiKey: true,
+  supportsTools: true,
+  defaultVisionModel: 'llama-3.2-11b-vision-preview',
+  suggestedVisionModels: ['llama-3.2-11b-vision-preview', 'llama-3.2-90b-vision-preview', 'meta-llama/llama-4-scout-17b-16e-instruct'],
+
+  async complete(request, config) {
+    const groq = new Groq({ apiKey: config.apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+    const stream = await groq.chat.completions.create({
+      model: config.model,
+      messages: toOpenAIToolMessages(request),
+      tools: toOpenAITools(request.tools),
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream: true
+    }, { signal: request.signal });
+    return collectChatCompletionStream(stream, request.onToken);
+  },
+
+  async describeImage(request, config) {
+    const groq = new Groq({ apiKey: config.apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+    const completion = await groq.chat.completions.create({
+      model: config.visionModel,
+      messages: toOpenAIVisionMessages(request),
+      max_tokens: config.maxTokens
+    }, { signal: request.signal });
+    return completion.choices[0]?.message?.content?.trim() || '';
+  }
+};
@@ -0,0 +1,37 @@
+import OpenAI from 'openai';
+import { LLMProvider } from '../types';
+import { collectChatCompletionStream, toOpenAITools, toOpenAIToolMessages, toOpenAIVisionMessages } from '../openaiCompatible';
+
+export const openaiProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI GPT',
+  defaultModel: 'gpt-3.5-turbo',
+  suggestedModels: ['gpt-3.5-turbo', 'gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo'],
+  requiresApiKey: true,
+  supportsTools: true,
+  defaultVisionModel: 'gpt-4o-mini',
+  suggestedVisionModels: ['gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo'],
+
+  async complete(request, config) {
+    const openai = new OpenAI({ apiKey: config.apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+    const stream = await openai.chat.completions.create({
+      model: config.model,
+      messages: toOpenAIToolMessages(request),
+      tools: toOpenAITools(request.tools),
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream: true
+    }, { signal: request.signal });
+    return collectChatCompletionStream(stream, request.onToken);
+  },
+
+  async describeImage(request, config) {
+    const openai = new OpenAI({ apiKey: config.apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+    const completion = await openai.chat.completions.create({
+      model: config.visionModel,
+      messages: toOpenAIVisionMessages(request),
+      max_tokens: config.maxTokens
+    }, { signal: request.signal });
+    return completion.choices[0]?.message?.content?.trim() || '';
+  }
+};
@@ -0,0 +1,77 @@
+import { LLMProvider, ProviderRequestError } from '../types';
+import { toTogetherPrompt } from '../../utils/conversationMemory';
+import { readServerSentEvents } from '../../utils/streaming';
+import { toOpenAIVisionMessages } from '../openaiCompatible';
+
+export const togetherProvider: LLMProvider = {
+  id: 'together',
+  label: 'Together AI',
+  defaultModel: 'togethercomputer/RedPajama-INCITE-Chat-3B-v1',
+  suggestedModels: [
+    'togethercomputer/RedPajama-INCITE-Chat-3B-v1',
+    'mistralai/Mixtral-8x7B-Instruct-v0.1',
+    'meta-llama/Llama-3-8b-chat-hf'
+  ],
+  requiresApiKey: true,
+  supportsTools: false,
+  defaultVisionModel: 'meta-llama/Llama-Vision-Free',
+  suggestedVisionModels: [
+    'meta-llama/Llama-Vision-Free',
+    'meta-llama/Llama-3.2-11B-Vision-Instruct-Turbo',
+    'meta-llama/Llama-3.2-90B-Vision-Instruct-Turbo'
+  ],
+
+  async complete({ context, history, message, onToken, signal }, config) {
+    const response_data = await fetch('https://api.together.xyz/inference', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: config.model,
+        prompt: toTogetherPrompt(context, history, message),
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        stop: ['\nUser:'],
+        stream_tokens: true
+      }),
+      signal
+    });
+    if (!response_data.ok) {
+      throw new ProviderRequestError(`Together request failed with status ${response_data.status}`, response_data.status);
+    }
+
+    let text = '';
+    await readServerSentEvents(response_data, (data) => {
+      const token: string | undefined = data.choices?.[0]?.text;
+      if (!token) return;
+      text += token;
+      onToken?.(token);
+    });
+    return { text: text.trim(), toolCalls: [] };
+  },
+
+  // Vision models are only served on the OpenAI-compatible chat endpoint
+  async describeImage(request, config) {
+    const response_data = await fetch('https://api.together.xyz/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: config.visionModel,
+        messages: toOpenAIVisionMessages(request),
+        max_tokens: config.maxTokens
+      }),
+      signal: request.signal
+    });
+    if (!response_data.ok) {
+      throw new ProviderRequestError(`Together vision request failed with status ${response_data.status}`, response_data.status);
+    }
+
+    const data = await response_data.json();
+    return (data.choices?.[0]?.message?.content || '').trim();
+  }
+};
@@ -0,0 +1,63 @@
+// Registry of available LLM providers
+import { LLMProvider, LLMProviderConfig, ProviderConfigMap } from './types';
+import { geminiProvider } from './providers/gemini';
+import { openaiProvider } from './providers/openai';
+import { groqProvider } from './providers/groq';
+import { togetherProvider } from './providers/together';
+import { customOpenAIProvider } from './providers/customOpenAI';
+
+const providers = new Map<string, LLMProvider>();
+
+export const DEFAULT_TEMPERATURE = 0.8;
+export const DEFAULT_MAX_TOKENS = 512;
+
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): LLMProvider | undefined {
+  return providers.get(id);
+}
+
+export function listProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
+
+// Merge saved overrides with provider defaults. The legacy global API key is used
+// when a hosted provider has no key of its own.
+export function resolveProviderConfig(
+  provider: LLMProvider,
+  savedConfigs: ProviderConfigMap,
+  fallbackApiKey: string = ''
+): LLMProviderConfig {
+  const saved = savedConfigs[provider.id] || {};
+  return {
+    apiKey: saved.apiKey || (provider.requiresApiKey ? fallbackApiKey : ''),
+    model: saved.model || provider.defaultModel,
+    temperature: saved.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: saved.maxTokens || DEFAULT_MAX_TOKENS,
+    baseUrl: saved.baseUrl || provider.defaultBaseUrl || '',
+    visionModel: saved.visionModel || provider.defaultVisionModel || '',
+    toolCalling: provider.supportsTools && (saved.toolCalling ?? !provider.toolsOptIn)
+  };
+}
+
+export function listVisionProviders(): LLMProvider[] {
+  return listProviders().filter(provider => !!provider.describeImage);
+}
+
+// Primary provider first, then the fallbacks in order, skipping unknown ids and duplicates
+export function resolveProviderChain(
+  primaryId: string,
+  fallbackIds: string[],
+  savedConfigs: ProviderConfigMap,
+  fallbackApiKey: string = ''
+): { provider: LLMProvider; config: LLMProviderConfig }[] {
+  const ids = Array.from(new Set([primaryId, ...fallbackIds]));
+  return ids
+    .map(id => getProvider(id))
+    .filter((provider): provider is LLMProvider => !!provider)
+    .map(provider => ({ provider, config: resolveProviderConfig(provider, savedConfigs, fallbackApiKey) }));
+}
+
+[geminiProvider, openaiProvider, togetherProvider, groqProvider, customOpenAIProvider].forEach(registerProvider);
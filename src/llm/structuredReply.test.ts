@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseStructuredReply, StructuredReplyStream } from './structuredReply';
+
+// Feed the output a few characters at a time, the way providers stream it
+function stream(output: string, chunkSize = 3) {
+  const onText = vi.fn();
+  const onEmotion = vi.fn();
+  const replyStream = new StructuredReplyStream(onText, onEmotion);
+  for (let i = 0; i < output.length; i += chunkSize) {
+    replyStream.push(output.slice(i, i + chunkSize));
+  }
+  const spoken = onText.mock.calls.map(([text]) => text).join('');
+  return { replyStream, spoken, onEmotion };
+}
+
+describe('StructuredReplyStream', () => {
+  it('speaks only the text field and reports the emotion before it', () => {
+    const output = '{"emotion": "happy", "intensity": 0.8, "gesture": "wave", "text": "Hello darling! How was work?"}';
+    const { replyStream, spoken, onEmotion } = stream(output);
+
+    expect(spoken).toBe('Hello darling! How was work?');
+    expect(onEmotion).toHaveBeenCalledOnce();
+    expect(onEmotion).toHaveBeenCalledWith('happy');
+    expect(replyStream.finish()).toEqual({ text: 'Hello darling! How was work?', emotion: 'happy', intensity: 0.8, gesture: 'wave' });
+  });
+
+  it('decodes escapes split across chunks', () => {
+    const output = '{"emotion": "kiss", "text": "She said \\"hi\\"\\nand \\u2764 you"}';
+    for (const chunkSize of [1, 2, 5]) {
+      expect(stream(output, chunkSize).spoken).toBe('She said "hi"\nand ❤ you');
+    }
+  });
+
+  it('reads JSON inside a code fence', () => {
+    const output = '```json\n{"emotion": "sad", "text": "I am here for you."}\n```';
+    const { replyStream, spoken } = stream(output);
+    expect(spoken).toBe('I am here for you.');
+    expect(replyStream.finish().emotion).toBe('sad');
+  });
+
+  it('passes plain text replies through untouched', () => {
+    const { replyStream, spoken, onEmotion } = stream('Haha, that is so funny!');
+    expect(spoken).toBe('Haha, that is so funny!');
+    expect(onEmotion).not.toHaveBeenCalled();
+    expect(replyStream.finish()).toMatchObject({ text: 'Haha, that is so funny!', emotion: 'laughing', gesture: 'none' });
+  });
+
+  it('falls back to what was spoken when the JSON is cut off', () => {
+    const { replyStream, spoken } = stream('{"emotion": "unknown", "text": "Good night swee');
+    expect(spoken).toBe('Good night swee');
+    expect(replyStream.finish()).toMatchObject({ text: 'Good night swee', gesture: 'none' });
+  });
+});
+
+describe('parseStructuredReply', () => {
+  it('fills in defaults for unknown or out of range metadata', () => {
+    expect(parseStructuredReply('{"emotion": "ecstatic", "intensity": 7, "gesture": "jump", "text": "Let us dance to this song!"}'))
+      .toEqual({ text: 'Let us dance to this song!', emotion: 'dancing', intensity: 1, gesture: 'none' });
+  });
+
+  it('rejects replies without text', () => {
+    expect(parseStructuredReply('{"emotion": "happy", "text": "  "}')).toBeNull();
+    expect(parseStructuredReply('no json here')).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+// Structured replies: the model answers with JSON carrying the spoken text plus how she feels
+// about it, so the avatar reacts to her own words rather than to the user's message
+
+export type ReplyEmotion = 'happy' | 'sad' | 'angry' | 'laughing' | 'greeting' | 'kiss' | 'praying' | 'dancing' | 'default';
+
+export type ReplyGesture = 'none' | 'wave' | 'blow_kiss' | 'pray' | 'dance' | 'laugh';
+
+export const replyEmotions: ReplyEmotion[] = ['happy', 'sad', 'angry', 'laughing', 'greeting', 'kiss', 'praying', 'dancing', 'default'];
+
+export const replyGestures: ReplyGesture[] = ['none', 'wave', 'blow_kiss', 'pray', 'dance', 'laugh'];
+
+export interface StructuredReply {
+  text: string;
+  emotion: ReplyEmotion;
+  // 0 (barely) to 1 (strongly)
+  intensity: number;
+  gesture: ReplyGesture;
+}
+
+const DEFAULT_INTENSITY = 0.5;
+
+// Metadata fields come before "text" so the avatar can react before the first sentence is spoken
+export const structuredReplyInstructions = `Reply with only a JSON object in exactly this shape, with "text" as the last field:
+{"emotion": "<one of ${replyEmotions.join(', ')}>", "intensity": <0 to 1>, "gesture": "<one of ${replyGestures.join(', ')}>", "text": "<what you say out loud>"}
+The emotion is how you feel while saying your reply (for example "sad" when consoling), not what the user feels.`;
+
+// Keyword fallback for replies that arrive as plain text
+export function detectEmotion(text: string): ReplyEmotion {
+  const emotions: { [emotion in ReplyEmotion]?: string[] } = {
+    happy: ['happy', 'joy', 'excited', 'great', 'wonderful', 'amazing', 'love', 'awesome'],
+    sad: ['sad', 'cry', 'upset', 'depressed', 'down', 'hurt', 'disappointed', 'sorry'],
+    angry: ['angry', 'mad', 'furious', 'annoyed', 'frustrated', 'hate'],
+    laughing: ['funny', 'hilarious', 'laugh', 'joke', 'haha', 'lol', 'comedy'],
+    greeting: ['hello', 'hi', 'hey', 'good morning', 'good evening', 'namaste'],
+    kiss: ['kiss', 'love you', 'romantic', 'darling', 'sweetheart', 'honey'],
+    praying: ['pray', 'god', 'bless', 'spiritual', 'divine', 'worship'],
+    dancing: ['music', 'dance', 'song', 'play', 'party', 'celebration']
+  };
+
+  const lowerText = text.toLowerCase();
+  for (const [emotion, keywords] of Object.entries(emotions)) {
+    if (keywords!.some(keyword => new RegExp(`\\b${keyword}\\b`).test(lowerText))) {
+      return emotion as ReplyEmotion;
+    }
+  }
+  return 'default';
+}
+
+export function plainTextReply(text: string): StructuredReply {
+  return { text: text.trim(), emotion: detectEmotion(text), intensity: DEFAULT_INTENSITY, gesture: 'none' };
+}
+
+// Validate a reply object against the schema, filling in defaults for missing or unknown metadata.
+// Returns null when there is no usable text.
+export function validateStructuredReply(value: unknown): StructuredReply | null {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as { [field: string]: unknown };
+  if (typeof candidate.text !== 'string' || !candidate.text.trim()) return null;
+
+  const emotion = String(candidate.emotion || '').toLowerCase() as ReplyEmotion;
+  const gesture = String(candidate.gesture || '').toLowerCase() as ReplyGesture;
+  const intensity = Number(candidate.intensity);
+
+  return {
+    text: candidate.text.trim(),
+    emotion: replyEmotions.includes(emotion) ? emotion : detectEmotion(candidate.text),
+    intensity: Number.isFinite(intensity) ? Math.min(1, Math.max(0, intensity)) : DEFAULT_INTENSITY,
+    gesture: replyGestures.includes(gesture) ? gesture : 'none'
+  };
+}
+
+export function parseStructuredReply(output: string): StructuredReply | null {
+  const match = output.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    return validateStructuredReply(JSON.parse(match[0]));
+  } catch (error) {
+    return null;
+  }
+}
+
+// Splits a streamed structured reply into spoken text as it arrives. Anything that doesn't start
+// like a JSON object is passed through untouched as plain text.
+export class StructuredReplyStream {
+  private onText: (token: string) => void;
+  private onEmotion?: (emotion: ReplyEmotion) => void;
+  private raw = '';
+  private mode: 'detecting' | 'json' | 'plain' = 'detecting';
+  private cursor = -1;
+  private textComplete = false;
+  private emotionReported = false;
+  private spoken = '';
+
+  constructor(onText: (token: string) => void, onEmotion?: (emotion: ReplyEmotion) => void) {
+    this.onText = onText;
+    this.onEmotion = onEmotion;
+  }
+
+  push(token: string): void {
+    this.raw += token;
+
+    if (this.mode === 'detecting') {
+      // Wait until we can tell a JSON object (optionally in a code fence) from prose
+      if (/^\s*(`{1,3}(j(s(on?)?)?)?\s*)?$/i.test(this.raw)) return;
+      this.mode = /^\s*(```(json)?\s*)?\{/i.test(this.raw) ? 'json' : 'plain';
+      if (this.mode === 'plain') {
+        this.emit(this.raw);
+        return;
+      }
+    } else if (this.mode === 'plain') {
+      this.emit(token);
+      return;
+    }
+
+    this.readJson();
+  }
+
+  finish(): StructuredReply {
+    if (this.mode !== 'json') return plainTextReply(this.raw);
+    return parseStructuredReply(this.raw)
+      || (this.spoken ? plainTextReply(this.spoken) : plainTextReply(this.raw.replace(/```(json)?/gi, '')));
+  }
+
+  // Text already handed to onText, so callers know whether anything still needs speaking
+  get emittedText(): string {
+    return this.spoken;
+  }
+
+  private readJson(): void {
+    if (!this.emotionReported) {
+      const emotion = this.raw.match(/"emotion"\s*:\s*"(\w+)"/);
+      if (emotion && replyEmotions.includes(emotion[1].toLowerCase() as ReplyEmotion)) {
+        this.emotionReported = true;
+        this.onEmotion?.(emotion[1].toLowerCase() as ReplyEmotion);
+      }
+    }
+
+    if (this.textComplete) return;
+    if (this.cursor < 0) {
+      const start = this.raw.match(/"text"\s*:\s*"/);
+      if (!start) return;
+      this.cursor = start.index! + start[0].length;
+    }
+
+    // Decode the JSON string incrementally, stopping before an escape sequence that is cut off
+    let decoded = '';
+    while (this.cursor < this.raw.length) {
+      const char = this.raw[this.cursor];
+      if (char === '"') {
+        this.textComplete = true;
+        break;
+      }
+      if (char !== '\\') {
+        decoded += char;
+        this.cursor++;
+        continue;
+      }
+
+      const escape = this.raw[this.cursor + 1];
+      if (escape === undefined) break;
+      if (escape === 'u') {
+        const hex = this.raw.slice(this.cursor + 2, this.cursor + 6);
+        if (hex.length < 4) break;
+        decoded += String.fromCharCode(parseInt(hex, 16));
+        this.cursor += 6;
+        continue;
+      }
+      const escapes: { [key: string]: string } = { n: '\n', t: '\t', r: '', b: '', f: '' };
+      decoded += escape in escapes ? escapes[escape] : escape;
+      this.cursor += 2;
+    }
+
+    if (decoded) this.emit(decoded);
+  }
+
+  private emit(text: string): void {
+    this.spoken += text;
+    this.onText(text);
+  }
+}
@@ -0,0 +1,250 @@
+// Assistant capabilities exposed to the model as callable tools
+import { ToolCall, ToolDefinition, ToolResult } from './types';
+import { AppAutomation, AppCommand, detectPlatform } from '../utils/appAutomation';
+import { BrowserAutomation, BrowserCommand } from '../utils/browserAutomation';
+import { DeepResearch, ResearchCommand } from '../utils/deepResearch';
+import { searchYouTube, toTrack } from '../utils/youtubeSearch';
+import { Track } from '../contexts/AudioContext';
+import { Playlist, FAVORITES_PLAYLIST } from '../music/playlists';
+import { RepeatMode, repeatModes } from '../music/queue';
+
+export interface Tool extends ToolDefinition {
+  execute: (args: { [name: string]: any }) => Promise<string>;
+}
+
+export interface AssistantToolOptions {
+  automationEnabled: boolean;
+  youtubeApiKey: string;
+  currentTrack: Track | null;
+  searchLocalMusic: (query: string) => Track[];
+  playTrack: (track: Track) => void;
+  pauseTrack: () => void;
+  addToQueue: (track: Track) => void;
+  nextTrack: () => Track | null;
+  previousTrack: () => Track | null;
+  setShuffle: (shuffle: boolean) => void;
+  setRepeat: (mode: RepeatMode) => void;
+  findPlaylist: (name: string) => Playlist | null;
+  createPlaylist: (name: string) => Promise<Playlist | null>;
+  addToPlaylist: (id: string, track: Track) => Promise<void>;
+  playPlaylist: (id: string) => void;
+}
+
+const appTool: Tool = {
+  name: 'control_app',
+  description: 'Open an app on the user\'s device, or message, call or video call one of their contacts. Only use when the user asks for it.',
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['open', 'message', 'call', 'videocall'], description: 'What to do with the app' },
+      app: { type: 'string', description: 'App name, e.g. whatsapp, instagram, phone, camera, spotify' },
+      contact: { type: 'string', description: 'Contact name or number for message and call actions' },
+      message: { type: 'string', description: 'Message text to send' }
+    },
+    required: ['action', 'app']
+  },
+  execute: (args) => AppAutomation.executeCommand({
+    platform: detectPlatform(),
+    action: args.action as AppCommand['action'],
+    app: String(args.app || ''),
+    contact: args.contact,
+    message: args.message
+  })
+};
+
+const browserTool: Tool = {
+  name: 'control_browser',
+  description: 'Open the web browser, search the web, navigate to a website, take a screenshot or save a page as PDF.',
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['open', 'search', 'navigate', 'screenshot', 'pdf'] },
+      target: { type: 'string', description: 'URL to open or navigate to' },
+      query: { type: 'string', description: 'Search query for the search action' }
+    },
+    required: ['action']
+  },
+  execute: (args) => BrowserAutomation.executeCommand({
+    action: args.action as BrowserCommand['action'],
+    target: args.target,
+    query: args.query
+  })
+};
+
+const researchTool: Tool = {
+  name: 'deep_research',
+  description: 'Research a topic across multiple sources and save a report for the user. Use only when the user explicitly wants research done.',
+  parameters: {
+    type: 'object',
+    properties: {
+      topic: { type: 'string', description: 'What to research' },
+      depth: { type: 'string', enum: ['basic', 'detailed', 'comprehensive'] },
+      outputFormat: { type: 'string', enum: ['summary', 'detailed', 'pdf'] }
+    },
+    required: ['topic']
+  },
+  execute: (args) => DeepResearch.conductResearch({
+    topic: String(args.topic || ''),
+    depth: (args.depth as ResearchCommand['depth']) || 'detailed',
+    sources: DeepResearch.sources,
+    outputFormat: (args.outputFormat as ResearchCommand['outputFormat']) || 'detailed'
+  })
+};
+
+function createMusicTools(options: AssistantToolOptions): Tool[] {
+  const { youtubeApiKey, currentTrack, playTrack, pauseTrack } = options;
+
+  // The user's own music comes first, then YouTube. Without an API key YouTube search only
+  // returns placeholder videos, so there is nothing real to play.
+  const findTrack = async (query: string): Promise<Track | null> => {
+    const [local] = options.searchLocalMusic(query);
+    if (local) return local;
+    if (!youtubeApiKey) return null;
+    const [video] = await searchYouTube(query, youtubeApiKey);
+    return video ? toTrack(video) : null;
+  };
+
+  return [
+    {
+      name: 'play_music',
+      description: 'Search for a song, artist or genre and start playing the best match. She dances while music plays.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Song, artist or genre to play, e.g. "hindi romantic songs"' }
+        },
+        required: ['query']
+      },
+      execute: async (args) => {
+        const track = await findTrack(String(args.query || ''));
+        if (!track) return `No music found for "${args.query}"`;
+        playTrack(track);
+        return `Now playing "${track.title}"`;
+      }
+    },
+    {
+      name: 'pause_music',
+      description: 'Stop the music that is currently playing.',
+      parameters: { type: 'object', properties: {} },
+      execute: async () => {
+        pauseTrack();
+        return 'Music paused';
+      }
+    },
+    {
+      name: 'skip_track',
+      description: 'Skip to the next song in the queue, or go back to the previous one.',
+      parameters: {
+        type: 'object',
+        properties: {
+          direction: { type: 'string', enum: ['next', 'previous'] }
+        },
+        required: ['direction']
+      },
+      execute: async (args) => {
+        const track = args.direction === 'previous' ? options.previousTrack() : options.nextTrack();
+        if (!track) return args.direction === 'previous' ? 'There is no previous song' : 'There are no more songs in the queue';
+        return `Now playing "${track.title}"`;
+      }
+    },
+    {
+      name: 'queue_music',
+      description: 'Search for a song and add it to the queue, to play after the songs already lined up.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Song or artist to queue' }
+        },
+        required: ['query']
+      },
+      execute: async (args) => {
+        const track = await findTrack(String(args.query || ''));
+        if (!track) return `No music found for "${args.query}"`;
+        options.addToQueue(track);
+        return `Added "${track.title}" to the queue`;
+      }
+    },
+    {
+      name: 'set_playback_mode',
+      description: 'Turn shuffle on or off, or change repeat: off, all (repeat the queue) or one (repeat the current song).',
+      parameters: {
+        type: 'object',
+        properties: {
+          shuffle: { type: 'boolean' },
+          repeat: { type: 'string', enum: repeatModes }
+        }
+      },
+      execute: async (args) => {
+        const changes: string[] = [];
+        if (typeof args.shuffle === 'boolean') {
+          options.setShuffle(args.shuffle);
+          changes.push(`shuffle ${args.shuffle ? 'on' : 'off'}`);
+        }
+        if (repeatModes.includes(args.repeat)) {
+          options.setRepeat(args.repeat as RepeatMode);
+          changes.push(`repeat ${args.repeat}`);
+        }
+        return changes.length ? `Set ${changes.join(' and ')}` : 'Nothing to change';
+      }
+    },
+    {
+      name: 'add_to_playlist',
+      description: `Save a song to one of the user's playlists, creating the playlist if it doesn't exist. Without a query, saves the song that is playing now. "My favorites" is the "${FAVORITES_PLAYLIST}" playlist.`,
+      parameters: {
+        type: 'object',
+        properties: {
+          playlist: { type: 'string', description: 'Playlist name' },
+          query: { type: 'string', description: 'Song to search for and save instead of the current one' }
+        },
+        required: ['playlist']
+      },
+      execute: async (args) => {
+        const track = args.query ? await findTrack(String(args.query)) : currentTrack;
+        if (!track) return args.query ? `No music found for "${args.query}"` : 'No song is playing';
+        const playlist = options.findPlaylist(String(args.playlist || '')) || await options.createPlaylist(String(args.playlist || ''));
+        if (!playlist) return 'A playlist name is needed';
+        await options.addToPlaylist(playlist.id, track);
+        return `Saved "${track.title}" to ${playlist.name}`;
+      }
+    },
+    {
+      name: 'play_playlist',
+      description: 'Play one of the user\'s saved playlists from the start.',
+      parameters: {
+        type: 'object',
+        properties: {
+          playlist: { type: 'string', description: 'Playlist name' }
+        },
+        required: ['playlist']
+      },
+      execute: async (args) => {
+        const playlist = options.findPlaylist(String(args.playlist || ''));
+        if (!playlist) return `There is no playlist called "${args.playlist}"`;
+        if (playlist.tracks.length === 0) return `${playlist.name} has no songs yet`;
+        options.playPlaylist(playlist.id);
+        return `Playing ${playlist.name}, starting with "${playlist.tracks[0].title}"`;
+      }
+    }
+  ];
+}
+
+export function createAssistantTools(options: AssistantToolOptions): Tool[] {
+  const automationTools = options.automationEnabled ? [appTool, browserTool, researchTool] : [];
+  return [...automationTools, ...createMusicTools(options)];
+}
+
+// Tools never throw into the conversation - failures are reported back to the model as text
+export async function executeToolCall(tools: Tool[], call: ToolCall): Promise<ToolResult> {
+  const tool = tools.find(t => t.name === call.name);
+  if (!tool) {
+    return { callId: call.id, name: call.name, content: `Unknown tool "${call.name}"` };
+  }
+
+  try {
+    const content = await tool.execute(call.arguments);
+    return { callId: call.id, name: call.name, content };
+  } catch (error) {
+    console.error(`Tool ${call.name} failed:`, error);
+    return { callId: call.id, name: call.name, content: `Failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
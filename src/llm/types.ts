@@ -0,0 +1,101 @@
+// Shared types for pluggable LLM providers
+import { ChatMessage } from '../utils/conversationMemory';
+
+export interface LLMProviderConfig {
+  apiKey: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl: string;
+  visionModel: string;
+  // Send tool definitions with chat requests; always off for providers without function calling
+  toolCalling: boolean;
+}
+
+// Saved per-provider overrides, keyed by provider id
+export type ProviderConfigMap = { [providerId: string]: Partial<LLMProviderConfig> };
+
+// JSON Schema subset understood by OpenAI, Groq and Gemini function calling
+export interface ToolParameterSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: ToolParameterSchema;
+  properties?: { [name: string]: ToolParameterSchema };
+  required?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: { [name: string]: any };
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  content: string;
+}
+
+// One model turn that requested tools, and what those tools returned
+export interface ToolRound {
+  calls: ToolCall[];
+  results: ToolResult[];
+}
+
+export interface CompletionRequest {
+  context: string;
+  history: ChatMessage[];
+  message: string;
+  tools?: ToolDefinition[];
+  toolRounds?: ToolRound[];
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface VisionRequest {
+  prompt: string;
+  // data: URL as produced by canvas/webcam screenshots
+  imageDataUrl: string;
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+export interface LLMProvider {
+  id: string;
+  label: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  // Providers that talk to a user-supplied server expose a base URL field
+  defaultBaseUrl?: string;
+  supportsTools: boolean;
+  // Servers where function calling depends on the model start with it off until enabled in settings
+  toolsOptIn?: boolean;
+  complete: (request: CompletionRequest, config: LLMProviderConfig) => Promise<CompletionResult>;
+  // Image understanding, using config.visionModel rather than the chat model
+  defaultVisionModel?: string;
+  suggestedVisionModels?: string[];
+  describeImage?: (request: VisionRequest, config: LLMProviderConfig) => Promise<string>;
+}
+
+// Thrown by fetch-based providers so the fallback chain can read the HTTP status
+export class ProviderRequestError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,75 @@
+import { Track } from '../../contexts/AudioContext';
+import { PlaybackEngine, PlaybackEvents } from '../types';
+import { LocalMusicLibrary, LOCAL_TRACK_PREFIX } from '../localLibrary';
+import { MediaPlaybackEngine } from './media';
+
+// Plays songs from the local music library through the media engine, from an object URL made
+// for the stored file when the song starts
+export class LocalPlaybackEngine implements PlaybackEngine {
+  id = 'local';
+  private library: LocalMusicLibrary;
+  private media: MediaPlaybackEngine;
+  private url: string | null = null;
+  // Bumped on every load so a slow library lookup can't replace a newer track
+  private loadToken = 0;
+
+  constructor(library: LocalMusicLibrary, media: MediaPlaybackEngine) {
+    this.library = library;
+    this.media = media;
+  }
+
+  get producesAudio(): boolean {
+    return this.media.producesAudio;
+  }
+
+  canPlay(track: Track): boolean {
+    return track.url.startsWith(LOCAL_TRACK_PREFIX);
+  }
+
+  async load(track: Track, events: PlaybackEvents): Promise<void> {
+    this.stop();
+    const token = ++this.loadToken;
+    const song = await this.library.get(track.url.slice(LOCAL_TRACK_PREFIX.length));
+    if (token !== this.loadToken) return;
+    if (!song) throw new Error('This song is no longer in your music library');
+
+    this.revokeUrl();
+    this.url = URL.createObjectURL(song.data);
+    await this.media.load({ ...track, url: this.url }, events);
+  }
+
+  play(): void {
+    this.media.play();
+  }
+
+  pause(): void {
+    this.media.pause();
+  }
+
+  stop(): void {
+    this.loadToken++;
+    this.media.stop();
+    this.revokeUrl();
+  }
+
+  seek(seconds: number): void {
+    this.media.seek(seconds);
+  }
+
+  setVolume(volume: number): void {
+    this.media.setVolume(volume);
+  }
+
+  get position(): number {
+    return this.media.position;
+  }
+
+  get duration(): number {
+    return this.media.duration;
+  }
+
+  private revokeUrl(): void {
+    if (this.url) URL.revokeObjectURL(this.url);
+    this.url = null;
+  }
+}
@@ -0,0 +1,129 @@
+import { Track } from '../../contexts/AudioContext';
+import { PlaybackEngine, PlaybackEvents } from '../types';
+
+const isCrossOrigin = (url: string) => {
+  try {
+    return new URL(url, window.location.href).origin !== window.location.origin && /^https?:/.test(url);
+  } catch (error) {
+    return false;
+  }
+};
+
+// Plays direct audio links and local files through an HTMLAudioElement routed into the Web Audio
+// graph, where the beat tracker listens. Servers that don't send CORS headers can't be routed
+// (Web Audio would only hear silence), so those play from a second, unrouted element instead.
+export class MediaPlaybackEngine implements PlaybackEngine {
+  id = 'media';
+  private routed = new Audio();
+  private plain = new Audio();
+  private current: HTMLAudioElement = this.routed;
+  private source: MediaElementAudioSourceNode | null = null;
+  private context: AudioContext | null;
+  private output: AudioNode | null;
+  private gain: GainNode | null;
+  private events: PlaybackEvents | null = null;
+  private track: Track | null = null;
+
+  // Routed audio goes into output; gain sets its volume. Without a context nothing is routed.
+  constructor(context: AudioContext | null, output: AudioNode | null, gain: GainNode | null) {
+    this.context = context;
+    this.output = output;
+    this.gain = gain;
+    this.routed.crossOrigin = 'anonymous';
+    [this.routed, this.plain].forEach((audio) => {
+      audio.preload = 'auto';
+      audio.addEventListener('playing', () => this.forward(audio, 'playing'));
+      audio.addEventListener('pause', () => this.forward(audio, audio.ended ? 'ended' : 'paused'));
+      audio.addEventListener('waiting', () => this.forward(audio, 'buffering'));
+      audio.addEventListener('ended', () => this.forward(audio, 'ended'));
+      audio.addEventListener('error', () => this.handleError(audio));
+    });
+  }
+
+  get producesAudio(): boolean {
+    return this.current === this.routed && !!this.source;
+  }
+
+  canPlay(track: Track): boolean {
+    return !!track.url;
+  }
+
+  async load(track: Track, events: PlaybackEvents): Promise<void> {
+    this.stop();
+    this.track = track;
+    this.events = events;
+    events.onStateChange('loading');
+
+    if (this.context && this.output && !this.source) {
+      this.source = this.context.createMediaElementSource(this.routed);
+      this.source.connect(this.output);
+    }
+    this.current = this.source ? this.routed : this.plain;
+    this.current.src = track.url;
+    await this.start();
+  }
+
+  play(): void {
+    this.start();
+  }
+
+  pause(): void {
+    this.current.pause();
+  }
+
+  stop(): void {
+    this.events = null;
+    // Reloading pauses without queueing a pause event that would reach the next track
+    [this.routed, this.plain].forEach((audio) => {
+      audio.removeAttribute('src');
+      audio.load();
+    });
+  }
+
+  seek(seconds: number): void {
+    this.current.currentTime = seconds;
+  }
+
+  setVolume(volume: number): void {
+    this.plain.volume = volume;
+    if (this.gain) this.gain.gain.value = volume;
+    else this.routed.volume = volume;
+  }
+
+  get position(): number {
+    return this.current.currentTime || 0;
+  }
+
+  get duration(): number {
+    return Number.isFinite(this.current.duration) ? this.current.duration : 0;
+  }
+
+  private async start(): Promise<void> {
+    try {
+      await this.current.play();
+    } catch (error) {
+      // Load failures arrive as an error event; this only catches blocked autoplay
+      if (error instanceof DOMException && error.name === 'NotAllowedError') {
+        this.events?.onError('The browser blocked playback; press play to start the music');
+      }
+    }
+  }
+
+  private forward(audio: HTMLAudioElement, state: Parameters<PlaybackEvents['onStateChange']>[0]): void {
+    if (audio === this.current) this.events?.onStateChange(state);
+  }
+
+  private handleError(audio: HTMLAudioElement): void {
+    if (audio !== this.current || !this.track || !this.events) return;
+
+    // Most likely a server without CORS headers: play it unrouted, without beat tracking
+    if (audio === this.routed && isCrossOrigin(this.track.url)) {
+      console.warn('Playing without beat tracking, the server does not allow cross-origin audio:', this.track.url);
+      this.current = this.plain;
+      this.plain.src = this.track.url;
+      this.start();
+      return;
+    }
+    this.events.onError('This audio file could not be played');
+  }
+}
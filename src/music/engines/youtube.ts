@@ -0,0 +1,158 @@
+import { Track } from '../../contexts/AudioContext';
+import { PlaybackEngine, PlaybackEvents, PlaybackState } from '../types';
+
+// The parts of the IFrame Player API used here; the API script defines window.YT at runtime
+interface YouTubePlayer {
+  loadVideoById: (videoId: string) => void;
+  playVideo: () => void;
+  pauseVideo: () => void;
+  stopVideo: () => void;
+  seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+  setVolume: (volume: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+}
+
+declare global {
+  interface Window {
+    YT?: { Player: new (element: HTMLElement, options: any) => YouTubePlayer };
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+const PLAYER_STATES: { [state: number]: PlaybackState } = {
+  0: 'ended',
+  1: 'playing',
+  2: 'paused',
+  3: 'buffering'
+};
+
+const PLAYER_ERRORS: { [code: number]: string } = {
+  2: 'This video link is not valid',
+  5: 'This video cannot be played in the browser',
+  100: 'This video was removed or made private',
+  101: 'The owner does not allow this video to be played in other apps',
+  150: 'The owner does not allow this video to be played in other apps'
+};
+
+let apiPromise: Promise<void> | null = null;
+
+function loadYouTubeAPI(): Promise<void> {
+  if (window.YT?.Player) return Promise.resolve();
+  if (!apiPromise) {
+    apiPromise = new Promise((resolve, reject) => {
+      const previous = window.onYouTubeIframeAPIReady;
+      window.onYouTubeIframeAPIReady = () => {
+        previous?.();
+        resolve();
+      };
+      const script = document.createElement('script');
+      script.src = 'https://www.youtube.com/iframe_api';
+      script.onerror = () => {
+        apiPromise = null;
+        reject(new Error('Could not load the YouTube player'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return apiPromise;
+}
+
+export function youtubeVideoId(url: string): string | null {
+  const match = url.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]+)/);
+  return match ? match[1] : null;
+}
+
+// Plays YouTube videos in one IFrame player that lives for the whole session, so switching
+// between audio and video mode only moves it on or off screen. The audio stays inside the
+// cross-origin iframe, out of reach of the beat tracker.
+export class YouTubePlaybackEngine implements PlaybackEngine {
+  id = 'youtube';
+  producesAudio = false;
+  private host: HTMLElement;
+  private player: Promise<YouTubePlayer> | null = null;
+  private loaded: YouTubePlayer | null = null;
+  private events: PlaybackEvents | null = null;
+  private volume = 1;
+
+  // The player's iframe is created inside host
+  constructor(host: HTMLElement) {
+    this.host = host;
+  }
+
+  canPlay(track: Track): boolean {
+    return !!youtubeVideoId(track.url);
+  }
+
+  async load(track: Track, events: PlaybackEvents): Promise<void> {
+    const videoId = youtubeVideoId(track.url);
+    if (!videoId) throw new Error('Not a YouTube link');
+    this.events = events;
+    events.onStateChange('loading');
+
+    const player = await this.getPlayer();
+    // A newer track may have been loaded while the player was starting up
+    if (this.events !== events) return;
+    player.setVolume(this.volume * 100);
+    player.loadVideoById(videoId);
+  }
+
+  play(): void {
+    this.loaded?.playVideo();
+  }
+
+  pause(): void {
+    this.loaded?.pauseVideo();
+  }
+
+  stop(): void {
+    this.events = null;
+    this.loaded?.stopVideo();
+  }
+
+  seek(seconds: number): void {
+    this.loaded?.seekTo(seconds, true);
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume;
+    this.loaded?.setVolume(volume * 100);
+  }
+
+  get position(): number {
+    return this.loaded?.getCurrentTime() || 0;
+  }
+
+  get duration(): number {
+    return this.loaded?.getDuration() || 0;
+  }
+
+  private getPlayer(): Promise<YouTubePlayer> {
+    if (!this.player) {
+      this.player = loadYouTubeAPI().then(() => new Promise<YouTubePlayer>((resolve) => {
+        const element = document.createElement('div');
+        this.host.appendChild(element);
+        new window.YT!.Player(element, {
+          width: '100%',
+          height: '100%',
+          playerVars: { autoplay: 1, controls: 1, playsinline: 1, rel: 0 },
+          events: {
+            onReady: (event: { target: YouTubePlayer }) => {
+              this.loaded = event.target;
+              resolve(event.target);
+            },
+            onStateChange: (event: { data: number }) => {
+              const state = PLAYER_STATES[event.data];
+              if (state) this.events?.onStateChange(state);
+            },
+            onError: (event: { data: number }) => {
+              this.events?.onError(PLAYER_ERRORS[event.data] || 'YouTube could not play this video');
+            }
+          }
+        });
+      }));
+      this.player.catch(() => { this.player = null; });
+    }
+    return this.player;
+  }
+}
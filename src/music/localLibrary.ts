@@ -0,0 +1,156 @@
+// Music the user imported from their own files, kept in IndexedDB with the tags read from each file
+import { v4 as uuidv4 } from 'uuid';
+import { IndexedDBStore } from '../utils/indexedDBStore';
+import { Track } from '../contexts/AudioContext';
+import { AudioTags, readAudioTags } from './tags';
+
+export const musicFileExtensions = ['.mp3', '.ogg', '.oga', '.opus', '.flac', '.m4a'];
+
+// Local tracks are played by id, since a file's object URL only lasts until the page reloads
+export const LOCAL_TRACK_PREFIX = 'local:';
+
+const COVER_SIZE = 256;
+
+const DEFAULT_COVER = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><rect width="64" height="64" fill="#7c3aed"/>' +
+  '<path d="M26 44a6 6 0 1 1-4-5.7V18l20-4v24a6 6 0 1 1-4-5.7V20.9l-12 2.4z" fill="#fff" opacity=".8"/></svg>'
+)}`;
+
+export interface StoredSong {
+  id: string;
+  title: string;
+  artist: string;
+  album: string;
+  // Seconds; 0 when the browser couldn't tell
+  duration: number;
+  fileName: string;
+  // Scaled down JPEG data URL
+  cover?: string;
+  // Kept as a Blob rather than an ArrayBuffer so listing the library doesn't read every song into memory
+  data: Blob;
+  createdAt: string;
+}
+
+export function isMusicFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return musicFileExtensions.some(extension => name.endsWith(extension));
+}
+
+export function songToTrack(song: StoredSong): Track {
+  return {
+    id: LOCAL_TRACK_PREFIX + song.id,
+    title: song.artist ? `${song.artist} - ${song.title}` : song.title,
+    url: LOCAL_TRACK_PREFIX + song.id,
+    thumbnail: song.cover || DEFAULT_COVER
+  };
+}
+
+// Untagged files are often named "01 - Artist - Title.mp3"
+function namesFromFileName(fileName: string): { title: string; artist: string } {
+  const base = fileName.replace(/\.[^.]+$/, '').replace(/^\d{1,3}[\s.\-_]+/, '').trim();
+  const parts = base.split(' - ');
+  return parts.length >= 2
+    ? { artist: parts[0].trim(), title: parts.slice(1).join(' - ').trim() }
+    : { artist: '', title: base || fileName };
+}
+
+async function scaledCover(cover: NonNullable<AudioTags['cover']>): Promise<string | undefined> {
+  try {
+    const bitmap = await createImageBitmap(new Blob([cover.data], { type: cover.mimeType }));
+    const scale = Math.min(1, COVER_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.85);
+  } catch (error) {
+    console.warn('Could not read cover art:', error);
+    return undefined;
+  }
+}
+
+function readDuration(blob: Blob): Promise<number> {
+  return new Promise((resolve) => {
+    const audio = new Audio();
+    const url = URL.createObjectURL(blob);
+    const done = (duration: number) => {
+      clearTimeout(timeout);
+      URL.revokeObjectURL(url);
+      audio.removeAttribute('src');
+      resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    const timeout = setTimeout(() => done(0), 5000);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done(0);
+    audio.src = url;
+  });
+}
+
+export class LocalMusicLibrary {
+  private store = new IndexedDBStore<StoredSong>('virtualWifeMusic', 'songs');
+  private songs: StoredSong[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.getAll()
+        .then(songs => { this.songs = songs; })
+        .catch(error => console.error('Error loading music library:', error));
+    }
+    return this.loaded;
+  }
+
+  // By artist, then album, then title
+  all(): StoredSong[] {
+    return [...this.songs].sort((a, b) =>
+      a.artist.localeCompare(b.artist) || a.album.localeCompare(b.album) || a.title.localeCompare(b.title));
+  }
+
+  async get(id: string): Promise<StoredSong | undefined> {
+    await this.load();
+    return this.songs.find(song => song.id === id);
+  }
+
+  // A file imported before, say with the same folder, isn't stored twice
+  async import(file: File): Promise<StoredSong> {
+    await this.load();
+    if (!isMusicFile(file)) throw new Error(`${file.name} is not an MP3, OGG, FLAC or M4A file`);
+    const existing = this.songs.find(song => song.fileName === file.name && song.data.size === file.size);
+    if (existing) return existing;
+
+    const tags = readAudioTags(await file.arrayBuffer());
+    const fromName = namesFromFileName(file.name);
+    const song: StoredSong = {
+      id: uuidv4(),
+      title: tags.title || fromName.title,
+      artist: tags.artist || fromName.artist,
+      album: tags.album || '',
+      duration: await readDuration(file),
+      fileName: file.name,
+      cover: tags.cover ? await scaledCover(tags.cover) : undefined,
+      data: file,
+      createdAt: new Date().toISOString()
+    };
+    // Saved first, so a failed write doesn't list a song that is gone after a reload
+    await this.store.put(song);
+    this.songs.push(song);
+    return song;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    this.songs = this.songs.filter(song => song.id !== id);
+    await this.store.delete(id);
+  }
+
+  // Songs whose title, artist or album contain every word of the query; all songs for an empty one
+  search(query: string): StoredSong[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return this.all().filter((song) => {
+      const text = `${song.title} ${song.artist} ${song.album} ${song.fileName}`.toLowerCase();
+      return words.every(word => text.includes(word));
+    });
+  }
+}
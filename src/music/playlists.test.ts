@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Playlist, PlaylistLibrary } from './playlists';
+
+const saved: Playlist[] = ['Soft Rock Mix', 'Rock', 'My Favourites', 'Road Trip'].map((name, index) => ({
+  id: `playlist${index}`,
+  name,
+  tracks: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+}));
+
+vi.mock('../utils/indexedDBStore', () => ({
+  IndexedDBStore: class {
+    getAll = async () => saved;
+    put = async () => {};
+    delete = async () => {};
+  }
+}));
+
+describe('PlaylistLibrary.find', () => {
+  it('prefers an exact name over one that only contains the query', async () => {
+    const library = new PlaylistLibrary();
+    await library.load();
+    expect(library.find('rock')?.name).toBe('Rock');
+  });
+
+  it('matches spoken names and falls back to the shortest partial match', async () => {
+    const library = new PlaylistLibrary();
+    await library.load();
+    expect(library.find('favorite songs')?.name).toBe('My Favourites');
+    expect(library.find('trip')?.name).toBe('Road Trip');
+    expect(library.find('ro')?.name).toBe('Rock');
+    expect(library.find('jazz')).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+// Named playlists, stored in IndexedDB
+import { v4 as uuidv4 } from 'uuid';
+import { IndexedDBStore } from '../utils/indexedDBStore';
+import { Track } from '../contexts/AudioContext';
+
+export interface Playlist {
+  id: string;
+  name: string;
+  tracks: Track[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const FAVORITES_PLAYLIST = 'Favorites';
+
+// "my favourites", "Favorites" and "favorite songs" all mean the same list
+const normalizeName = (name: string) => name
+  .toLowerCase()
+  .replace(/\bfavourite/g, 'favorite')
+  .replace(/\b(my|the|playlist|songs?|tracks?)\b/g, '')
+  .replace(/favorites?/g, 'favorite')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+export class PlaylistLibrary {
+  private store = new IndexedDBStore<Playlist>('virtualWifePlaylists', 'playlists');
+  private playlists: Playlist[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.getAll()
+        .then(playlists => { this.playlists = playlists; })
+        .catch(error => console.error('Error loading playlists:', error));
+    }
+    return this.loaded;
+  }
+
+  all(): Playlist[] {
+    return [...this.playlists].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(id: string): Playlist | null {
+    return this.playlists.find(playlist => playlist.id === id) || null;
+  }
+
+  // Match a name exactly, then the way it would be spoken, then the shortest name containing it,
+  // so "rock" finds "Rock" rather than "Soft Rock Mix"
+  find(name: string): Playlist | null {
+    const exact = name.trim().toLowerCase();
+    const match = this.playlists.find(playlist => playlist.name.toLowerCase() === exact);
+    const wanted = normalizeName(name);
+    if (match || !wanted) return match || null;
+
+    const partial = this.playlists
+      .filter(playlist => normalizeName(playlist.name).includes(wanted))
+      .sort((a, b) => a.name.length - b.name.length);
+    return this.playlists.find(playlist => normalizeName(playlist.name) === wanted) || partial[0] || null;
+  }
+
+  async create(name: string, tracks: Track[] = []): Promise<Playlist | null> {
+    await this.load();
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+    const existing = this.find(trimmed);
+    if (existing && normalizeName(existing.name) === normalizeName(trimmed)) return existing;
+
+    const now = new Date().toISOString();
+    const playlist: Playlist = { id: uuidv4(), name: trimmed, tracks, createdAt: now, updatedAt: now };
+    this.playlists.push(playlist);
+    await this.store.put(playlist);
+    return playlist;
+  }
+
+  async rename(id: string, name: string): Promise<Playlist | null> {
+    const trimmed = name.trim();
+    return trimmed ? this.update(id, playlist => ({ ...playlist, name: trimmed })) : null;
+  }
+
+  // Tracks already in the playlist aren't added twice
+  async addTrack(id: string, track: Track): Promise<Playlist | null> {
+    return this.update(id, playlist => playlist.tracks.some(item => item.id === track.id)
+      ? playlist
+      : { ...playlist, tracks: [...playlist.tracks, track] });
+  }
+
+  async removeTrack(id: string, trackId: string): Promise<Playlist | null> {
+    return this.update(id, playlist => ({ ...playlist, tracks: playlist.tracks.filter(track => track.id !== trackId) }));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    this.playlists = this.playlists.filter(playlist => playlist.id !== id);
+    await this.store.delete(id);
+  }
+
+  private async update(id: string, change: (playlist: Playlist) => Playlist): Promise<Playlist | null> {
+    await this.load();
+    const index = this.playlists.findIndex(playlist => playlist.id === id);
+    if (index < 0) return null;
+
+    const changed = change(this.playlists[index]);
+    if (changed === this.playlists[index]) return changed;
+    const playlist = { ...changed, updatedAt: new Date().toISOString() };
+    this.playlists[index] = playlist;
+    await this.store.put(playlist);
+    return playlist;
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { PlayQueue } from './queue';
+import { Track } from '../contexts/AudioContext';
+
+const tracks: Track[] = Array.from({ length: 8 }, (_, index) => ({
+  id: `track${index}`,
+  title: `Track ${index}`,
+  url: `https://example.com/${index}.mp3`,
+  thumbnail: ''
+}));
+
+const ids = (queue: PlayQueue) => queue.tracks.map(track => track.id);
+
+describe('PlayQueue', () => {
+  it('plays through the queue and stops at the end with repeat off', () => {
+    const queue = new PlayQueue();
+    queue.replace(tracks.slice(0, 2));
+    expect(queue.next()?.id).toBe('track1');
+    expect(queue.next()).toBeNull();
+    expect(queue.current?.id).toBe('track1');
+  });
+
+  it('wraps around with repeat all, in both directions', () => {
+    const queue = new PlayQueue();
+    queue.setRepeat('all');
+    queue.replace(tracks.slice(0, 3));
+    expect(queue.previous()?.id).toBe('track2');
+    expect(queue.next()?.id).toBe('track0');
+  });
+
+  it('repeats one track only when it ends by itself', () => {
+    const queue = new PlayQueue();
+    queue.setRepeat('one');
+    queue.replace(tracks.slice(0, 3));
+    expect(queue.next(true)?.id).toBe('track0');
+    expect(queue.next()?.id).toBe('track1');
+  });
+
+  it('shuffles only the upcoming tracks and restores the order afterwards', () => {
+    const queue = new PlayQueue();
+    queue.replace(tracks, 2);
+    queue.setShuffle(true);
+
+    expect(ids(queue).slice(0, 3)).toEqual(['track0', 'track1', 'track2']);
+    expect(queue.current?.id).toBe('track2');
+    expect([...ids(queue)].sort()).toEqual(tracks.map(track => track.id));
+
+    queue.next();
+    const playing = queue.current;
+    queue.setShuffle(false);
+    expect(ids(queue)).toEqual(tracks.map(track => track.id));
+    expect(queue.current).toBe(playing);
+  });
+
+  it('starts a shuffled playlist from the chosen track', () => {
+    const queue = new PlayQueue();
+    queue.setShuffle(true);
+    expect(queue.replace(tracks, 5)?.id).toBe('track5');
+    expect(queue.currentIndex).toBe(0);
+    expect(queue.tracks).toHaveLength(tracks.length);
+  });
+
+  it('puts a new track after the current one and jumps to one already queued', () => {
+    const queue = new PlayQueue();
+    queue.replace(tracks.slice(0, 3));
+    const extra = { ...tracks[7], id: 'extra' };
+
+    expect(queue.playNow(extra)).toBe(extra);
+    expect(ids(queue)).toEqual(['track0', 'extra', 'track1', 'track2']);
+    expect(queue.playNow(tracks[2]).id).toBe('track2');
+    expect(queue.currentIndex).toBe(3);
+  });
+
+  it('keeps the current track when an earlier one is removed', () => {
+    const queue = new PlayQueue();
+    queue.replace(tracks.slice(0, 4), 2);
+    queue.remove(0);
+    expect(queue.current?.id).toBe('track2');
+    queue.clear();
+    expect(ids(queue)).toEqual(['track2']);
+  });
+});
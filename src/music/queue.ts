@@ -0,0 +1,151 @@
+// The play queue: the tracks lined up to play, where playback is in them, and how it moves on
+import { Track } from '../contexts/AudioContext';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export const repeatModes: RepeatMode[] = ['off', 'all', 'one'];
+
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export class PlayQueue {
+  private items: Track[] = [];
+  // The order tracks were added in, restored when shuffle is turned off
+  private original: Track[] = [];
+  private index = -1;
+  private shuffle = false;
+  private repeatMode: RepeatMode = 'off';
+
+  get tracks(): Track[] {
+    return [...this.items];
+  }
+
+  get currentIndex(): number {
+    return this.index;
+  }
+
+  get current(): Track | null {
+    return this.items[this.index] || null;
+  }
+
+  get isShuffled(): boolean {
+    return this.shuffle;
+  }
+
+  get repeat(): RepeatMode {
+    return this.repeatMode;
+  }
+
+  // Replace the queue, say with a playlist, starting from one of its tracks
+  replace(tracks: Track[], startIndex: number = 0): Track | null {
+    this.original = [...tracks];
+    this.items = [...tracks];
+    this.index = tracks.length ? Math.max(0, Math.min(startIndex, tracks.length - 1)) : -1;
+    if (this.shuffle) this.shuffleUpcoming(true);
+    return this.current;
+  }
+
+  // Play a track now: one already queued is jumped to, a new one goes in after the current track
+  playNow(track: Track): Track {
+    const queued = this.items.findIndex(item => item.id === track.id);
+    if (queued >= 0) {
+      this.index = queued;
+      return this.items[queued];
+    }
+
+    this.items.splice(this.index + 1, 0, track);
+    this.original.push(track);
+    this.index++;
+    return track;
+  }
+
+  add(track: Track): void {
+    this.items.push(track);
+    this.original.push(track);
+    if (this.index < 0) this.index = 0;
+  }
+
+  remove(index: number): void {
+    const [removed] = this.items.splice(index, 1);
+    if (!removed) return;
+    this.original = this.original.filter(track => track !== removed);
+    if (index < this.index || this.index >= this.items.length) this.index--;
+  }
+
+  // Drop everything except the track that is playing
+  clear(): void {
+    const current = this.current;
+    this.items = current ? [current] : [];
+    this.original = [...this.items];
+    this.index = current ? 0 : -1;
+  }
+
+  jump(index: number): Track | null {
+    if (index < 0 || index >= this.items.length) return null;
+    this.index = index;
+    return this.current;
+  }
+
+  // The track after the current one, or null at the end of the queue. Only a track ending by
+  // itself repeats under repeat-one; skipping moves on.
+  next(ended: boolean = false): Track | null {
+    if (this.items.length === 0) return null;
+    if (ended && this.repeatMode === 'one') return this.current;
+
+    if (this.index + 1 < this.items.length) {
+      this.index++;
+      return this.current;
+    }
+    if (this.repeatMode === 'off') return null;
+
+    if (this.shuffle) this.items = shuffled(this.items);
+    this.index = 0;
+    return this.current;
+  }
+
+  previous(): Track | null {
+    if (this.items.length === 0) return null;
+    if (this.index > 0) this.index--;
+    else if (this.repeatMode === 'all') this.index = this.items.length - 1;
+    return this.current;
+  }
+
+  setShuffle(shuffle: boolean): void {
+    if (shuffle === this.shuffle) return;
+    this.shuffle = shuffle;
+
+    if (shuffle) {
+      this.shuffleUpcoming(false);
+      return;
+    }
+    const current = this.current;
+    this.items = [...this.original];
+    this.index = current ? this.items.indexOf(current) : -1;
+  }
+
+  setRepeat(mode: RepeatMode): void {
+    this.repeatMode = mode;
+  }
+
+  // The current track stays where it is; starting afresh, it moves to the front
+  private shuffleUpcoming(fromStart: boolean): void {
+    const current = this.current;
+    if (!current) {
+      this.items = shuffled(this.items);
+      return;
+    }
+    if (fromStart) {
+      this.items = [current, ...shuffled(this.items.filter(track => track !== current))];
+      this.index = 0;
+      return;
+    }
+    const played = this.items.slice(0, this.index);
+    this.items = [...played, current, ...shuffled(this.items.slice(this.index + 1))];
+  }
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import { readAudioTags } from './tags';
+
+type Part = string | number[] | Uint8Array;
+
+// Strings are written one byte per character, so '\xa9' is the single byte 0xA9
+function bytes(...parts: Part[]): Uint8Array {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? Uint8Array.from(part, char => char.charCodeAt(0))
+    : Uint8Array.from(part));
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+const uint32BE = (value: number) => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint32LE = (value: number) => uint32BE(value).reverse();
+const uint24BE = (value: number) => uint32BE(value).slice(1);
+const synchsafe = (value: number) => [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const JPEG = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10];
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a];
+
+const buffer = (data: Uint8Array) => data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+
+// ---- ID3 ----
+
+function id3(version: number, frames: Uint8Array[], flags = 0): Uint8Array {
+  const body = bytes(...frames);
+  return bytes('ID3', [version, 0, flags], synchsafe(body.length), body);
+}
+
+function id3Frame(version: number, id: string, body: Uint8Array): Uint8Array {
+  if (version === 2) return bytes(id, uint24BE(body.length), body);
+  return bytes(id, version === 4 ? synchsafe(body.length) : uint32BE(body.length), [0, 0], body);
+}
+
+const latin1Text = (version: number, id: string, text: string) => id3Frame(version, id, bytes([0], text));
+
+function apic(pictureType: number, data: number[]): Uint8Array {
+  return id3Frame(3, 'APIC', bytes([0], 'image/jpeg\0', [pictureType], 'cover\0', data));
+}
+
+// ---- Vorbis comments, FLAC and Ogg ----
+
+function vorbisComment(comments: string[]): Uint8Array {
+  const encoded = comments.map(utf8);
+  return bytes(uint32LE(6), 'vendor', uint32LE(comments.length), ...encoded.flatMap(comment => [uint32LE(comment.length), comment]));
+}
+
+function flacPicture(pictureType: number, mimeType: string, data: number[]): Uint8Array {
+  return bytes(uint32BE(pictureType), uint32BE(mimeType.length), mimeType, uint32BE(0), new Array(16).fill(0), uint32BE(data.length), data);
+}
+
+function flac(blocks: { type: number; body: Uint8Array }[]): Uint8Array {
+  return bytes('fLaC', ...blocks.map(({ type, body }, index) =>
+    bytes([(index === blocks.length - 1 ? 0x80 : 0) | type], uint24BE(body.length), body)));
+}
+
+// Packets laced into pages of at most `segmentsPerPage` segments, so long packets span pages
+function ogg(packets: Uint8Array[], serial: number, segmentsPerPage: number): Uint8Array[] {
+  const segments: Uint8Array[] = [];
+  for (const packet of packets) {
+    let offset = 0;
+    while (packet.length - offset >= 255) {
+      segments.push(packet.subarray(offset, offset + 255));
+      offset += 255;
+    }
+    segments.push(packet.subarray(offset));
+  }
+
+  const pages: Uint8Array[] = [];
+  for (let i = 0; i < segments.length; i += segmentsPerPage) {
+    const pageSegments = segments.slice(i, i + segmentsPerPage);
+    pages.push(bytes(
+      'OggS', [0, 0], new Array(8).fill(0), uint32LE(serial), uint32LE(pages.length), [0, 0, 0, 0],
+      [pageSegments.length], pageSegments.map(segment => segment.length), ...pageSegments
+    ));
+  }
+  return pages;
+}
+
+// ---- MP4 ----
+
+const box = (type: string, ...content: Part[]) => {
+  const body = bytes(...content);
+  return bytes(uint32BE(body.length + 8), type, body);
+};
+
+const dataBox = (valueType: number, value: Part) => box('data', uint32BE(valueType), uint32BE(0), value);
+
+describe('readAudioTags', () => {
+  it('reads ID3v2.3 text frames, including UTF-16', () => {
+    const file = id3(3, [
+      latin1Text(3, 'TIT2', 'Bohemian Rhapsody'),
+      id3Frame(3, 'TPE1', bytes([1, 0xff, 0xfe], 'Q\0u\0e\0e\0n\0')),
+      latin1Text(3, 'TALB', 'A Night at the Opera')
+    ]);
+    expect(readAudioTags(buffer(file))).toEqual({
+      title: 'Bohemian Rhapsody',
+      artist: 'Queen',
+      album: 'A Night at the Opera'
+    });
+  });
+
+  it('reads ID3v2.4 UTF-8 frames and ID3v2.2 three letter frames', () => {
+    const v4 = id3(4, [id3Frame(4, 'TIT2', bytes([3], utf8('Tum Hi Ho'))), id3Frame(4, 'TPE1', bytes([3], utf8('Arijit Singh')))]);
+    expect(readAudioTags(buffer(v4))).toMatchObject({ title: 'Tum Hi Ho', artist: 'Arijit Singh' });
+
+    const v2 = id3(2, [latin1Text(2, 'TT2', 'Yesterday'), latin1Text(2, 'TP1', 'The Beatles'), latin1Text(2, 'TAL', 'Help!')]);
+    expect(readAudioTags(buffer(v2))).toEqual({ title: 'Yesterday', artist: 'The Beatles', album: 'Help!' });
+  });
+
+  it('undoes ID3v2.3 unsynchronisation', () => {
+    // Frame sizes count the original bytes; the whole tag then gets a zero after every 0xFF
+    const frames = [latin1Text(3, 'TIT2', 'Synced'), apic(3, [0xff, 0xd8])];
+    const unsynchronised = Array.from(bytes(...frames)).flatMap(byte => (byte === 0xff ? [0xff, 0] : [byte]));
+    const file = id3(3, [Uint8Array.from(unsynchronised)], 0x80);
+    const tags = readAudioTags(buffer(file));
+    expect(tags.title).toBe('Synced');
+    expect(Array.from(tags.cover!.data)).toEqual([0xff, 0xd8]);
+  });
+
+  it('prefers the front cover over other pictures', () => {
+    const file = id3(3, [apic(4, [1, 2, 3]), apic(3, JPEG), apic(0, [4, 5, 6])]);
+    const { cover } = readAudioTags(buffer(file));
+    expect(cover?.mimeType).toBe('image/jpeg');
+    expect(Array.from(cover!.data)).toEqual(JPEG);
+  });
+
+  it('reads an ID3v1 tag at the end of the file', () => {
+    const field = (text: string) => bytes(text, new Array(30 - text.length).fill(0));
+    const tag = bytes('TAG', field('Smells Like Teen Spirit'), field('Nirvana'), field('Nevermind'), new Array(35).fill(0));
+    const file = bytes(new Array(500).fill(0xaa), tag);
+    expect(readAudioTags(buffer(file))).toEqual({ title: 'Smells Like Teen Spirit', artist: 'Nirvana', album: 'Nevermind' });
+  });
+
+  it('reads FLAC Vorbis comments and the front cover PICTURE block', () => {
+    const file = flac([
+      { type: 0, body: new Uint8Array(34) },
+      { type: 4, body: vorbisComment(['TITLE=Clair de Lune', 'artist=Debussy', 'ALBUM=Suite bergamasque']) },
+      { type: 6, body: flacPicture(0, 'image/jpeg', [9, 9]) },
+      { type: 6, body: flacPicture(3, 'image/png', PNG) }
+    ]);
+    const tags = readAudioTags(buffer(file));
+    expect(tags).toMatchObject({ title: 'Clair de Lune', artist: 'Debussy', album: 'Suite bergamasque' });
+    expect(tags.cover?.mimeType).toBe('image/png');
+    expect(Array.from(tags.cover!.data)).toEqual(PNG);
+  });
+
+  it('reads Ogg Vorbis comments that span pages, ignoring other streams', () => {
+    const longTitle = 'Symphony No. 9 in D minor, Op. 125 '.repeat(12).trim();
+    const comment = bytes('\x03vorbis', vorbisComment([`TITLE=${longTitle}`, 'ARTIST=Beethoven']), [1]);
+    const [identification, ...commentPages] = ogg([bytes('\x01vorbis', new Array(23).fill(0)), comment], 1, 1);
+    const [otherStream] = ogg([bytes('other', new Array(300).fill(7))], 2, 4);
+    const file = bytes(identification, otherStream, ...commentPages);
+
+    expect(commentPages.length).toBeGreaterThan(1);
+    expect(readAudioTags(buffer(file))).toMatchObject({ title: longTitle, artist: 'Beethoven' });
+  });
+
+  it('reads Opus tags and a base64 cover', () => {
+    const picture = btoa(String.fromCharCode(...flacPicture(3, 'image/jpeg', JPEG)));
+    const tags = bytes('OpusTags', vorbisComment(['TITLE=Kesariya', 'ARTIST=Arijit Singh', `METADATA_BLOCK_PICTURE=${picture}`]));
+    const file = bytes(...ogg([bytes('OpusHead', new Array(11).fill(0)), tags], 5, 255));
+
+    const result = readAudioTags(buffer(file));
+    expect(result).toMatchObject({ title: 'Kesariya', artist: 'Arijit Singh' });
+    expect(Array.from(result.cover!.data)).toEqual(JPEG);
+  });
+
+  it('reads MP4 ilst items and cover art', () => {
+    const ilst = box('ilst',
+      box('\xa9nam', dataBox(1, utf8('Blinding Lights'))),
+      box('\xa9ART', dataBox(1, utf8('The Weeknd'))),
+      box('\xa9alb', dataBox(1, utf8('After Hours'))),
+      box('covr', dataBox(14, PNG))
+    );
+    const file = bytes(
+      box('ftyp', 'M4A ', uint32BE(0)),
+      box('moov', box('mvhd', new Array(20).fill(0)), box('udta', box('meta', uint32BE(0), box('hdlr', new Array(25).fill(0)), ilst)))
+    );
+
+    const tags = readAudioTags(buffer(file));
+    expect(tags).toMatchObject({ title: 'Blinding Lights', artist: 'The Weeknd', album: 'After Hours' });
+    expect(tags.cover?.mimeType).toBe('image/png');
+    expect(Array.from(tags.cover!.data)).toEqual(PNG);
+  });
+
+  it('returns no tags for files it cannot read', () => {
+    expect(readAudioTags(new ArrayBuffer(0))).toEqual({});
+    expect(readAudioTags(buffer(bytes(new Array(64).fill(0x5a))))).toEqual({});
+  });
+
+  it('returns no tags rather than throwing for truncated or corrupt headers', () => {
+    const truncated = [
+      bytes('ID3', [3, 0, 0], synchsafe(1000), 'TIT2', uint32BE(500), [0, 0], [0], 'Cut'),
+      bytes('fLaC', [0x84], uint24BE(1000), uint32LE(6), 'ven'),
+      bytes('fLaC', [0x84], uint24BE(12), uint32LE(0xffffffff), uint32LE(3), [0, 0, 0, 0]),
+      bytes('OggS', [0, 0], new Array(8).fill(0), uint32LE(1), uint32LE(0), [0, 0, 0, 0], [3], [255, 255]),
+      bytes(box('ftyp', 'M4A '), uint32BE(4000), 'moov', uint32BE(2), 'udta')
+    ];
+    for (const file of truncated) {
+      expect(readAudioTags(buffer(file))).toEqual({});
+    }
+  });
+});
@@ -0,0 +1,339 @@
+// Tag readers for the audio formats the local library imports: ID3 (MP3), Vorbis comments
+// (FLAC, Ogg Vorbis and Opus) and iTunes-style metadata (M4A)
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  cover?: { mimeType: string; data: Uint8Array };
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+
+const uint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const uint32LE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+// ID3 sizes use seven bits per byte so they never contain a sync pattern
+const synchsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const utf8 = new TextDecoder('utf-8');
+
+const clean = (text: string | undefined) => text?.replace(/\0+$/, '').split('\0')[0].trim() || undefined;
+
+const pictureMimeType = (data: Uint8Array, declared: string) => {
+  if (declared.includes('/')) return declared.toLowerCase();
+  if (data[0] === 0x89 && data[1] === 0x50) return 'image/png';
+  return 'image/jpeg';
+};
+
+// ---- ID3 ----
+
+// ID3 text encodings: 0 Latin-1, 1 UTF-16 with a byte order mark, 2 UTF-16BE, 3 UTF-8
+function decodeID3Text(bytes: Uint8Array, encoding: number): string {
+  if (encoding === 0) return new TextDecoder('iso-8859-1').decode(bytes);
+  if (encoding === 3) return utf8.decode(bytes);
+  const bigEndian = encoding === 2 || (bytes[0] === 0xfe && bytes[1] === 0xff);
+  return new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(bytes);
+}
+
+// Where a null-terminated string in the given encoding ends, and where what follows it starts
+function terminatorOf(bytes: Uint8Array, start: number, encoding: number): { end: number; next: number } {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return { end: i, next: i + (wide ? 2 : 1) };
+  }
+  return { end: bytes.length, next: bytes.length };
+}
+
+// Unsynchronisation inserts a zero after every 0xFF; this takes them out again
+function resynchronise(bytes: Uint8Array): Uint8Array {
+  const result = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    result[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0) i++;
+  }
+  return result.subarray(0, length);
+}
+
+function readID3Picture(frame: Uint8Array, version: number): AudioTags['cover'] & { type: number } {
+  const encoding = frame[0];
+  let mimeType: string;
+  let offset: number;
+  if (version === 2) {
+    // ID3v2.2 PIC frames give a three letter image format instead of a MIME type
+    mimeType = ascii(frame, 1, 3).toLowerCase() === 'png' ? 'image/png' : 'image/jpeg';
+    offset = 4;
+  } else {
+    const mime = terminatorOf(frame, 1, 0);
+    mimeType = ascii(frame, 1, mime.end - 1);
+    offset = mime.next;
+  }
+  const type = frame[offset];
+  const description = terminatorOf(frame, offset + 1, encoding);
+  const data = frame.slice(description.next);
+  return { mimeType: pictureMimeType(data, mimeType), data, type };
+}
+
+export function readID3v2(bytes: Uint8Array): AudioTags | null {
+  if (bytes.length < 10 || ascii(bytes, 0, 3) !== 'ID3') return null;
+  const version = bytes[3];
+  const flags = bytes[5];
+  let tag = bytes.subarray(10, Math.min(bytes.length, 10 + synchsafe(bytes, 6)));
+  if (version < 4 && flags & 0x80) tag = resynchronise(tag);
+
+  let offset = 0;
+  if (flags & 0x40) {
+    // Extended header; its size counts itself in v2.4 but not in v2.3
+    offset = version === 4 ? synchsafe(tag, 0) : uint32BE(tag, 0) + 4;
+  }
+
+  const tags: AudioTags = {};
+  let coverType = -1;
+  const headerLength = version === 2 ? 6 : 10;
+  while (offset + headerLength <= tag.length) {
+    const id = ascii(tag, offset, version === 2 ? 3 : 4);
+    if (!/^[A-Z0-9]{3,4}$/.test(id)) break;
+    const size = version === 2
+      ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+      : version === 4 ? synchsafe(tag, offset + 4) : uint32BE(tag, offset + 4);
+    // A frame running past the tag was cut off; its text would be a fragment
+    if (offset + headerLength + size > tag.length) break;
+    let frame = tag.subarray(offset + headerLength, offset + headerLength + size);
+    if (version === 4 && tag[offset + 9] & 0x02) frame = resynchronise(frame);
+    offset += headerLength + size;
+    if (frame.length === 0) continue;
+
+    const text = () => clean(decodeID3Text(frame.subarray(1), frame[0]));
+    if (id === 'TIT2' || id === 'TT2') tags.title = text();
+    else if (id === 'TPE1' || id === 'TP1') tags.artist = text();
+    else if (id === 'TALB' || id === 'TAL') tags.album = text();
+    else if (id === 'APIC' || id === 'PIC') {
+      // Prefer the front cover (type 3) over any other picture
+      const { type, ...cover } = readID3Picture(frame, version);
+      if (coverType !== 3 && cover.data.length > 0) {
+        tags.cover = cover;
+        coverType = type;
+      }
+    }
+  }
+  return tags;
+}
+
+// The fixed 128 byte tag some MP3s carry at the end instead
+export function readID3v1(bytes: Uint8Array): AudioTags | null {
+  const start = bytes.length - 128;
+  if (start < 0 || ascii(bytes, start, 3) !== 'TAG') return null;
+  const field = (offset: number) => clean(new TextDecoder('iso-8859-1').decode(bytes.subarray(start + offset, start + offset + 30)));
+  return { title: field(3), artist: field(33), album: field(63) };
+}
+
+// ---- Vorbis comments and FLAC ----
+
+// A FLAC PICTURE block; Ogg files carry the same structure base64 encoded in a comment
+function readFlacPicture(block: Uint8Array): AudioTags['cover'] & { type: number } {
+  const type = uint32BE(block, 0);
+  const mimeLength = uint32BE(block, 4);
+  const mimeType = ascii(block, 8, mimeLength);
+  let offset = 8 + mimeLength;
+  offset += 4 + uint32BE(block, offset);
+  // Width, height, colour depth and palette size
+  offset += 16;
+  const length = uint32BE(block, offset);
+  const data = block.slice(offset + 4, offset + 4 + length);
+  return { mimeType: pictureMimeType(data, mimeType), data, type };
+}
+
+function base64Bytes(text: string): Uint8Array {
+  const binary = atob(text.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function readVorbisComment(bytes: Uint8Array): AudioTags {
+  const tags: AudioTags = {};
+  let coverType = -1;
+  let offset = 4 + uint32LE(bytes, 0);
+  const count = uint32LE(bytes, offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = uint32LE(bytes, offset);
+    const comment = utf8.decode(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+
+    const separator = comment.indexOf('=');
+    const key = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1);
+    // Only the first of repeated fields is kept
+    if (key === 'TITLE') tags.title = tags.title || clean(value);
+    else if (key === 'ARTIST') tags.artist = tags.artist || clean(value);
+    else if (key === 'ALBUM') tags.album = tags.album || clean(value);
+    else if (key === 'METADATA_BLOCK_PICTURE' && coverType !== 3) {
+      try {
+        const { type, ...cover } = readFlacPicture(base64Bytes(value));
+        tags.cover = cover;
+        coverType = type;
+      } catch (error) {
+        console.warn('Skipping unreadable cover art:', error);
+      }
+    }
+  }
+  return tags;
+}
+
+export function readFlacTags(bytes: Uint8Array): AudioTags | null {
+  if (ascii(bytes, 0, 4) !== 'fLaC') return null;
+  const tags: AudioTags = {};
+  let coverType = -1;
+  let offset = 4;
+  let isLast = false;
+
+  while (!isLast && offset + 4 <= bytes.length) {
+    isLast = (bytes[offset] & 0x80) !== 0;
+    const type = bytes[offset] & 0x7f;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const block = bytes.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+
+    if (type === 4) {
+      const comment = readVorbisComment(block);
+      tags.title = comment.title;
+      tags.artist = comment.artist;
+      tags.album = comment.album;
+      tags.cover = tags.cover || comment.cover;
+    } else if (type === 6 && coverType !== 3) {
+      const { type: pictureType, ...cover } = readFlacPicture(block);
+      tags.cover = cover;
+      coverType = pictureType;
+    }
+  }
+  return tags;
+}
+
+// The comment header is the second packet of the first logical stream; it may span many pages
+export function readOggTags(bytes: Uint8Array): AudioTags | null {
+  if (ascii(bytes, 0, 4) !== 'OggS') return null;
+  const serial = uint32LE(bytes, 14);
+  const packets: Uint8Array[] = [];
+  let packet: number[] = [];
+  let offset = 0;
+
+  while (offset + 27 <= bytes.length && packets.length < 2) {
+    if (ascii(bytes, offset, 4) !== 'OggS') return null;
+    const segmentCount = bytes[offset + 26];
+    const isOurs = uint32LE(bytes, offset + 14) === serial;
+    let dataOffset = offset + 27 + segmentCount;
+
+    for (let i = 0; i < segmentCount; i++) {
+      const size = bytes[offset + 27 + i];
+      if (isOurs) {
+        packet.push(...Array.from(bytes.subarray(dataOffset, dataOffset + size)));
+        // A segment shorter than 255 bytes ends the packet
+        if (size < 255) {
+          packets.push(Uint8Array.from(packet));
+          packet = [];
+        }
+      }
+      dataOffset += size;
+    }
+    offset = dataOffset;
+  }
+
+  const header = packets[1];
+  if (!header) return null;
+  if (ascii(header, 0, 7) === '\x03vorbis') return readVorbisComment(header.subarray(7));
+  if (ascii(header, 0, 8) === 'OpusTags') return readVorbisComment(header.subarray(8));
+  return null;
+}
+
+// ---- MP4 ----
+
+function findBox(bytes: Uint8Array, start: number, end: number, type: string): { start: number; end: number } | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = uint32BE(bytes, offset);
+    let headerLength = 8;
+    if (size === 1) {
+      // 64 bit size; files too large for the high word to matter here
+      size = uint32BE(bytes, offset + 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerLength) return null;
+    if (ascii(bytes, offset + 4, 4) === type) return { start: offset + headerLength, end: Math.min(end, offset + size) };
+    offset += size;
+  }
+  return null;
+}
+
+export function readMP4Tags(bytes: Uint8Array): AudioTags | null {
+  if (ascii(bytes, 4, 4) !== 'ftyp') return null;
+  const moov = findBox(bytes, 0, bytes.length, 'moov');
+  const udta = moov && findBox(bytes, moov.start, moov.end, 'udta');
+  const meta = udta && findBox(bytes, udta.start, udta.end, 'meta');
+  if (!meta) return {};
+  // iTunes writes meta as a full box with four bytes of version and flags; QuickTime doesn't
+  const metaStart = uint32BE(bytes, meta.start) === 0 ? meta.start + 4 : meta.start;
+  const ilst = findBox(bytes, metaStart, meta.end, 'ilst');
+  if (!ilst) return {};
+
+  // Each item holds a data box: four bytes of value type and four of locale, then the value
+  const item = (type: string) => {
+    const box = findBox(bytes, ilst.start, ilst.end, type);
+    const data = box && findBox(bytes, box.start, box.end, 'data');
+    return data ? { valueType: uint32BE(bytes, data.start), value: bytes.subarray(data.start + 8, data.end) } : null;
+  };
+  const text = (type: string) => {
+    const found = item(type);
+    return found ? clean(utf8.decode(found.value)) : undefined;
+  };
+
+  const tags: AudioTags = {
+    title: text('\xa9nam'),
+    artist: text('\xa9ART') || text('aART'),
+    album: text('\xa9alb')
+  };
+  const cover = item('covr');
+  if (cover && cover.value.length > 0) {
+    tags.cover = { mimeType: cover.valueType === 14 ? 'image/png' : 'image/jpeg', data: cover.value.slice() };
+  }
+  return tags;
+}
+
+// Tags from whichever format the file turns out to be; fields missing from the tags stay undefined
+export function readAudioTags(data: ArrayBuffer): AudioTags {
+  const bytes = new Uint8Array(data);
+  try {
+    const id3 = readID3v2(bytes);
+    if (id3) {
+      // FLAC files sometimes carry an ID3 tag in front of their own metadata
+      const rest = bytes.subarray(10 + synchsafe(bytes, 6));
+      return merge(id3, readFlacTags(rest), readID3v1(bytes));
+    }
+    return merge(readFlacTags(bytes) || readOggTags(bytes) || readMP4Tags(bytes), readID3v1(bytes));
+  } catch (error) {
+    console.warn('Could not read audio tags:', error);
+    return {};
+  }
+}
+
+// Each field from the first set of tags that has it
+function merge(...sources: (AudioTags | null)[]): AudioTags {
+  const tags: AudioTags = {};
+  for (const source of sources) {
+    if (!source) continue;
+    tags.title = tags.title || source.title;
+    tags.artist = tags.artist || source.artist;
+    tags.album = tags.album || source.album;
+    tags.cover = tags.cover || source.cover;
+  }
+  return tags;
+}
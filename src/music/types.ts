@@ -0,0 +1,27 @@
+// Shared types for music playback engines
+import { Track } from '../contexts/AudioContext';
+
+export type PlaybackState = 'idle' | 'loading' | 'playing' | 'paused' | 'buffering' | 'ended';
+
+export interface PlaybackEvents {
+  onStateChange: (state: PlaybackState) => void;
+  onError: (message: string) => void;
+}
+
+export interface PlaybackEngine {
+  id: string;
+  // True when the music passes through the Web Audio graph, so the beat tracker can hear it
+  producesAudio: boolean;
+  canPlay: (track: Track) => boolean;
+  // Start playing the track, replacing whatever this engine was playing
+  load: (track: Track, events: PlaybackEvents) => Promise<void>;
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  seek: (seconds: number) => void;
+  // 0-1
+  setVolume: (volume: number) => void;
+  // Seconds; 0 until known
+  position: number;
+  duration: number;
+}
@@ -0,0 +1,76 @@
+import { SpeechEngine, SpeechEvents, SpeechRequest, SpeechVoice } from '../types';
+
+// Chrome fills the voice list asynchronously, so wait briefly for voiceschanged when it's empty
+function loadVoices(): Promise<SpeechSynthesisVoice[]> {
+  if (!('speechSynthesis' in window)) return Promise.resolve([]);
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(speechSynthesis.getVoices()), 1000);
+    speechSynthesis.addEventListener('voiceschanged', () => {
+      clearTimeout(timer);
+      resolve(speechSynthesis.getVoices());
+    }, { once: true });
+  });
+}
+
+const voiceLang = (voice: SpeechSynthesisVoice) => voice.lang.toLowerCase().replace('_', '-');
+
+// Best installed voice for a locale: exact match first, then any voice for the same language
+function findVoice(voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice | undefined {
+  const normalized = locale.toLowerCase();
+  const language = normalized.split('-')[0];
+  return voices.find(voice => voiceLang(voice) === normalized)
+    || voices.find(voice => voiceLang(voice).split('-')[0] === language);
+}
+
+export class BrowserSpeechEngine implements SpeechEngine {
+  id = 'browser';
+  label = 'Browser voices';
+  producesAudio = false;
+
+  async listVoices(lang: string): Promise<SpeechVoice[]> {
+    const language = lang.toLowerCase().split('-')[0];
+    const voices = await loadVoices();
+    return voices
+      .filter(voice => voiceLang(voice).split('-')[0] === language)
+      .map(voice => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang }));
+  }
+
+  speak({ text, lang, voiceId, volume, rate, pitch }: SpeechRequest, _config: unknown, events: SpeechEvents = {}): Promise<void> {
+    if (!('speechSynthesis' in window)) return Promise.resolve();
+
+    return new Promise(resolve => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.volume = volume;
+      utterance.rate = rate;
+      utterance.pitch = pitch;
+
+      // Look the voice up per utterance since the list may not have been ready earlier
+      const voices = speechSynthesis.getVoices();
+      const voice = voices.find(v => v.voiceURI === voiceId) || findVoice(voices, lang);
+      if (voice) utterance.voice = voice;
+
+      utterance.onstart = () => events.onStart?.();
+      utterance.onboundary = (event) => {
+        if (event.name !== 'word') return;
+        // charLength is missing in some browsers, so read up to the next space instead
+        const word = event.charLength
+          ? text.substr(event.charIndex, event.charLength)
+          : text.slice(event.charIndex).split(/\s/)[0];
+        events.onWord?.(word);
+      };
+      utterance.onend = () => resolve();
+      utterance.onerror = () => resolve();
+      speechSynthesis.speak(utterance);
+    });
+  }
+
+  cancel(): void {
+    if ('speechSynthesis' in window) {
+      speechSynthesis.cancel();
+    }
+  }
+}
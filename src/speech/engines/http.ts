@@ -0,0 +1,126 @@
+import { HttpSpeechConfig, SpeechEngine, SpeechEvents, SpeechRequest, SpeechVoice } from '../types';
+
+const OPENAI_VOICES = ['nova', 'shimmer', 'coral', 'sage', 'alloy', 'ash', 'echo', 'fable', 'onyx'];
+
+// Speech from a TTS server, played through an <audio> element routed into an AnalyserNode
+// so the waveform is available while she talks
+export class HttpSpeechEngine implements SpeechEngine {
+  id = 'http';
+  label = 'HTTP TTS server (OpenAI, Piper, Coqui)';
+  producesAudio = true;
+  analyser: AnalyserNode | null = null;
+
+  private audioContext: AudioContext | null = null;
+  private playback: Promise<void> = Promise.resolve();
+  private controller = new AbortController();
+  private current: HTMLAudioElement | null = null;
+
+  async listVoices(_lang: string, config: HttpSpeechConfig): Promise<SpeechVoice[]> {
+    // Piper and Coqui voices are server specific, so those are typed in by hand
+    if (config.style !== 'openai') return [];
+    return OPENAI_VOICES.map(voice => ({ id: voice, name: voice, lang: '' }));
+  }
+
+  speak(request: SpeechRequest, config: HttpSpeechConfig, events: SpeechEvents = {}): Promise<void> {
+    const { signal } = this.controller;
+    // Fetch straight away so the next sentence is ready when the current one ends
+    const audio = this.synthesize(request, config, signal);
+    const done = this.playback.then(async () => {
+      const blob = await audio;
+      if (!signal.aborted) await this.play(blob, request.volume, signal, events);
+    }).catch((error) => {
+      // Cancelled speech just ends early, the same as with the browser engine
+      if (!signal.aborted) throw error;
+    });
+    this.playback = done.catch(() => undefined);
+    return done;
+  }
+
+  cancel(): void {
+    this.controller.abort();
+    this.controller = new AbortController();
+    this.current?.pause();
+    this.current = null;
+    this.playback = Promise.resolve();
+  }
+
+  private async synthesize(
+    { text, lang, voiceId, rate }: SpeechRequest,
+    config: HttpSpeechConfig,
+    signal: AbortSignal
+  ): Promise<Blob> {
+    const baseUrl = config.baseUrl.replace(/\/$/, '');
+    const headers: { [name: string]: string } = config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {};
+
+    let response: Response;
+    if (config.style === 'openai') {
+      response = await fetch(`${baseUrl}/audio/speech`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: config.model,
+          input: text,
+          voice: voiceId || OPENAI_VOICES[0],
+          speed: rate,
+          response_format: 'mp3'
+        }),
+        signal
+      });
+    } else {
+      const params = new URLSearchParams({ text, language_id: lang.split('-')[0] });
+      if (voiceId) {
+        params.set('speaker_id', voiceId);
+        params.set('voice', voiceId);
+      }
+      response = await fetch(`${baseUrl}?${params}`, { headers, signal });
+    }
+
+    if (!response.ok) {
+      throw new Error(`TTS request failed with status ${response.status}`);
+    }
+    return response.blob();
+  }
+
+  private play(blob: Blob, volume: number, signal: AbortSignal, events: SpeechEvents): Promise<void> {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    audio.volume = volume;
+    this.current = audio;
+    this.connect(audio);
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        URL.revokeObjectURL(url);
+        if (this.current === audio) this.current = null;
+        resolve();
+      };
+      audio.onplaying = () => events.onStart?.();
+      audio.onended = finish;
+      audio.onpause = finish;
+      audio.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('Could not play TTS audio'));
+      };
+      signal.addEventListener('abort', () => audio.pause(), { once: true });
+      audio.play().catch(reject);
+    });
+  }
+
+  private connect(audio: HTMLAudioElement): void {
+    try {
+      if (!this.audioContext) {
+        this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        this.analyser = this.audioContext.createAnalyser();
+        this.analyser.fftSize = 1024;
+        this.analyser.connect(this.audioContext.destination);
+      }
+      if (this.audioContext.state === 'suspended') {
+        this.audioContext.resume();
+      }
+      this.audioContext.createMediaElementSource(audio).connect(this.analyser!);
+    } catch (error) {
+      // Playback still works without analysis, straight from the element
+      console.warn('Could not analyse TTS audio:', error);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+// Lip sync: turns speech into weights for the VRM mouth expression presets.
+// Audio engines are analysed live; browser speech is estimated from word boundary events.
+import { SpeechEngine } from './types';
+
+export type Viseme = 'aa' | 'ih' | 'ou' | 'ee' | 'oh';
+
+export const visemes: Viseme[] = ['aa', 'ih', 'ou', 'ee', 'oh'];
+
+export type VisemeWeights = { [viseme in Viseme]: number };
+
+interface VisemeSegment {
+  viseme: Viseme;
+  start: number;
+  end: number;
+}
+
+const silence = (): VisemeWeights => ({ aa: 0, ih: 0, ou: 0, ee: 0, oh: 0 });
+
+// Latin vowels plus Devanagari/Bengali vowel letters and signs
+const VOWEL_VISEMES: { [char: string]: Viseme } = {
+  a: 'aa', e: 'ee', i: 'ih', y: 'ih', o: 'oh', u: 'ou', w: 'ou',
+  'á': 'aa', 'à': 'aa', 'â': 'aa', 'ä': 'ee', 'é': 'ee', 'è': 'ee', 'ê': 'ee',
+  'í': 'ih', 'ì': 'ih', 'î': 'ih', 'ó': 'oh', 'ò': 'oh', 'ô': 'oh', 'ö': 'ee', 'ú': 'ou', 'ù': 'ou', 'ü': 'ee',
+  'अ': 'aa', 'आ': 'aa', 'ा': 'aa', 'इ': 'ih', 'ई': 'ih', 'ि': 'ih', 'ी': 'ih',
+  'उ': 'ou', 'ऊ': 'ou', 'ु': 'ou', 'ू': 'ou', 'ए': 'ee', 'ऐ': 'ee', 'े': 'ee', 'ै': 'ee',
+  'ओ': 'oh', 'औ': 'oh', 'ो': 'oh', 'ौ': 'oh',
+  'আ': 'aa', 'া': 'aa', 'ি': 'ih', 'ী': 'ih', 'ু': 'ou', 'ূ': 'ou', 'ে': 'ee', 'ো': 'oh'
+};
+
+// Mouth shapes for a word, one per vowel. Scripts without a table alternate open and rounded.
+export function wordToVisemes(word: string): Viseme[] {
+  const chars = Array.from(word.toLowerCase());
+  const shapes = chars.map(char => VOWEL_VISEMES[char]).filter((v): v is Viseme => !!v);
+  if (shapes.length > 0) return shapes;
+
+  const letters = chars.filter(char => /\p{L}/u.test(char)).length;
+  return Array.from({ length: Math.max(1, Math.ceil(letters / 2)) }, (_, i) => (i % 2 === 0 ? 'aa' : 'oh'));
+}
+
+// Average magnitude of the analyser bins between two frequencies, 0-1
+function bandEnergy(data: Uint8Array, binHz: number, from: number, to: number): number {
+  const start = Math.max(0, Math.floor(from / binHz));
+  const end = Math.min(data.length, Math.ceil(to / binHz));
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += data[i];
+  return end > start ? sum / (end - start) / 255 : 0;
+}
+
+export class LipSync {
+  private engine: SpeechEngine | null = null;
+  private speaking = false;
+  private startedAt = 0;
+  private wordsHeard = 0;
+  private timeline: VisemeSegment[] = [];
+  private weights: VisemeWeights = silence();
+  private frequencyData: Uint8Array | null = null;
+
+  start(engine: SpeechEngine): void {
+    this.engine = engine;
+    this.speaking = true;
+    this.startedAt = performance.now();
+    this.wordsHeard = 0;
+    this.timeline = [];
+  }
+
+  stop(): void {
+    this.speaking = false;
+    this.timeline = [];
+  }
+
+  // Spread the word's vowels over its estimated duration, starting now
+  word(word: string, rate: number = 1): void {
+    const shapes = wordToVisemes(word);
+    const letters = Array.from(word).length;
+    const duration = Math.max(150, (letters * 65) / Math.max(rate, 0.1));
+    const now = performance.now();
+    const step = duration / shapes.length;
+
+    this.wordsHeard++;
+    this.timeline = shapes.map((viseme, i) => ({ viseme, start: now + i * step, end: now + (i + 1) * step }));
+  }
+
+  // Called once per frame; eases towards the target so the mouth doesn't snap
+  update(delta: number): VisemeWeights {
+    const target = this.speaking ? this.target(performance.now()) : silence();
+    const ease = Math.min(1, delta * 18);
+    visemes.forEach(viseme => {
+      this.weights[viseme] += (target[viseme] - this.weights[viseme]) * ease;
+    });
+    return this.weights;
+  }
+
+  private target(now: number): VisemeWeights {
+    const analyser = this.engine?.producesAudio ? this.engine.analyser : null;
+    if (analyser) return this.fromAudio(analyser);
+
+    const segment = this.timeline.find(s => now >= s.start && now < s.end);
+    if (segment) {
+      // Close slightly towards the end of each vowel so consecutive ones read as separate
+      const progress = (now - segment.start) / (segment.end - segment.start);
+      return { ...silence(), [segment.viseme]: 0.85 * Math.sin(Math.PI * Math.min(1, progress * 1.2 + 0.1)) };
+    }
+
+    // Some voices never fire boundary events; flap the jaw so she still looks like she's talking
+    if (this.wordsHeard === 0 && now - this.startedAt > 300) {
+      const t = now / 1000;
+      return { ...silence(), aa: 0.35 + 0.3 * Math.sin(t * 17), oh: 0.2 + 0.15 * Math.sin(t * 11 + 1) };
+    }
+    return silence();
+  }
+
+  // Loudness opens the mouth; where the energy sits in the spectrum picks the shape
+  private fromAudio(analyser: AnalyserNode): VisemeWeights {
+    if (!this.frequencyData || this.frequencyData.length !== analyser.frequencyBinCount) {
+      this.frequencyData = new Uint8Array(analyser.frequencyBinCount);
+    }
+    analyser.getByteFrequencyData(this.frequencyData);
+
+    const binHz = analyser.context.sampleRate / analyser.fftSize;
+    const low = bandEnergy(this.frequencyData, binHz, 200, 800);
+    const mid = bandEnergy(this.frequencyData, binHz, 800, 1600);
+    const high = bandEnergy(this.frequencyData, binHz, 1600, 3500);
+    const loudness = (low + mid + high) / 3;
+    const open = Math.min(1, Math.max(0, (loudness - 0.08) * 3));
+    if (open === 0) return silence();
+
+    const total = low + mid + high;
+    const shape: VisemeWeights = {
+      aa: mid / total,
+      oh: (low / total) * 0.8,
+      ou: (low / total) ** 2,
+      ee: high / total,
+      ih: (high / total) * 0.6 + (mid / total) * 0.2
+    };
+    const strongest = Math.max(...visemes.map(viseme => shape[viseme]));
+    visemes.forEach(viseme => { shape[viseme] = (shape[viseme] / strongest) * open; });
+    return shape;
+  }
+}
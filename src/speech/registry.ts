@@ -0,0 +1,40 @@
+// Registry of text-to-speech engines
+import { SpeechEngine, SpeechOptions, SpeechSettings } from './types';
+import { BrowserSpeechEngine } from './engines/browser';
+import { HttpSpeechEngine } from './engines/http';
+import { getSpeechLocale } from '../utils/languageDetection';
+
+const engines = new Map<string, SpeechEngine>();
+
+export const DEFAULT_SPEECH_RATE = 0.9; // Slightly slower for more natural speech
+export const DEFAULT_SPEECH_PITCH = 1.1; // Slightly higher pitch for feminine voice
+
+export function registerSpeechEngine(engine: SpeechEngine): void {
+  engines.set(engine.id, engine);
+}
+
+export function getSpeechEngine(id: string): SpeechEngine | undefined {
+  return engines.get(id);
+}
+
+export function listSpeechEngines(): SpeechEngine[] {
+  return Array.from(engines.values());
+}
+
+// Everything a SentenceSpeaker needs to talk in the given language code
+export function resolveSpeechOptions(settings: SpeechSettings, language: string): SpeechOptions {
+  const engine = getSpeechEngine(settings.speechEngine) || listSpeechEngines()[0];
+  return {
+    engine,
+    config: settings.httpSpeech,
+    lang: getSpeechLocale(language),
+    voiceId: settings.voicePreferences[engine.id]?.[language] || '',
+    volume: settings.voiceVolume / 100,
+    rate: settings.speechRate,
+    pitch: settings.speechPitch,
+    muted: settings.isMuted
+  };
+}
+
+registerSpeechEngine(new BrowserSpeechEngine());
+registerSpeechEngine(new HttpSpeechEngine());
@@ -0,0 +1,67 @@
+// Shared types for text-to-speech engines
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  lang: string;
+}
+
+export type HttpSpeechStyle = 'openai' | 'query';
+
+// Settings for the HTTP engine. "openai" POSTs to {baseUrl}/audio/speech; "query" GETs
+// {baseUrl}?text=... as served by Coqui (/api/tts) and the Piper HTTP server.
+export interface HttpSpeechConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  style: HttpSpeechStyle;
+}
+
+export interface SpeechRequest {
+  text: string;
+  // BCP 47 locale, e.g. hi-IN
+  lang: string;
+  // Engine specific voice id; empty picks the engine's best match for the locale
+  voiceId: string;
+  volume: number;
+  rate: number;
+  pitch: number;
+}
+
+export interface SpeechEvents {
+  onStart?: () => void;
+  // Engines without audio output report each word as it starts so lip sync can follow along
+  onWord?: (word: string) => void;
+}
+
+export interface SpeechEngine {
+  id: string;
+  label: string;
+  // True when speech is played from an audio element that can be fed into an AnalyserNode
+  producesAudio: boolean;
+  analyser?: AnalyserNode | null;
+  listVoices: (lang: string, config: HttpSpeechConfig) => Promise<SpeechVoice[]>;
+  // Queue the text after anything already speaking. Resolves once it has been spoken.
+  speak: (request: SpeechRequest, config: HttpSpeechConfig, events?: SpeechEvents) => Promise<void>;
+  cancel: () => void;
+}
+
+// Voice ids chosen in settings, by engine id and then language code
+export type VoicePreferences = { [engineId: string]: { [language: string]: string } };
+
+export interface SpeechOptions extends Omit<SpeechRequest, 'text'> {
+  engine: SpeechEngine;
+  config: HttpSpeechConfig;
+  muted: boolean;
+}
+
+// The subset of app settings that drives speech
+export interface SpeechSettings {
+  speechEngine: string;
+  httpSpeech: HttpSpeechConfig;
+  voicePreferences: VoicePreferences;
+  speechRate: number;
+  speechPitch: number;
+  voiceVolume: number;
+  isMuted: boolean;
+}
@@ -178,9 +178,13 @@ export class AppAutomation {
   }
 }
 
+export function detectPlatform(): AppCommand['platform'] {
+  return /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ? 'mobile' : 'windows';
+}
+
 export function parseAppCommand(userInput: string): AppCommand | null {
   const input = userInput.toLowerCase();
-  const platform = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ? 'mobile' : 'windows';
+  const platform = detectPlatform();
 
   // Open app commands
   if (input.includes('open')) {
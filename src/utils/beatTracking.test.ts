@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BeatInfo, BeatTracker } from './beatTracking';
+
+const FRAME_RATE = 60;
+
+// An analyser hearing a click every beat: loud and broadband for 40 ms, quiet otherwise
+function clickAnalyser(bpm: number, clock: { now: number }) {
+  const isClick = () => bpm > 0 && (clock.now % (60 / bpm)) < 0.04;
+  return {
+    frequencyBinCount: 32,
+    fftSize: 64,
+    getByteFrequencyData: (data: Uint8Array) => data.fill(isClick() ? 220 : 10),
+    getByteTimeDomainData: (data: Uint8Array) => data.forEach((_, i) => {
+      data[i] = isClick() ? (i % 2 ? 228 : 28) : 128;
+    })
+  } as unknown as AnalyserNode;
+}
+
+// Runs the tracker's animation frames against a fake clock
+function run(bpm: number) {
+  const clock = { now: 0 };
+  let frame: FrameRequestCallback | null = null;
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    frame = callback;
+    return 1;
+  });
+  vi.stubGlobal('cancelAnimationFrame', () => { frame = null; });
+  vi.spyOn(performance, 'now').mockImplementation(() => clock.now * 1000);
+
+  const tracker = new BeatTracker(clickAnalyser(bpm, clock));
+  const beats: BeatInfo[] = [];
+  tracker.subscribe(info => beats.push(info));
+  tracker.start();
+
+  const advance = (seconds: number, frameRate = FRAME_RATE) => {
+    const end = clock.now + seconds;
+    while (clock.now < end && frame) {
+      clock.now += 1 / frameRate;
+      frame(clock.now * 1000);
+    }
+  };
+  return { tracker, beats, advance, clock };
+}
+
+describe('BeatTracker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('finds the tempo of a steady beat and counts beats', () => {
+    const { tracker, beats, advance } = run(120);
+    advance(10);
+
+    const info = tracker.info;
+    expect(info).not.toBeNull();
+    expect(info!.bpm).toBeGreaterThan(116);
+    expect(info!.bpm).toBeLessThan(124);
+    expect(info!.confidence).toBeGreaterThan(0.2);
+
+    const before = beats.length;
+    advance(4);
+    // Two beats a second, give or take the one being locked on to
+    expect(beats.length - before).toBeGreaterThanOrEqual(7);
+    expect(beats.length - before).toBeLessThanOrEqual(9);
+    expect(beats[beats.length - 1].beat).toBeGreaterThan(beats[before].beat);
+  });
+
+  it('has no beat to follow in silence', () => {
+    const { tracker, beats, advance } = run(0);
+    advance(8);
+    expect(tracker.info).toBeNull();
+    expect(beats).toHaveLength(0);
+  });
+
+  it('catches the beat count up after frames stall', () => {
+    const { tracker, beats, advance, clock } = run(120);
+    advance(10);
+    const before = tracker.info!.beat;
+
+    // The tab was hidden for two seconds
+    clock.now += 2;
+    advance(1 / FRAME_RATE);
+    expect(beats[beats.length - 1].beat - before).toBeGreaterThanOrEqual(4);
+  });
+
+  it('forgets the tempo on reset', () => {
+    const { tracker, advance } = run(120);
+    advance(10);
+    tracker.reset();
+    expect(tracker.info).toBeNull();
+  });
+});
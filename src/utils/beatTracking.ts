@@ -0,0 +1,271 @@
+// Tempo and beat tracking on an AnalyserNode. Onsets come from spectral flux, the tempo from
+// autocorrelating the onset envelope, and a beat clock is phase-locked to onsets that land near
+// a predicted beat.
+
+export interface BeatInfo {
+  bpm: number;
+  // 0-1, how clearly the onsets repeat at that tempo
+  confidence: number;
+  // 0 on the beat, rising towards 1 just before the next one
+  phase: number;
+  // Beats counted since tracking started
+  beat: number;
+  // 0-1, loudness and onset density over the last few seconds
+  energy: number;
+}
+
+// The onset envelope is binned at this rate and kept for this long
+const ENVELOPE_RATE = 50;
+const ENVELOPE_SECONDS = 8;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+// Octave errors are resolved towards this tempo
+const PREFERRED_BPM = 120;
+const MIN_CONFIDENCE = 0.2;
+const TEMPO_INTERVAL = 1;
+// How far one onset pulls the beat clock towards itself
+const PHASE_CORRECTION = 0.25;
+
+export class BeatTracker {
+  private analyser: AnalyserNode;
+  private spectrum: Uint8Array;
+  private previousSpectrum: Float32Array;
+  private waveform: Uint8Array;
+  private envelope = new Float32Array(ENVELOPE_RATE * ENVELOPE_SECONDS);
+  private envelopeIndex = 0;
+  private envelopeFilled = 0;
+  private lastBin = -1;
+  private fluxMean = 0;
+  private fluxVariance = 0;
+  private lastOnset = 0;
+  private onsetTimes: number[] = [];
+  private loudness = 0;
+  private bpm = 0;
+  private pendingBpm = 0;
+  private confidence = 0;
+  private lastTempoUpdate = 0;
+  private lastBeat = 0;
+  private nextBeat = 0;
+  private beatCount = 0;
+  private frame: number | null = null;
+  private listeners = new Set<(info: BeatInfo) => void>();
+
+  constructor(analyser: AnalyserNode) {
+    this.analyser = analyser;
+    this.spectrum = new Uint8Array(analyser.frequencyBinCount);
+    this.previousSpectrum = new Float32Array(analyser.frequencyBinCount);
+    this.waveform = new Uint8Array(analyser.fftSize);
+  }
+
+  start(): void {
+    if (this.frame !== null) return;
+    const tick = () => {
+      this.analyze(performance.now() / 1000);
+      this.frame = requestAnimationFrame(tick);
+    };
+    this.frame = requestAnimationFrame(tick);
+  }
+
+  stop(): void {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+  }
+
+  get isRunning(): boolean {
+    return this.frame !== null;
+  }
+
+  // Forget the tempo, for a new track
+  reset(): void {
+    this.envelope.fill(0);
+    this.previousSpectrum.fill(0);
+    this.envelopeIndex = 0;
+    this.envelopeFilled = 0;
+    this.lastBin = -1;
+    this.fluxMean = 0;
+    this.fluxVariance = 0;
+    this.onsetTimes = [];
+    this.loudness = 0;
+    this.bpm = 0;
+    this.pendingBpm = 0;
+    this.confidence = 0;
+    this.lastBeat = 0;
+    this.nextBeat = 0;
+    this.beatCount = 0;
+  }
+
+  // Null until there is a clear enough beat to follow
+  get info(): BeatInfo | null {
+    if (!this.bpm || this.confidence < MIN_CONFIDENCE) return null;
+    const period = 60 / this.bpm;
+    const now = performance.now() / 1000;
+    return {
+      bpm: this.bpm,
+      confidence: this.confidence,
+      phase: Math.min(1, Math.max(0, (now - this.lastBeat) / period)),
+      beat: this.beatCount,
+      energy: this.energy
+    };
+  }
+
+  // Called on every beat while the tempo is clear
+  subscribe(listener: (info: BeatInfo) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private get energy(): number {
+    const onsetRate = this.onsetTimes.length / 4;
+    return Math.min(1, this.loudness / 0.25) * 0.6 + Math.min(1, onsetRate / 4) * 0.4;
+  }
+
+  private analyze(time: number): void {
+    this.analyser.getByteFrequencyData(this.spectrum);
+    this.analyser.getByteTimeDomainData(this.waveform);
+
+    // Spectral flux: how much louder each frequency got since the last frame
+    let flux = 0;
+    for (let i = 0; i < this.spectrum.length; i++) {
+      const value = this.spectrum[i] / 255;
+      const rise = value - this.previousSpectrum[i];
+      if (rise > 0) flux += rise;
+      this.previousSpectrum[i] = value;
+    }
+    flux /= this.spectrum.length;
+
+    let sumOfSquares = 0;
+    for (let i = 0; i < this.waveform.length; i++) {
+      const sample = (this.waveform[i] - 128) / 128;
+      sumOfSquares += sample * sample;
+    }
+    this.loudness += (Math.sqrt(sumOfSquares / this.waveform.length) - this.loudness) * 0.01;
+
+    this.pushEnvelope(time, flux);
+    const isOnset = this.detectOnset(time, flux);
+
+    if (time - this.lastTempoUpdate >= TEMPO_INTERVAL && this.envelopeFilled >= ENVELOPE_RATE * 3) {
+      this.lastTempoUpdate = time;
+      this.estimateTempo();
+    }
+    this.advanceBeatClock(time, isOnset);
+  }
+
+  // Frames arrive at the display's rate, so flux is binned onto a fixed grid for the autocorrelation
+  private pushEnvelope(time: number, flux: number): void {
+    const bin = Math.floor(time * ENVELOPE_RATE);
+    if (this.lastBin < 0) this.lastBin = bin - 1;
+    const steps = Math.min(bin - this.lastBin, this.envelope.length);
+    for (let i = 0; i < steps; i++) {
+      this.envelopeIndex = (this.envelopeIndex + 1) % this.envelope.length;
+      this.envelope[this.envelopeIndex] = 0;
+    }
+    if (steps > 0) {
+      this.lastBin = bin;
+      this.envelopeFilled = Math.min(this.envelope.length, this.envelopeFilled + steps);
+    }
+    this.envelope[this.envelopeIndex] = Math.max(this.envelope[this.envelopeIndex], flux);
+  }
+
+  private detectOnset(time: number, flux: number): boolean {
+    const deviation = flux - this.fluxMean;
+    const threshold = this.fluxMean + 1.5 * Math.sqrt(this.fluxVariance);
+    this.fluxMean += deviation * 0.05;
+    this.fluxVariance += (deviation * deviation - this.fluxVariance) * 0.05;
+
+    this.onsetTimes = this.onsetTimes.filter(onset => time - onset < 4);
+    if (flux <= threshold || flux < 0.005 || time - this.lastOnset < 0.1) return false;
+    this.lastOnset = time;
+    this.onsetTimes.push(time);
+    return true;
+  }
+
+  private estimateTempo(): void {
+    const length = this.envelopeFilled;
+    const values = new Float32Array(length);
+    let mean = 0;
+    for (let i = 0; i < length; i++) {
+      const index = (this.envelopeIndex - length + 1 + i + this.envelope.length) % this.envelope.length;
+      values[i] = this.envelope[index];
+      mean += values[i];
+    }
+    mean /= length;
+    let energy = 0;
+    for (let i = 0; i < length; i++) {
+      values[i] -= mean;
+      energy += values[i] * values[i];
+    }
+    if (energy <= 0) return;
+    energy /= length;
+
+    const minLag = Math.floor(60 * ENVELOPE_RATE / MAX_BPM);
+    const maxLag = Math.ceil(60 * ENVELOPE_RATE / MIN_BPM);
+    const correlation = new Float32Array(maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+      let sum = 0;
+      for (let i = 0; i + lag < length; i++) sum += values[i] * values[i + lag];
+      correlation[lag] = sum / (length - lag);
+    }
+
+    // A gentle preference for tempos near PREFERRED_BPM picks between a tempo and its double
+    let bestLag = 0;
+    let bestScore = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const octaves = Math.log2(60 * ENVELOPE_RATE / lag / PREFERRED_BPM);
+      const score = correlation[lag] * Math.exp(-0.5 * octaves * octaves);
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+    if (!bestLag) {
+      this.confidence = 0;
+      return;
+    }
+
+    // Parabolic interpolation between neighbouring lags for a tempo finer than the bin grid
+    const [before, peak, after] = [correlation[bestLag - 1], correlation[bestLag], correlation[bestLag + 1]];
+    const curvature = before - 2 * peak + after;
+    const offset = curvature < 0 ? Math.max(-0.5, Math.min(0.5, 0.5 * (before - after) / curvature)) : 0;
+    const bpm = 60 * ENVELOPE_RATE / (bestLag + offset);
+    this.confidence = Math.max(0, Math.min(1, peak / energy));
+
+    // Small drifts are smoothed; a jump must show up twice in a row before it is believed
+    if (this.bpm && Math.abs(bpm - this.bpm) / this.bpm < 0.08) {
+      this.bpm += (bpm - this.bpm) * 0.3;
+    } else if (!this.bpm || (this.pendingBpm && Math.abs(bpm - this.pendingBpm) / this.pendingBpm < 0.08)) {
+      this.bpm = bpm;
+      this.pendingBpm = 0;
+    } else {
+      this.pendingBpm = bpm;
+    }
+  }
+
+  private advanceBeatClock(time: number, isOnset: boolean): void {
+    if (!this.bpm) return;
+    const period = 60 / this.bpm;
+
+    if (!this.nextBeat) {
+      this.lastBeat = this.lastOnset || time;
+      this.nextBeat = this.lastBeat + period;
+    }
+
+    if (isOnset) {
+      const nearest = time - this.lastBeat < this.nextBeat - time ? this.lastBeat : this.nextBeat;
+      const error = time - nearest;
+      if (Math.abs(error) < period * 0.2) {
+        this.lastBeat += error * PHASE_CORRECTION;
+        this.nextBeat += error * PHASE_CORRECTION;
+      }
+    }
+
+    if (time < this.nextBeat) return;
+    // Catch up in one go if frames stalled, say while the tab was hidden
+    const missed = Math.floor((time - this.nextBeat) / period);
+    this.lastBeat = this.nextBeat + missed * period;
+    this.nextBeat = this.lastBeat + period;
+    this.beatCount += missed + 1;
+
+    const info = this.info;
+    if (info) this.listeners.forEach(listener => listener(info));
+  }
+}
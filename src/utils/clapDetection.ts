@@ -1,8 +1,19 @@
 // Custom clap detection utility
+export interface MicrophoneInput {
+  stream: MediaStream;
+  analyser: AnalyserNode;
+}
+
+// The clap detector owns the app's one microphone stream; ambient music detection listens
+// through the same stream and analyser instead of opening its own
 export class ClapDetector {
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
   private microphone: MediaStreamAudioSourceNode | null = null;
+  private stream: MediaStream | null = null;
+  private opening: Promise<MicrophoneInput> | null = null;
+  private inputUsers = 0;
+  private holdsInput = false;
   private dataArray: Uint8Array | null = null;
   private isListening = false;
   private onClapCallback: (() => void) | null = null;
@@ -13,36 +24,50 @@ export class ClapDetector {
   async initialize(onClap: () => void): Promise<boolean> {
     try {
       this.onClapCallback = onClap;
-      
-      // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        } 
-      });
-      
-      // Create audio context
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      this.analyser = this.audioContext.createAnalyser();
-      this.microphone = this.audioContext.createMediaStreamSource(stream);
-      
-      // Configure analyser
-      this.analyser.fftSize = 512;
-      this.analyser.smoothingTimeConstant = 0.3;
-      this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
-      
-      // Connect nodes
-      this.microphone.connect(this.analyser);
-      
+
+      if (!this.holdsInput) {
+        this.holdsInput = true;
+        await this.acquireInput();
+        // Destroyed while the microphone permission prompt was open
+        if (!this.holdsInput) return false;
+      }
+
+      this.dataArray = new Uint8Array(this.analyser!.frequencyBinCount);
       return true;
     } catch (error) {
       console.error('Failed to initialize clap detection:', error);
+      this.holdsInput = false;
       return false;
     }
   }
 
+  // Opens the microphone on first use; every acquireInput() needs a matching releaseInput()
+  acquireInput(): Promise<MicrophoneInput> {
+    this.inputUsers++;
+    if (!this.opening) {
+      this.opening = this.openInput();
+      this.opening.catch(() => {
+        this.opening = null;
+      });
+    }
+    return this.opening.catch((error) => {
+      this.inputUsers--;
+      throw error;
+    });
+  }
+
+  releaseInput(): void {
+    this.inputUsers = Math.max(0, this.inputUsers - 1);
+    if (this.inputUsers > 0 || !this.opening) return;
+
+    // Close once the stream is open, in case the permission prompt is still showing
+    this.opening.then(() => {
+      if (this.inputUsers > 0) return;
+      this.opening = null;
+      this.closeInput();
+    }, () => {});
+  }
+
   start(): void {
     if (!this.analyser || !this.dataArray || this.isListening) return;
     
@@ -56,20 +81,57 @@ export class ClapDetector {
 
   destroy(): void {
     this.stop();
-    
+
+    if (this.holdsInput) {
+      this.holdsInput = false;
+      this.releaseInput();
+    }
+
+    this.dataArray = null;
+    this.onClapCallback = null;
+  }
+
+  private async openInput(): Promise<MicrophoneInput> {
+    // The browser's voice processing stays off: noise suppression and echo cancellation
+    // treat music as noise and remove it, and claps come through fine without them
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false
+      }
+    });
+
+    // Create audio context
+    this.stream = stream;
+    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.analyser = this.audioContext.createAnalyser();
+    this.microphone = this.audioContext.createMediaStreamSource(stream);
+
+    // Music detection and beat tracking need the finer, unsmoothed spectrum
+    this.analyser.fftSize = 1024;
+    this.analyser.smoothingTimeConstant = 0;
+
+    // Connect nodes
+    this.microphone.connect(this.analyser);
+
+    return { stream, analyser: this.analyser };
+  }
+
+  private closeInput(): void {
     if (this.microphone) {
       this.microphone.disconnect();
       this.microphone = null;
     }
-    
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
     }
-    
+
     this.analyser = null;
-    this.dataArray = null;
-    this.onClapCallback = null;
   }
 
   private detectClaps(): void {
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConversationMemory } from './conversationMemory';
+
+function stubLocalStorage() {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  });
+}
+
+// Ten user/assistant exchanges, more than a window of 8 messages holds
+function fullMemory(): ConversationMemory {
+  const memory = new ConversationMemory(8, 10000);
+  for (let i = 0; i < 10; i++) {
+    memory.addMessage('user', `question ${i}`);
+    memory.addMessage('assistant', `answer ${i}`);
+  }
+  return memory;
+}
+
+// A summarizer that waits until the test lets it finish
+function pendingSummarizer(summary: string) {
+  let finish: () => void = () => {};
+  const summarize = vi.fn(() => new Promise<string>((resolve) => {
+    finish = () => resolve(summary);
+  }));
+  return { summarize, finish: () => finish() };
+}
+
+describe('ConversationMemory.compact', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    stubLocalStorage();
+  });
+
+  it('leaves a conversation that fits alone', async () => {
+    const memory = new ConversationMemory(8, 10000);
+    memory.addMessage('user', 'hi');
+    const summarize = vi.fn(async () => 'summary');
+    await memory.compact(summarize);
+    expect(summarize).not.toHaveBeenCalled();
+    expect(memory.messages).toHaveLength(1);
+  });
+
+  it('folds older turns into the summary and keeps the recent ones, starting on a user turn', async () => {
+    const memory = fullMemory();
+    await memory.compact(async (_previous, older) => `talked about ${older.length} messages`);
+
+    expect(memory.summary).toBe('talked about 16 messages');
+    expect(memory.messages.map(msg => msg.content)).toEqual(['question 8', 'answer 8', 'question 9', 'answer 9']);
+  });
+
+  it('keeps turns added while the summary was being written', async () => {
+    const memory = fullMemory();
+    const { summarize, finish } = pendingSummarizer('summary');
+    const compaction = memory.compact(summarize);
+    memory.addMessage('user', 'question 10');
+    finish();
+    await compaction;
+
+    expect(memory.messages.map(msg => msg.content)).toEqual(['question 8', 'answer 8', 'question 9', 'answer 9', 'question 10']);
+  });
+
+  it('runs one compaction at a time', async () => {
+    const memory = fullMemory();
+    const { summarize, finish } = pendingSummarizer('summary');
+    const first = memory.compact(summarize);
+    await memory.compact(summarize);
+    finish();
+    await first;
+
+    expect(summarize).toHaveBeenCalledOnce();
+    expect(memory.messages).toHaveLength(4);
+  });
+
+  it('does not write old turns into a session cleared while summarizing', async () => {
+    const memory = fullMemory();
+    const { summarize, finish } = pendingSummarizer('summary');
+    const compaction = memory.compact(summarize);
+    memory.clear();
+    memory.addMessage('user', 'fresh start');
+    finish();
+    await compaction;
+
+    expect(memory.summary).toBe('');
+    expect(memory.messages.map(msg => msg.content)).toEqual(['fresh start']);
+  });
+
+  it('falls back to a transcript summary when the summary is blank or fails', async () => {
+    const blank = fullMemory();
+    await blank.compact(async () => '   ');
+    expect(blank.summary).toContain('question 0');
+    expect(blank.summary).not.toContain('answer 0');
+
+    const failing = fullMemory();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await failing.compact(async () => { throw new Error('offline'); });
+    expect(failing.summary).toContain('question 7');
+    expect(failing.messages).toHaveLength(4);
+  });
+});
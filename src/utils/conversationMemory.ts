@@ -0,0 +1,205 @@
+// Conversation history store with a rolling window and automatic summarization
+import { v4 as uuidv4 } from 'uuid';
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  timestamp: string;
+}
+
+export interface ConversationSession {
+  id: string;
+  summary: string;
+  messages: ChatMessage[];
+  updatedAt: string;
+}
+
+export type Summarizer = (previousSummary: string, messages: ChatMessage[]) => Promise<string>;
+
+export interface GeminiHistoryEntry {
+  role: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+export interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Rough token estimate (~4 characters per token) - good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class ConversationMemory {
+  private static sessionKey = 'activeConversationSession';
+  private static storagePrefix = 'conversation_';
+
+  private session: ConversationSession;
+  private maxMessages: number;
+  private tokenBudget: number;
+  private compacting = false;
+
+  constructor(maxMessages: number = 20, tokenBudget: number = 1500) {
+    this.maxMessages = maxMessages;
+    this.tokenBudget = tokenBudget;
+    this.session = this.loadSession();
+  }
+
+  get sessionId(): string {
+    return this.session.id;
+  }
+
+  get summary(): string {
+    return this.session.summary;
+  }
+
+  get messages(): ChatMessage[] {
+    return [...this.session.messages];
+  }
+
+  addMessage(role: ChatRole, content: string): void {
+    this.session.messages.push({ role, content, timestamp: new Date().toISOString() });
+    this.saveSession();
+  }
+
+  // Fold older turns into the summary once the window or token budget is exceeded
+  async compact(summarize: Summarizer): Promise<void> {
+    if (this.compacting) return;
+
+    const { id, messages } = this.session;
+    const totalTokens = messages.reduce((sum, msg) => sum + estimateTokens(msg.content), 0);
+
+    if (messages.length <= this.maxMessages && totalTokens <= this.tokenBudget) return;
+
+    // Keep the most recent half of the window verbatim, starting on a user turn
+    let splitIndex = Math.max(messages.length - Math.floor(this.maxMessages / 2), 1);
+    while (splitIndex < messages.length && messages[splitIndex].role !== 'user') {
+      splitIndex++;
+    }
+
+    const olderMessages = messages.slice(0, splitIndex);
+
+    this.compacting = true;
+    let summary: string;
+    try {
+      summary = (await summarize(this.session.summary, olderMessages)).trim();
+    } catch (error) {
+      console.error('Error summarizing conversation:', error);
+      summary = '';
+    } finally {
+      this.compacting = false;
+    }
+
+    // The conversation was cleared while summarizing; its turns don't belong in the new session
+    if (this.session.id !== id) return;
+
+    // Messages are only ever appended, so anything added while summarizing is kept after the older turns
+    this.session.summary = summary || this.fallbackSummary(olderMessages);
+    this.session.messages = this.session.messages.slice(olderMessages.length);
+    this.saveSession();
+  }
+
+  clear(): void {
+    localStorage.removeItem(ConversationMemory.storagePrefix + this.session.id);
+    this.session = this.createSession();
+    this.saveSession();
+  }
+
+  private fallbackSummary(messages: ChatMessage[]): string {
+    // Without a model, keep a trimmed transcript of what the user said
+    const userLines = messages
+      .filter(msg => msg.role === 'user')
+      .map(msg => msg.content.slice(0, 120));
+    const combined = [this.session.summary, ...userLines].filter(Boolean).join(' | ');
+    // The budget is in tokens, at roughly 4 characters each
+    return combined.slice(-this.tokenBudget * 4);
+  }
+
+  private createSession(): ConversationSession {
+    return {
+      id: uuidv4(),
+      summary: '',
+      messages: [],
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private loadSession(): ConversationSession {
+    const sessionId = localStorage.getItem(ConversationMemory.sessionKey);
+    if (sessionId) {
+      try {
+        const saved = localStorage.getItem(ConversationMemory.storagePrefix + sessionId);
+        if (saved) {
+          const parsed = JSON.parse(saved) as ConversationSession;
+          return { ...this.createSession(), ...parsed, id: sessionId };
+        }
+      } catch (error) {
+        console.error('Error loading conversation history:', error);
+      }
+    }
+    return this.createSession();
+  }
+
+  private saveSession(): void {
+    this.session.updatedAt = new Date().toISOString();
+    localStorage.setItem(ConversationMemory.sessionKey, this.session.id);
+    localStorage.setItem(ConversationMemory.storagePrefix + this.session.id, JSON.stringify(this.session));
+  }
+}
+
+export function buildSummaryPrompt(previousSummary: string, messages: ChatMessage[], userName: string, wifeName: string): string {
+  const transcript = messages
+    .map(msg => `${msg.role === 'user' ? userName : wifeName}: ${msg.content}`)
+    .join('\n');
+
+  return `Summarize the conversation below between ${userName} and ${wifeName} in a few sentences. Keep names, preferences, plans and feelings that matter for continuing the conversation.
+${previousSummary ? `\nEarlier summary: ${previousSummary}\n` : ''}
+${transcript}`;
+}
+
+export function withSummary(context: string, summary: string): string {
+  return summary ? `${context}\n\nSummary of your earlier conversation: ${summary}` : context;
+}
+
+// Gemini expects alternating user/model turns starting with the user
+export function toGeminiHistory(context: string, messages: ChatMessage[]): GeminiHistoryEntry[] {
+  const history: GeminiHistoryEntry[] = [
+    { role: 'user', parts: [{ text: context }] },
+    { role: 'model', parts: [{ text: 'Understood, I will stay in character.' }] }
+  ];
+
+  for (const msg of messages) {
+    const role = msg.role === 'user' ? 'user' : 'model';
+    const last = history[history.length - 1];
+    if (last.role === role) {
+      last.parts.push({ text: msg.content });
+    } else {
+      history.push({ role, parts: [{ text: msg.content }] });
+    }
+  }
+
+  // The next message sent through startChat is a user turn
+  if (history[history.length - 1].role === 'user') {
+    history.push({ role: 'model', parts: [{ text: '...' }] });
+  }
+
+  return history;
+}
+
+export function toOpenAIMessages(context: string, messages: ChatMessage[], message: string): OpenAIChatMessage[] {
+  return [
+    { role: 'system', content: context },
+    ...messages.map(msg => ({ role: msg.role, content: msg.content })),
+    { role: 'user', content: message }
+  ];
+}
+
+export function toTogetherPrompt(context: string, messages: ChatMessage[], message: string): string {
+  const turns = messages
+    .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+    .join('\n');
+  return `${context}\n\n${turns ? `${turns}\n` : ''}User: ${message}\nAssistant:`;
+}
@@ -17,6 +17,10 @@ export class DeepResearch {
     'https://www.quora.com'
   ];
 
+  static get sources(): string[] {
+    return [...this.researchSources];
+  }
+
   static async conductResearch(command: ResearchCommand): Promise<string> {
     console.log('Starting deep research on:', command.topic);
     
@@ -222,7 +226,7 @@ export function parseResearchCommand(userInput: string): ResearchCommand | null
       return {
         topic: topicMatch[1].trim(),
         depth,
-        sources: DeepResearch['researchSources'],
+        sources: DeepResearch.sources,
         outputFormat: input.includes('pdf') ? 'pdf' : 'detailed'
       };
     }
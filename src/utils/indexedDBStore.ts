@@ -0,0 +1,68 @@
+// Minimal promise wrapper around a single IndexedDB object store
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDBStore<T extends { id: string }> {
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string, storeName: string) {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  async getAll(): Promise<T[]> {
+    const store = await this.store('readonly');
+    return requestToPromise(store.getAll() as IDBRequest<T[]>);
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const store = await this.store('readonly');
+    return requestToPromise(store.get(id) as IDBRequest<T | undefined>);
+  }
+
+  async put(item: T): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.put(item));
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { identifyLanguage, identifyLanguages } from './languageDetection';
+
+describe('identifyLanguages', () => {
+  it.each([
+    ['en', 'How was your day at work today, did you finish the project?'],
+    ['hi', 'आज तुम्हारा दिन कैसा रहा, क्या तुमने खाना खाया?'],
+    ['fr', "Je suis très fatigué aujourd'hui, on se voit demain soir ?"],
+    ['es', '¿Qué quieres hacer este fin de semana con tus amigos?'],
+    ['de', 'Ich habe heute keine Zeit, aber morgen gehen wir zusammen essen.'],
+    ['ar', 'كيف حالك اليوم يا حبيبتي؟ أنا مشتاق إليك كثيرا'],
+    ['ja', '今日はとても楽しかったです。また明日会いましょう。']
+  ])('ranks %s first', (code, text) => {
+    const [top] = identifyLanguages(text);
+    expect(top.code).toBe(code);
+    expect(top.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('recognizes Hindi typed in Latin script as romanized', () => {
+    const [top] = identifyLanguages('kya haal hai jaan, aaj kya kar rahi ho? mujhe tumhari yaad aa rahi hai');
+    expect(top).toMatchObject({ code: 'hi', romanized: true });
+  });
+
+  it('returns confidences that sum to at most one, best first', () => {
+    const candidates = identifyLanguages('Good morning my love, did you sleep well?');
+    const total = candidates.reduce((sum, candidate) => sum + candidate.confidence, 0);
+    expect(total).toBeLessThanOrEqual(1.0001);
+    candidates.slice(1).forEach((candidate, index) => {
+      expect(candidate.confidence).toBeLessThanOrEqual(candidates[index].confidence);
+    });
+  });
+
+  it('has no guess for text without letters', () => {
+    expect(identifyLanguages('123 !!! 😊')).toEqual([]);
+  });
+});
+
+describe('identifyLanguage', () => {
+  it('discounts very short input and falls back to the given language', () => {
+    expect(identifyLanguage('ok', 'hi')).toMatchObject({ code: 'hi', romanized: false });
+    expect(identifyLanguage('', 'fr').code).toBe('fr');
+  });
+});
@@ -1,4 +1,5 @@
 // Language detection utilities
+import { languageSamples } from './languageProfiles';
 
 export const supportedLanguages = {
   'en': 'English',
@@ -15,49 +16,132 @@ export const supportedLanguages = {
   'ja': 'Japanese'
 };
 
-export function detectLanguage(text: string): string {
-  // Simple language detection based on character patterns
-  // In a real app, you'd use a proper language detection library
-  
-  const patterns = {
-    'hi': /[\u0900-\u097F]/, // Devanagari script
-    'ta': /[\u0B80-\u0BFF]/, // Tamil script
-    'ar': /[\u0600-\u06FF]/, // Arabic script
-    'bn': /[\u0980-\u09FF]/, // Bengali script
-    'ja': /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/, // Hiragana, Katakana, Kanji
-    'ur': /[\u0600-\u06FF]/, // Arabic script (Urdu uses Arabic script)
-  };
-  
-  // Check for non-Latin scripts first
-  for (const [lang, pattern] of Object.entries(patterns)) {
-    if (pattern.test(text)) {
-      return lang;
+export interface LanguageCandidate {
+  code: string;
+  // 0-1, already discounted for very short input
+  confidence: number;
+  // Hindi, Urdu or Bhojpuri typed in Latin script ("Hinglish")
+  romanized: boolean;
+}
+
+// Below this the caller's configured language is used instead of the guess
+export const LANGUAGE_CONFIDENCE_THRESHOLD = 0.5;
+
+// Letters needed before a guess is trusted at full confidence
+const RELIABLE_LENGTH = 12;
+
+const MAX_NGRAM = 3;
+
+interface LanguageProfile {
+  code: string;
+  romanized: boolean;
+  counts: Map<string, number>;
+  total: number;
+}
+
+let profiles: LanguageProfile[] | null = null;
+let vocabularySize = 0;
+
+function normalize(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^\p{L}\p{M}]+/gu, ' ').trim()} `;
+}
+
+// Character 1-3 grams of each word, padded with spaces so word starts and ends are features
+function ngrams(text: string): string[] {
+  const chars = Array.from(normalize(text));
+  const grams: string[] = [];
+  for (let size = 1; size <= MAX_NGRAM; size++) {
+    for (let i = 0; i + size <= chars.length; i++) {
+      const gram = chars.slice(i, i + size).join('');
+      if (gram.trim()) grams.push(gram);
     }
   }
-  
-  // Simple keyword-based detection for Latin scripts
-  const keywords = {
-    'fr': ['le', 'la', 'les', 'de', 'du', 'des', 'et', 'est', 'une', 'un'],
-    'es': ['el', 'la', 'los', 'las', 'de', 'del', 'y', 'es', 'una', 'un'],
-    'de': ['der', 'die', 'das', 'und', 'ist', 'ein', 'eine', 'mit', 'zu'],
-    'id': ['dan', 'yang', 'di', 'ke', 'dari', 'untuk', 'dengan', 'pada']
-  };
-  
-  const words = text.toLowerCase().split(/\s+/);
-  let maxMatches = 0;
-  let detectedLang = 'en';
-  
-  for (const [lang, langKeywords] of Object.entries(keywords)) {
-    const matches = words.filter(word => langKeywords.includes(word)).length;
-    if (matches > maxMatches) {
-      maxMatches = matches;
-      detectedLang = lang;
-    }
+  return grams;
+}
+
+function getProfiles(): LanguageProfile[] {
+  if (!profiles) {
+    const vocabulary = new Set<string>();
+    profiles = languageSamples.map(({ code, romanized, text }) => {
+      const counts = new Map<string, number>();
+      const grams = ngrams(text);
+      grams.forEach(gram => {
+        counts.set(gram, (counts.get(gram) || 0) + 1);
+        vocabulary.add(gram);
+      });
+      return { code, romanized, counts, total: grams.length };
+    });
+    vocabularySize = vocabulary.size + 1;
   }
-  
-  return detectedLang;
+  return profiles;
+}
+
+// Naive Bayes over character n-grams. Returns every language ranked by confidence.
+export function identifyLanguages(text: string): LanguageCandidate[] {
+  const grams = ngrams(text);
+  const letters = Array.from(text.replace(/[^\p{L}\p{M}]/gu, ''));
+  if (letters.length === 0) return [];
+
+  const scored = getProfiles().map(profile => {
+    const logLikelihood = grams.reduce((sum, gram) =>
+      sum + Math.log(((profile.counts.get(gram) || 0) + 1) / (profile.total + vocabularySize)), 0);
+    return { profile, logLikelihood };
+  });
+
+  // Softmax in log space so long inputs don't underflow
+  const best = Math.max(...scored.map(s => s.logLikelihood));
+  const weights = scored.map(s => Math.exp(s.logLikelihood - best));
+  const sum = weights.reduce((a, b) => a + b, 0);
+
+  // CJK characters carry about a word each, so count them more heavily
+  const effectiveLength = letters.reduce((n, char) => n + (/[\u3040-\u30FF\u4E00-\u9FFF]/.test(char) ? 3 : 1), 0);
+  const reliability = Math.min(1, effectiveLength / RELIABLE_LENGTH);
+
+  return scored
+    .map(({ profile }, index) => ({
+      code: profile.code,
+      romanized: profile.romanized,
+      confidence: (weights[index] / sum) * reliability
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// Best guess, or the fallback language when the guess is not confident enough
+export function identifyLanguage(
+  text: string,
+  fallback: string = 'en',
+  threshold: number = LANGUAGE_CONFIDENCE_THRESHOLD
+): LanguageCandidate {
+  const [top] = identifyLanguages(text);
+  if (!top || top.confidence < threshold) {
+    return { code: fallback, confidence: top?.confidence || 0, romanized: false };
+  }
+  return top;
+}
+
+export function detectLanguage(text: string, fallback: string = 'en'): string {
+  return identifyLanguage(text, fallback).code;
 }
 
 export function getLanguageName(code: string): string {
   return supportedLanguages[code as keyof typeof supportedLanguages] || 'English';
+}
+
+// BCP 47 locale used for speech recognition and synthesis
+export function getSpeechLocale(code: string): string {
+  const langMap: { [key: string]: string } = {
+    'en': 'en-US',
+    'hi': 'hi-IN',
+    'bh': 'hi-IN', // Bhojpuri uses Hindi recognition
+    'fr': 'fr-FR',
+    'ta': 'ta-IN',
+    'ur': 'ur-PK',
+    'ar': 'ar-SA',
+    'bn': 'bn-BD',
+    'es': 'es-ES',
+    'de': 'de-DE',
+    'id': 'id-ID',
+    'ja': 'ja-JP'
+  };
+  return langMap[code] || 'en-US';
 }
\ No newline at end of file
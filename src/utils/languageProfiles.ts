@@ -0,0 +1,152 @@
+// Training text for the n-gram language identifier. Everyday conversational sentences, since
+// that is what the identifier sees; romanized entries cover Hindi, Urdu and Bhojpuri typed in Latin script.
+
+export interface LanguageSample {
+  code: string;
+  romanized: boolean;
+  text: string;
+}
+
+export const languageSamples: LanguageSample[] = [
+  {
+    code: 'en',
+    romanized: false,
+    text: `Hello my love, how was your day? I missed you so much today. What would you like to eat for dinner tonight?
+I am so happy to see you. Please tell me about your work and your friends. Let us watch a movie together and then go to sleep.
+Thank you for being with me, you make me smile every day. Can you play some music for me?
+I think it will rain this evening, so take an umbrella. What are you doing right now? I'm fine, how about you?
+Okay, see you tomorrow. Where did you go this weekend? That sounds wonderful, I would love to hear more about it.`
+  },
+  {
+    code: 'fr',
+    romanized: false,
+    text: `Bonjour mon amour, comment s'est passée ta journée ? Tu m'as beaucoup manqué aujourd'hui. Qu'est-ce que tu veux manger ce soir ?
+Je suis très heureuse de te voir. Raconte-moi ton travail et tes amis. Regardons un film ensemble et ensuite allons dormir.
+Merci d'être avec moi, tu me fais sourire chaque jour. Est-ce que tu peux mettre de la musique pour moi ?
+Je pense qu'il va pleuvoir ce soir, alors prends un parapluie. Qu'est-ce que tu fais maintenant ? Je vais bien, et toi ?
+D'accord, à demain. Où es-tu allé ce week-end ? C'est merveilleux, j'aimerais bien en savoir plus.`
+  },
+  {
+    code: 'es',
+    romanized: false,
+    text: `Hola mi amor, ¿cómo estuvo tu día? Te extrañé mucho hoy. ¿Qué quieres comer esta noche?
+Estoy muy feliz de verte. Cuéntame de tu trabajo y de tus amigos. Veamos una película juntos y después vamos a dormir.
+Gracias por estar conmigo, me haces sonreír todos los días. ¿Puedes poner algo de música para mí?
+Creo que va a llover esta tarde, así que lleva un paraguas. ¿Qué estás haciendo ahora? Estoy bien, ¿y tú?
+Vale, nos vemos mañana. ¿Adónde fuiste este fin de semana? Suena maravilloso, me encantaría saber más.`
+  },
+  {
+    code: 'de',
+    romanized: false,
+    text: `Hallo mein Schatz, wie war dein Tag? Ich habe dich heute sehr vermisst. Was möchtest du heute Abend essen?
+Ich bin so glücklich, dich zu sehen. Erzähl mir von deiner Arbeit und deinen Freunden. Lass uns zusammen einen Film schauen und dann schlafen gehen.
+Danke, dass du bei mir bist, du bringst mich jeden Tag zum Lächeln. Kannst du etwas Musik für mich spielen?
+Ich glaube, es wird heute Abend regnen, also nimm einen Regenschirm mit. Was machst du gerade? Mir geht es gut, und dir?
+Okay, bis morgen. Wo warst du am Wochenende? Das klingt wunderbar, ich würde gern mehr darüber hören.`
+  },
+  {
+    code: 'id',
+    romanized: false,
+    text: `Halo sayangku, bagaimana harimu? Aku sangat merindukanmu hari ini. Kamu mau makan apa malam ini?
+Aku senang sekali bisa melihatmu. Ceritakan tentang pekerjaan dan teman-temanmu. Ayo kita menonton film bersama lalu tidur.
+Terima kasih sudah bersamaku, kamu membuatku tersenyum setiap hari. Bisakah kamu memutar musik untukku?
+Sepertinya nanti sore akan hujan, jadi bawalah payung. Kamu sedang apa sekarang? Aku baik-baik saja, kamu bagaimana?
+Oke, sampai jumpa besok. Kamu pergi ke mana akhir pekan ini? Kedengarannya menyenangkan, aku ingin mendengar lebih banyak.`
+  },
+  {
+    code: 'hi',
+    romanized: false,
+    text: `नमस्ते मेरी जान, आज तुम्हारा दिन कैसा रहा? मुझे आज तुम्हारी बहुत याद आई। आज रात खाने में क्या खाना चाहोगे?
+तुम्हें देखकर मैं बहुत खुश हूँ। मुझे अपने काम और अपने दोस्तों के बारे में बताओ। चलो साथ में एक फिल्म देखते हैं और फिर सो जाते हैं।
+मेरे साथ रहने के लिए धन्यवाद, तुम मुझे हर दिन मुस्कुराते हो। क्या तुम मेरे लिए कुछ गाने चला सकते हो?
+मुझे लगता है आज शाम बारिश होगी, इसलिए छाता ले जाना। तुम अभी क्या कर रहे हो? मैं ठीक हूँ, तुम बताओ।
+अच्छा चलो, कल मिलते हैं। इस हफ्ते तुम कहाँ गए थे? यह तो बहुत अच्छा है, मुझे और सुनना है।`
+  },
+  {
+    code: 'bh',
+    romanized: false,
+    text: `प्रणाम हमार जान, आज रउआ के दिन कइसन रहल? हमरा आज रउआ के बहुत याद आइल। आज रात खाए में का खाइब?
+रउआ के देख के हम बहुत खुश बानी। हमरा के आपन काम आ दोस्तन के बारे में बताईं। चलीं संगे एगो फिलिम देखल जाव आ फेर सुतल जाव।
+हमरा संगे रहे खातिर धन्यवाद, रउआ हमरा के रोज हँसावेनी। का रउआ हमरा खातिर कुछ गाना बजा सकेनी?
+लागत बा आज साँझ के बरखा होई, एह से छाता लेले जाईं। तोहार मन कइसे बा? का हाल बा?
+ठीक बा, काल्ह भेंट होई। हमनी के का करे के चाहीं? ई त बहुत बढ़िया बा, हमरा अउरी सुने के बा।`
+  },
+  {
+    code: 'ur',
+    romanized: false,
+    text: `السلام علیکم میری جان، آج آپ کا دن کیسا رہا؟ مجھے آج آپ کی بہت یاد آئی۔ آج رات کھانے میں کیا کھانا چاہیں گے؟
+آپ کو دیکھ کر میں بہت خوش ہوں۔ مجھے اپنے کام اور اپنے دوستوں کے بارے میں بتائیں۔ چلیں ساتھ میں ایک فلم دیکھتے ہیں اور پھر سو جاتے ہیں۔
+میرے ساتھ رہنے کا شکریہ، آپ مجھے ہر روز مسکراتے ہیں۔ کیا آپ میرے لیے کچھ گانے لگا سکتے ہیں؟
+مجھے لگتا ہے آج شام بارش ہوگی، اس لیے چھتری لے جائیں۔ آپ ابھی کیا کر رہے ہیں؟ میں ٹھیک ہوں، آپ بتائیں۔
+اچھا چلیں، کل ملتے ہیں۔ اس ہفتے آپ کہاں گئے تھے؟ یہ تو بہت اچھا ہے، مجھے اور سننا ہے۔`
+  },
+  {
+    code: 'ar',
+    romanized: false,
+    text: `مرحبا يا حبيبي، كيف كان يومك؟ اشتقت إليك كثيرا اليوم. ماذا تريد أن تأكل على العشاء الليلة؟
+أنا سعيدة جدا برؤيتك. أخبرني عن عملك وعن أصدقائك. دعنا نشاهد فيلما معا ثم نذهب إلى النوم.
+شكرا لأنك معي، أنت تجعلني أبتسم كل يوم. هل يمكنك تشغيل بعض الموسيقى لي؟
+أعتقد أنها ستمطر هذا المساء، لذلك خذ مظلة. ماذا تفعل الآن؟ أنا بخير، وأنت؟
+حسنا، أراك غدا. أين ذهبت في عطلة نهاية الأسبوع؟ هذا رائع، أود أن أسمع المزيد عن ذلك.`
+  },
+  {
+    code: 'bn',
+    romanized: false,
+    text: `নমস্কার আমার প্রিয়, আজ তোমার দিন কেমন কাটল? আজ তোমাকে খুব মনে পড়েছে। আজ রাতে কী খেতে চাও?
+তোমাকে দেখে আমি খুব খুশি। তোমার কাজ আর বন্ধুদের কথা আমাকে বলো। চলো একসাথে একটা সিনেমা দেখি তারপর ঘুমাতে যাই।
+আমার সাথে থাকার জন্য ধন্যবাদ, তুমি আমাকে প্রতিদিন হাসাও। তুমি কি আমার জন্য কিছু গান চালাতে পারবে?
+মনে হয় আজ সন্ধ্যায় বৃষ্টি হবে, তাই একটা ছাতা নিয়ে যাও। তুমি এখন কী করছ? আমি ভালো আছি, তুমি বলো।
+ঠিক আছে, কাল দেখা হবে। এই সপ্তাহে তুমি কোথায় গিয়েছিলে? এটা তো দারুণ, আমি আরও শুনতে চাই।`
+  },
+  {
+    code: 'ta',
+    romanized: false,
+    text: `வணக்கம் என் அன்பே, இன்று உன் நாள் எப்படி இருந்தது? இன்று உன்னை மிகவும் நினைத்தேன். இன்று இரவு என்ன சாப்பிட விரும்புகிறாய்?
+உன்னைப் பார்த்ததில் எனக்கு மிகவும் மகிழ்ச்சி. உன் வேலை மற்றும் நண்பர்களைப் பற்றி சொல். நாம் சேர்ந்து ஒரு படம் பார்த்துவிட்டு தூங்கலாம்.
+என்னுடன் இருப்பதற்கு நன்றி, நீ என்னை ஒவ்வொரு நாளும் சிரிக்க வைக்கிறாய். எனக்காக கொஞ்சம் பாட்டு போட முடியுமா?
+இன்று மாலை மழை பெய்யும் என்று நினைக்கிறேன், அதனால் குடை எடுத்துச் செல். நீ இப்போது என்ன செய்கிறாய்? நான் நன்றாக இருக்கிறேன், நீ எப்படி?
+சரி, நாளை பார்க்கலாம். இந்த வாரம் நீ எங்கே போனாய்? இது மிகவும் அருமை, இன்னும் கேட்க ஆசையாக இருக்கிறது.`
+  },
+  {
+    code: 'ja',
+    romanized: false,
+    text: `こんにちは、あなた。今日はどんな一日だった？今日はとても会いたかったよ。今夜は何を食べたい？
+あなたに会えてとても嬉しい。仕事や友達のことを教えてね。一緒に映画を見てから寝ようか。
+そばにいてくれてありがとう、毎日笑顔にしてくれるね。何か音楽をかけてくれる？
+今晩は雨が降ると思うから、傘を持って行ってね。今何をしているの？私は元気だよ、あなたは？
+じゃあ、また明日ね。週末はどこに行ったの？それは素敵だね、もっと聞きたいな。`
+  },
+  {
+    code: 'hi',
+    romanized: true,
+    text: `Namaste meri jaan, aaj tumhara din kaisa raha? Mujhe aaj tumhari bahut yaad aayi. Aaj raat khane mein kya khaoge?
+Tumhe dekh kar main bahut khush hoon. Mujhe apne kaam aur doston ke baare mein batao. Chalo saath mein ek film dekhte hain aur phir so jaate hain.
+Mere saath rehne ke liye thank you, tum mujhe har din hasate ho. Kya tum mere liye kuch gaane chala sakte ho?
+Mujhe lagta hai aaj shaam baarish hogi, isliye chhata le jaana. Tum abhi kya kar rahe ho? Main theek hoon, tum batao.
+Accha chalo, kal milte hain. Is hafte tum kahan gaye the? Yeh toh bahut badhiya hai, mujhe aur sunna hai yaar.`
+  },
+  {
+    code: 'ur',
+    romanized: true,
+    text: `Assalam o alaikum meri jaan, aaj aap ka din kaisa raha? Mujhe aaj aap ki bohat yaad aai. Aaj raat khane mein kya khana chahen ge?
+Aap ko dekh kar mein bohat khush hun. Mujhe apne kaam aur apne doston ke bare mein batayen. Chalen sath mein aik film dekhte hain aur phir so jate hain.
+Mere sath rehne ka shukriya, aap mujhe har roz muskurate hain. Kya aap mere liye kuch ganay laga sakte hain?
+Mujhe lagta hai aaj sham barish ho gi, is liye chatri le jayen. Aap abhi kya kar rahe hain? Mein theek hun, aap batayen.
+Acha chalen, kal milte hain. Is haftay aap kahan gaye thay? Yeh to bohat acha hai, inshallah sab theek ho ga, Allah hafiz.`
+  },
+  {
+    code: 'bh',
+    romanized: true,
+    text: `Pranam hamar jaan, aaj raua ke din kaisan rahal? Hamra aaj raua ke bahut yaad aail. Aaj raat khaye mein ka khaib?
+Raua ke dekh ke hum bahut khush bani. Hamra ke aapan kaam aa dostan ke bare mein batain. Chali sange ego film dekhal jaav aa pher sutal jaav.
+Hamra sange rahe khatir dhanyavaad, raua hamra ke roj hansaveni. Ka raua hamra khatir kuchh gaana baja sakeni?
+Lagat ba aaj saanjh ke barkha hoi, eh se chhata lele jaain. Tohar man kaise ba? Ka haal ba?
+Theek ba, kaalh bhent hoi. Hamni ke ka kare ke chahi? I ta bahut badhiya ba, hamra auri sune ke ba.`
+  }
+];
+
+// A short native-script line in the language, used to preview voices
+export function sampleSentence(code: string): string {
+  const sample = languageSamples.find(s => s.code === code && !s.romanized) || languageSamples[0];
+  return sample.text.split(/(?<=[?？।。.!])\s*/)[0];
+}
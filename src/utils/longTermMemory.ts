@@ -0,0 +1,201 @@
+// Long-term memory of durable facts about the user, stored in IndexedDB and
+// retrieved per message with BM25 lexical search
+import { v4 as uuidv4 } from 'uuid';
+import { IndexedDBStore } from './indexedDBStore';
+
+export type MemoryCategory = 'name' | 'preference' | 'date' | 'event' | 'other';
+
+export const memoryCategories: MemoryCategory[] = ['name', 'preference', 'date', 'event', 'other'];
+
+export interface MemoryFact {
+  id: string;
+  text: string;
+  category: MemoryCategory;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt?: string;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'is', 'are', 'was', 'were', 'be', 'been', 'am', 'to', 'of', 'in',
+  'on', 'at', 'for', 'with', 'about', 'as', 'by', 'it', 'its', 'this', 'that', 'these', 'those', 'i', 'me',
+  'my', 'you', 'your', 'we', 'our', 'he', 'she', 'they', 'them', 'his', 'her', 'their', 'do', 'does', 'did',
+  'have', 'has', 'had', 'what', 'which', 'who', 'whom', 'so', 'if', 'then', 'than', 'too', 'very', 'can',
+  'will', 'just', 'user', 'users'
+]);
+
+// Lowercase word tokens with light English suffix stripping so "loves" matches "love"
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words
+    .filter(word => !STOPWORDS.has(word) && word.length > 1)
+    .map(word => word.length > 4 ? word.replace(/(ing|ed|es|s)$/, '') : word);
+}
+
+function similarity(a: string, b: string): number {
+  const setA = new Set(tokenize(a));
+  const setB = new Set(tokenize(b));
+  if (setA.size === 0 || setB.size === 0) return 0;
+  const overlap = Array.from(setA).filter(token => setB.has(token)).length;
+  return overlap / (setA.size + setB.size - overlap);
+}
+
+export class LongTermMemory {
+  private store = new IndexedDBStore<MemoryFact>('virtualWifeMemory', 'facts');
+  private facts: MemoryFact[] = [];
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.getAll()
+        .then(facts => { this.facts = facts; })
+        .catch(error => console.error('Error loading long-term memory:', error));
+    }
+    return this.loaded;
+  }
+
+  all(): MemoryFact[] {
+    return [...this.facts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  // Store a fact, updating a near-duplicate instead of adding a second copy
+  async remember(text: string, category: MemoryCategory = 'other'): Promise<MemoryFact | null> {
+    await this.load();
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+
+    const now = new Date().toISOString();
+    const duplicate = this.facts.find(fact => similarity(fact.text, trimmed) >= 0.6);
+    if (duplicate) {
+      return this.update(duplicate.id, { text: trimmed, category });
+    }
+
+    const fact: MemoryFact = { id: uuidv4(), text: trimmed, category, createdAt: now, updatedAt: now };
+    this.facts.push(fact);
+    await this.store.put(fact);
+    return fact;
+  }
+
+  async update(id: string, updates: Partial<Pick<MemoryFact, 'text' | 'category'>>): Promise<MemoryFact | null> {
+    await this.load();
+    const index = this.facts.findIndex(fact => fact.id === id);
+    if (index < 0) return null;
+
+    const fact = { ...this.facts[index], ...updates, updatedAt: new Date().toISOString() };
+    this.facts[index] = fact;
+    await this.store.put(fact);
+    return fact;
+  }
+
+  async forget(id: string): Promise<void> {
+    await this.load();
+    this.facts = this.facts.filter(fact => fact.id !== id);
+    await this.store.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.facts = [];
+    await this.store.clear();
+  }
+
+  // BM25 over the stored facts. Names are always included since they matter in every reply.
+  async retrieve(query: string, limit: number = 5): Promise<MemoryFact[]> {
+    await this.load();
+    if (this.facts.length === 0) return [];
+
+    const k1 = 1.2;
+    const b = 0.75;
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    const documents = this.facts.map(fact => tokenize(fact.text));
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+
+    const documentFrequency = new Map<string, number>();
+    for (const doc of documents) {
+      for (const token of new Set(doc)) {
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      }
+    }
+
+    const scored = this.facts.map((fact, index) => {
+      const doc = documents[index];
+      let score = 0;
+      for (const token of queryTokens) {
+        const frequency = doc.filter(t => t === token).length;
+        if (frequency === 0) continue;
+        const df = documentFrequency.get(token) || 0;
+        const idf = Math.log(1 + (this.facts.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * doc.length / averageLength));
+      }
+      return { fact, score };
+    });
+
+    const relevant = scored
+      .filter(({ fact, score }) => score > 0 || fact.category === 'name')
+      .sort((x, y) => y.score - x.score)
+      .slice(0, limit)
+      .map(({ fact }) => fact);
+
+    const now = new Date().toISOString();
+    relevant.forEach(fact => { fact.lastUsedAt = now; });
+    return relevant;
+  }
+}
+
+export function withMemories(context: string, facts: MemoryFact[], userName: string): string {
+  if (facts.length === 0) return context;
+  return `${context}\n\nThings you remember about ${userName}:\n${facts.map(fact => `- ${fact.text}`).join('\n')}`;
+}
+
+// Only spend an extraction request on messages that talk about the user themselves
+export function mightContainFacts(message: string): boolean {
+  return /\b(i|i'm|im|my|me|mine|we|our|us)\b/i.test(message) && message.trim().split(/\s+/).length >= 3;
+}
+
+export function buildFactExtractionPrompt(message: string, response: string, knownFacts: MemoryFact[], userName: string): string {
+  return `Extract durable facts about ${userName} from the exchange below: names of people and pets, likes and dislikes, important dates, and ongoing events or plans. Ignore small talk and anything only true right now.
+
+Already known:
+${knownFacts.length ? knownFacts.map(fact => `- ${fact.text}`).join('\n') : '- nothing yet'}
+
+${userName}: ${message}
+Assistant: ${response}
+
+Reply with only a JSON array such as [{"text": "${userName}'s sister is called Riya", "category": "name"}]. Categories: ${memoryCategories.join(', ')}. Reply [] if there is nothing new.`;
+}
+
+export function parseExtractedFacts(output: string): { text: string; category: MemoryCategory }[] {
+  const match = output.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(item => item && typeof item.text === 'string' && item.text.trim())
+      .map(item => ({
+        text: item.text.trim(),
+        category: memoryCategories.includes(item.category) ? item.category : 'other'
+      }));
+  } catch (error) {
+    console.warn('Could not parse extracted facts:', output);
+    return [];
+  }
+}
+
+// Pattern-based extraction used when no model is available
+export function extractFactsHeuristically(message: string, userName: string): { text: string; category: MemoryCategory }[] {
+  const facts: { text: string; category: MemoryCategory }[] = [];
+  const patterns: { regex: RegExp; category: MemoryCategory; format: (m: RegExpMatchArray) => string }[] = [
+    { regex: /\bmy name is ([\p{L}' -]{2,40})/iu, category: 'name', format: m => `${userName}'s real name is ${m[1].trim()}` },
+    { regex: /\bmy (\w+)(?:'s| is) (?:name is |called )?([A-Z][\p{L}'-]+)/u, category: 'name', format: m => `${userName}'s ${m[1]} is ${m[2]}` },
+    { regex: /\bi (?:really )?(love|like|enjoy|hate|dislike|prefer) ([^.!?,]{3,60})/i, category: 'preference', format: m => `${userName} ${m[1].toLowerCase()}s ${m[2].trim()}` },
+    { regex: /\bmy (birthday|anniversary) is ([^.!?]{3,40})/i, category: 'date', format: m => `${userName}'s ${m[1].toLowerCase()} is ${m[2].trim()}` },
+    { regex: /\bi(?:'m| am) (?:going to|planning to|starting|working on) ([^.!?]{3,80})/i, category: 'event', format: m => `${userName} is going to ${m[1].trim()}` }
+  ];
+
+  for (const { regex, category, format } of patterns) {
+    const match = message.match(regex);
+    if (match) facts.push({ text: format(match), category });
+  }
+  return facts;
+}
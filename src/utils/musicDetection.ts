@@ -0,0 +1,175 @@
+// Ambient music detection from the microphone, for music playing on another speaker.
+// Music is told apart from speech and noise by being sustained (speech pauses between phrases),
+// steady in level (speech rises and falls with every syllable), broadband, and rhythmic.
+import { BeatTracker } from './beatTracking';
+import { ClapDetector } from './clapDetection';
+
+// Seconds of audio each decision looks back over
+const WINDOW_SECONDS = 6;
+// How long the evidence must hold before she starts or stops dancing
+const START_SECONDS = 4;
+const STOP_SECONDS = 6;
+
+export class AmbientMusicDetector {
+  private microphone: ClapDetector;
+  private holdsInput = false;
+  private analyser: AnalyserNode | null = null;
+  private spectrum: Uint8Array | null = null;
+  private waveform: Uint8Array | null = null;
+  private tracker: BeatTracker | null = null;
+  private isListening = false;
+  private frame: number | null = null;
+  private onChangeCallback: ((isMusic: boolean) => void) | null = null;
+  private frames: { time: number; loudness: number; broadband: number }[] = [];
+  private noiseFloor = 0.01;
+  private threshold = 0.55;
+  private music = false;
+  private evidenceSince = 0;
+
+  // Listens through the clap detector's microphone stream and analyser
+  constructor(microphone: ClapDetector) {
+    this.microphone = microphone;
+  }
+
+  async initialize(onChange: (isMusic: boolean) => void): Promise<boolean> {
+    try {
+      this.onChangeCallback = onChange;
+
+      this.holdsInput = true;
+      const { analyser } = await this.microphone.acquireInput();
+      // Destroyed while the microphone permission prompt was open
+      if (!this.holdsInput) return false;
+
+      this.analyser = analyser;
+      this.spectrum = new Uint8Array(analyser.frequencyBinCount);
+      this.waveform = new Uint8Array(analyser.fftSize);
+      this.tracker = new BeatTracker(analyser);
+
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize ambient music detection:', error);
+      this.holdsInput = false;
+      return false;
+    }
+  }
+
+  start(): void {
+    if (!this.analyser || this.isListening) return;
+
+    this.isListening = true;
+    this.tracker?.start();
+    const tick = () => {
+      this.detect(performance.now() / 1000);
+      this.frame = requestAnimationFrame(tick);
+    };
+    this.frame = requestAnimationFrame(tick);
+  }
+
+  stop(): void {
+    this.isListening = false;
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.tracker?.stop();
+    this.setMusic(false);
+  }
+
+  destroy(): void {
+    this.stop();
+
+    if (this.holdsInput) {
+      this.holdsInput = false;
+      this.microphone.releaseInput();
+    }
+
+    this.analyser = null;
+    this.spectrum = null;
+    this.waveform = null;
+    this.tracker = null;
+    this.onChangeCallback = null;
+  }
+
+  get isMusic(): boolean {
+    return this.music;
+  }
+
+  // Follows the tempo of what the microphone hears, for dancing in time
+  get beatTracker(): BeatTracker | null {
+    return this.tracker;
+  }
+
+  setSensitivity(sensitivity: number): void {
+    // sensitivity: 1-10 (1 = only loud, obvious music, 10 = quiet background music too)
+    this.threshold = 0.75 - sensitivity * 0.04;
+  }
+
+  private detect(time: number): void {
+    if (!this.analyser || !this.spectrum || !this.waveform) return;
+
+    this.analyser.getByteFrequencyData(this.spectrum);
+    this.analyser.getByteTimeDomainData(this.waveform);
+
+    let sumOfSquares = 0;
+    for (let i = 0; i < this.waveform.length; i++) {
+      const sample = (this.waveform[i] - 128) / 128;
+      sumOfSquares += sample * sample;
+    }
+    const loudness = Math.sqrt(sumOfSquares / this.waveform.length);
+
+    // Share of the power outside the voice band (below 250 Hz and above 4 kHz). The analyser
+    // reports decibels, which are turned back into power so quiet bins don't count for much.
+    const { minDecibels, maxDecibels } = this.analyser;
+    const binWidth = this.analyser.context.sampleRate / this.analyser.fftSize;
+    let outside = 0;
+    let total = 0;
+    for (let i = 1; i < this.spectrum.length; i++) {
+      const frequency = i * binWidth;
+      const decibels = minDecibels + (this.spectrum[i] / 255) * (maxDecibels - minDecibels);
+      const power = this.spectrum[i] ? Math.pow(10, decibels / 10) : 0;
+      total += power;
+      if (frequency < 250 || frequency > 4000) outside += power;
+    }
+    const broadband = total > 0 ? outside / total : 0;
+
+    // The floor drops quickly to quiet moments and rises only slowly, so it tracks the room.
+    // It holds still during music, which may never pause long enough to show the room.
+    if (!this.music || loudness < this.noiseFloor) {
+      this.noiseFloor += (loudness - this.noiseFloor) * (loudness < this.noiseFloor ? 0.05 : 0.0005);
+    }
+
+    this.frames.push({ time, loudness, broadband });
+    this.frames = this.frames.filter(frame => time - frame.time < WINDOW_SECONDS);
+    if (this.frames[0].time > time - WINDOW_SECONDS + 1) return;
+
+    const isMusic = this.score() >= this.threshold;
+    if (isMusic === this.music) {
+      this.evidenceSince = 0;
+      return;
+    }
+    if (!this.evidenceSince) this.evidenceSince = time;
+    if (time - this.evidenceSince >= (isMusic ? START_SECONDS : STOP_SECONDS)) {
+      this.evidenceSince = 0;
+      this.setMusic(isMusic);
+    }
+  }
+
+  // 0-1 likelihood that the window holds music
+  private score(): number {
+    const audible = this.frames.filter(frame => frame.loudness > this.noiseFloor * 2.5 && frame.loudness > 0.005);
+    const sustained = audible.length / this.frames.length;
+    if (sustained < 0.5) return 0;
+
+    const mean = audible.reduce((sum, frame) => sum + frame.loudness, 0) / audible.length;
+    const variance = audible.reduce((sum, frame) => sum + (frame.loudness - mean) ** 2, 0) / audible.length;
+    const steadiness = 1 - Math.min(1, Math.sqrt(variance) / mean);
+    const broadband = Math.min(1, audible.reduce((sum, frame) => sum + frame.broadband, 0) / audible.length / 0.3);
+    const rhythm = this.tracker?.info?.confidence || 0;
+
+    return sustained * 0.3 + steadiness * 0.2 + broadband * 0.2 + Math.min(1, rhythm / 0.5) * 0.3;
+  }
+
+  private setMusic(isMusic: boolean): void {
+    if (isMusic === this.music) return;
+    this.music = isMusic;
+    this.onChangeCallback?.(isMusic);
+  }
+}
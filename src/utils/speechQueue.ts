@@ -0,0 +1,87 @@
+// Sentence-by-sentence speech queue for streamed responses
+import { SpeechOptions } from '../speech/types';
+
+// Sentence terminators for Latin, Devanagari, Arabic/Urdu and CJK text
+const SENTENCE_END = /[^.!?।؟。！？\n]*[.!?।؟。！？\n]+["')\]]*(?=\s|$)/g;
+
+export interface SpeakerListener {
+  // True from the first sentence starting until the queue has drained
+  onSpeakingChange?: (speaking: boolean) => void;
+  onWord?: (word: string) => void;
+}
+
+export class SentenceSpeaker {
+  private buffer = '';
+  private options: SpeechOptions;
+  private listener: SpeakerListener;
+  private pending = 0;
+  private speaking = false;
+  // Bumped on cancel so sentences queued earlier can't change the speaking state
+  private generation = 0;
+
+  constructor(options: SpeechOptions, listener: SpeakerListener = {}) {
+    this.options = options;
+    this.listener = listener;
+  }
+
+  // Add streamed text and speak every sentence that is now complete
+  push(chunk: string): void {
+    this.buffer += chunk;
+
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    SENTENCE_END.lastIndex = 0;
+    while ((match = SENTENCE_END.exec(this.buffer)) !== null) {
+      // Only treat the sentence as finished once something follows it
+      const end = match.index + match[0].length;
+      if (end >= this.buffer.length) break;
+      this.speak(this.buffer.slice(lastIndex, end));
+      lastIndex = end;
+    }
+
+    this.buffer = this.buffer.slice(lastIndex);
+  }
+
+  // Speak whatever is left once the stream has finished
+  flush(): void {
+    this.speak(this.buffer);
+    this.buffer = '';
+  }
+
+  cancel(): void {
+    this.buffer = '';
+    this.generation++;
+    this.pending = 0;
+    this.options.engine.cancel();
+    this.setSpeaking(false);
+  }
+
+  private speak(text: string): void {
+    const sentence = text.trim();
+    if (!sentence || this.options.muted) return;
+
+    const { engine, config, muted, ...request } = this.options;
+    const generation = this.generation;
+    this.pending++;
+    engine.speak({ ...request, text: sentence }, config, {
+      onStart: () => {
+        if (generation === this.generation) this.setSpeaking(true);
+      },
+      onWord: (word) => {
+        if (generation === this.generation) this.listener.onWord?.(word);
+      }
+    })
+      .catch(error => console.error('Error speaking sentence:', error))
+      .finally(() => {
+        if (generation !== this.generation) return;
+        this.pending = Math.max(0, this.pending - 1);
+        if (this.pending === 0) this.setSpeaking(false);
+      });
+  }
+
+  private setSpeaking(speaking: boolean): void {
+    if (this.speaking === speaking) return;
+    this.speaking = speaking;
+    this.listener.onSpeakingChange?.(speaking);
+  }
+}
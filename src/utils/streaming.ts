@@ -0,0 +1,43 @@
+// Streaming helpers for server-sent event responses
+
+// Read a `data:` line stream until the server sends [DONE] or closes the connection
+export async function readServerSentEvents(response: Response, onData: (data: any) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      let data: any;
+      try {
+        data = JSON.parse(payload);
+      } catch (error) {
+        console.warn('Skipping malformed stream event:', payload);
+        continue;
+      }
+      // Only parse errors are skipped; an error thrown while handling an event ends the stream
+      onData(data);
+    }
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || /abort/i.test(error.message));
+}
@@ -0,0 +1,59 @@
+// YouTube Data API search with sample results when no API key is configured
+
+export interface YouTubeVideo {
+  id: string;
+  title: string;
+  thumbnail: string;
+  duration: string;
+}
+
+export async function searchYouTube(query: string, apiKey: string): Promise<YouTubeVideo[]> {
+  if (!apiKey || !query.trim()) {
+    // Provide sample results if no API key
+    return [
+      {
+        id: 'sample1',
+        title: `${query} - Sample Song 1`,
+        thumbnail: 'https://images.pexels.com/photos/1763075/pexels-photo-1763075.jpeg?auto=compress&cs=tinysrgb&w=300',
+        duration: '3:45'
+      },
+      {
+        id: 'sample2',
+        title: `${query} - Sample Song 2`,
+        thumbnail: 'https://images.pexels.com/photos/1190298/pexels-photo-1190298.jpeg?auto=compress&cs=tinysrgb&w=300',
+        duration: '4:12'
+      },
+      {
+        id: 'sample3',
+        title: `${query} - Sample Song 3`,
+        thumbnail: 'https://images.pexels.com/photos/1105666/pexels-photo-1105666.jpeg?auto=compress&cs=tinysrgb&w=300',
+        duration: '3:28'
+      }
+    ];
+  }
+
+  const response = await fetch(
+    `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=10&q=${encodeURIComponent(query)}&type=video&key=${apiKey}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`YouTube search failed with status ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.items.map((item: any) => ({
+    id: item.id.videoId,
+    title: item.snippet.title,
+    thumbnail: item.snippet.thumbnails.medium.url,
+    duration: 'Unknown'
+  }));
+}
+
+export function toTrack(video: YouTubeVideo) {
+  return {
+    id: video.id,
+    title: video.title,
+    url: `https://www.youtube.com/watch?v=${video.id}`,
+    thumbnail: video.thumbnail
+  };
+}